@@ -1,7 +1,7 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Activity, Moon, Utensils, 
-  Dumbbell, Brain, ChevronRight, 
+  Dumbbell, Brain, ChevronRight, ChevronLeft,
   Plus, X, Loader2, BookOpen, 
   Monitor, Flame,
   Waves, Scan, Layers,
@@ -10,376 +10,499 @@ import {
   History, AlertTriangle, 
   Sun, Battery, Calculator, Sparkles,
   Droplets, TrendingUp, Zap, AlertCircle,
-  Save, Trash2, RotateCcw
+  Save, Trash2, RotateCcw, SlidersHorizontal, Lock
 } from 'lucide-react';
+import { ACTIVITY_LEVELS, BMR_FORMULAS, DEFAULT_PROFILE, INGREDIENTS_DB, MEAL_SLOTS, NUTRIENTS } from './constants';
+import { BodyEntry, DayHistory, DayRecord, Ingredient, MealSlot, MindState, Recipe, ScoringSettings, SleepState, StrengthEntry, TrainingState, UserProfile } from './types';
+import LogFoodModal from './components/LogFoodModal';
+import ComposeModal from './components/ComposeModal';
+import TrainingPanel from './components/TrainingPanel';
+import LogRunModal from './components/LogRunModal';
+import FocusPanel from './components/FocusPanel';
+import BodyPanel from './components/BodyPanel';
+import SleepPanel from './components/SleepPanel';
+import IntakePanel from './components/IntakePanel';
+import SectionHeader from './components/SectionHeader';
+import { ChartRange, historyPoints, inRange, rangeStart } from './lib/chart';
+import LineChart from './components/LineChart';
+import BarChart from './components/BarChart';
+import RangeSelector from './components/RangeSelector';
+import ScoreCalendar from './components/ScoreCalendar';
+import { DayState, defaultDay, emptyMeals, hydrateDay, shiftDate, todayStr } from './lib/day';
+import { SCORING_VERSION, DEFAULT_SCORING, backfillScores, recordMacros } from './lib/scoring';
+import { analyzeDay, summarizeDay } from './lib/analytics';
+import { MetaKey, StorageStatus, flushDays, loadMeta, queueDay, replaceDays, saveDays, saveMeta, subscribeStorage } from './services/storage';
+import ScoringModal from './components/ScoringModal';
+import CorrelationExplorer from './components/CorrelationExplorer';
+import AlertsFeed from './components/AlertsFeed';
+import CoachPanel from './components/CoachPanel';
+import { buildCoachContext } from './lib/coach';
+import { getCoachProvider } from './services/coach';
+import { getMealParser } from './services/mealParser';
+import { foodUsage, itemMacros, mealTotals } from './lib/foods';
+import FoodDatabaseModal from './components/FoodDatabaseModal';
+import DataVault from './components/DataVault';
+import VaultSettings from './components/VaultSettings';
+import { VaultConfig } from './services/vault';
+import { Backup, BackupMeta, RestoreMode, restoreBackup } from './lib/backup';
+import DemoPanel from './components/DemoPanel';
+import ReportsView from './components/ReportsView';
+import HealthImportModal from './components/HealthImportModal';
+import { DEFAULT_DEMO, DemoSettings } from './lib/demo';
+import { clearDemo, loadDataset } from './services/demo';
+import GoalsPanel from './components/GoalsPanel';
+import GoalModal from './components/GoalModal';
+import { Goal, evaluateGoal } from './lib/goals';
+import RemindersPanel from './components/RemindersPanel';
+import ReminderModal from './components/ReminderModal';
+import ReminderBanner, { ReminderNotice } from './components/ReminderBanner';
+import { DEFAULT_REMINDER_SETTINGS, Reminder, ReminderContext, ReminderSettings, dueReminders, markFired, mergeLastFired, reminderBody } from './lib/reminders';
+import { notificationStatus, requestNotifications, showNotification } from './services/notifications';
+import { loadSchedule, saveSchedule } from './services/reminders';
+import { AlertState, EMPTY_ALERT_STATE, SNOOZE_DAYS, detectAnomalies, pruneAlertState, visibleAlerts } from './lib/anomaly';
 
 /**
  * ============================================================================
- * HELPER: STATISTICAL MODELS & MATH
+ * COMPONENT: MetrixOS (Offline Edition)
  * ============================================================================
  */
 
-// Generate a smooth SVG path from data points
-const generateSmoothPath = (data: number[], width: number, height: number) => {
-  if (data.length < 2) return "";
-  const max = Math.max(...data) * 1.1;
-  const min = Math.min(...data) * 0.9;
-  const range = max - min || 1;
-  
-  const points = data.map((d, i) => {
-    const x = (i / (data.length - 1)) * width;
-    const y = height - ((d - min) / range) * height;
-    return [x, y];
-  });
-
-  const line = (pointA: number[], pointB: number[]) => {
-    const lengthX = pointB[0] - pointA[0];
-    const lengthY = pointB[1] - pointA[1];
-    return {
-      length: Math.sqrt(Math.pow(lengthX, 2) + Math.pow(lengthY, 2)),
-      angle: Math.atan2(lengthY, lengthX)
-    };
-  };
+interface MetrixOSProps {
+  vault: VaultConfig;
+  onVaultChange: (config: VaultConfig) => void;
+  onLock: () => void;
+}
 
-  const controlPoint = (current: number[], previous: number[], next: number[], reverse?: boolean) => {
-    const p = previous || current;
-    const n = next || current;
-    const smoothing = 0.2;
-    const o = line(p, n);
-    const angle = o.angle + (reverse ? Math.PI : 0);
-    const length = o.length * smoothing;
-    const x = current[0] + Math.cos(angle) * length;
-    const y = current[1] + Math.sin(angle) * length;
-    return [x, y];
-  };
+// The editable nutrition day plus the targets it is scored against
+interface NutritionState extends Pick<DayState, 'meals' | 'intake'> {
+  targets: { p: number; c: number; f: number };
+  hydration: { intake: number; target: number };
+}
 
-  const bezierCommand = (point: number[], i: number, a: number[][]) => {
-    const [cpsX, cpsY] = controlPoint(a[i - 1], a[i - 2], point);
-    const [cpeX, cpeY] = controlPoint(point, a[i - 1], a[i + 1], true);
-    return `C ${cpsX},${cpsY} ${cpeX},${cpeY} ${point[0]},${point[1]}`;
-  };
-
-  const d = points.reduce((acc, point, i, a) => i === 0
-    ? `M ${point[0]},${point[1]}`
-    : `${acc} ${bezierCommand(point, i, a)}`
-  , "");
-
-  return d;
-};
-
-// Pearson Correlation Coefficient
-const calculateCorrelation = (x: number[], y: number[]): number => {
-  const n = Math.min(x.length, y.length);
-  if (n < 2) return 0;
-  
-  const sumX = x.slice(0, n).reduce((a, b) => a + b, 0);
-  const sumY = y.slice(0, n).reduce((a, b) => a + b, 0);
-  const sumXY = x.slice(0, n).reduce((sum, xi, i) => sum + xi * y[i], 0);
-  const sumX2 = x.slice(0, n).reduce((sum, xi) => sum + xi * xi, 0);
-  const sumY2 = y.slice(0, n).reduce((sum, yi) => sum + yi * yi, 0);
-
-  const numerator = (n * sumXY) - (sumX * sumY);
-  const denominator = Math.sqrt(((n * sumX2) - sumX ** 2) * ((n * sumY2) - sumY ** 2));
-
-  return denominator === 0 ? 0 : numerator / denominator;
-};
-
-// Standard Deviation
-const calculateStdDev = (data: number[]): number => {
-    if (data.length === 0) return 0;
-    const mean = data.reduce((a, b) => a + b, 0) / data.length;
-    const variance = data.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / data.length;
-    return Math.sqrt(variance);
-};
-
-// Euclidean Distance for Macro Adherence (3D space: P, C, F)
-const calculateMacroAdherence = (current: {p: number, c: number, f: number}, target: {p: number, c: number, f: number}) => {
-    const maxDist = Math.sqrt(target.p**2 + target.c**2 + target.f**2); // Origin to target distance
-    const dist = Math.sqrt(
-        Math.pow(current.p - target.p, 2) + 
-        Math.pow(current.c - target.c, 2) + 
-        Math.pow(current.f - target.f, 2)
-    );
-    // Score 100 at 0 distance, 0 at maxDist (simplified)
-    return Math.max(0, 100 * (1 - (dist / maxDist)));
-};
+type DailyStates = { nutrition: NutritionState } & Pick<DayState, 'training' | 'mind' | 'sleep' | 'body'>;
 
-/**
- * ============================================================================
- * DATA SEEDING (9 MONTHS HISTORY)
- * ============================================================================
- */
-const generateHistory = (): Record<string, any> => {
-    const history: Record<string, any> = {};
-    const today = new Date();
-    
-    // Generate 270 days (approx 9 months)
-    for (let i = 270; i >= 0; i--) {
-        const d = new Date(today);
-        d.setDate(d.getDate() - i);
-        const dateStr = d.toISOString().split('T')[0];
-        
-        // Randomized Base Trends with seasonality/noise
-        const seasonality = Math.sin(i / 30) * 10; // Monthly flux
-        const noise = () => (Math.random() - 0.5) * 20;
-
-        history[dateStr] = {
-            sleep: {
-                durationMinutes: 420 + (Math.random() * 120) + seasonality, // 7h +/- variations
-                efficiency: 85 + (Math.random() * 10),
-            },
-            nutrition: {
-                calories: 2200 + noise() * 5,
-                protein: 160 + noise() * 2,
-                hydration: 2500 + noise() * 50 + seasonality * 5,
-            },
-            physical: {
-                steps: 8000 + (Math.random() * 5000),
-                strengthVol: i % 2 === 0 ? 5000 + (Math.random() * 5000) : 0, // Lift every other day
-            },
-            mind: {
-                screenTime: 180 + noise() * 3,
-                studyMinutes: 30 + (Math.random() * 60),
-            },
-            score: 0 // Will be calculated dynamically
-        };
-    }
-    return history;
-};
-
-/**
- * ============================================================================
- * COMPONENT: MetrixOS (Offline Edition)
- * ============================================================================
- */
-
-// Mock DBs
-const INGREDIENTS_DB = [
-  { id: '1', name: 'Chicken Breast (Raw)', macros: { cal: 1.1, p: 0.23, c: 0, f: 0.01 } },
-  { id: '2', name: 'White Rice (Raw)', macros: { cal: 3.6, p: 0.07, c: 0.80, f: 0.01 } },
-  { id: '3', name: 'Almonds', macros: { cal: 5.79, p: 0.21, c: 0.22, f: 0.49 } },
-  { id: '4', name: 'Olive Oil', macros: { cal: 8.84, p: 0, c: 0, f: 1.0 } },
-  { id: '5', name: 'Oats (Raw)', macros: { cal: 3.89, p: 0.16, c: 0.66, f: 0.06 } },
-  { id: '6', name: 'Whey Isolate', macros: { cal: 3.7, p: 0.90, c: 0.01, f: 0.01 } },
-];
-
-const EXERCISE_DB = [
-  { id: 'str1', name: 'Barbell Squat', type: 'strength', calPerRep: 0.35 },
-  { id: 'str2', name: 'Deadlift', type: 'strength', calPerRep: 0.45 },
-  { id: 'str3', name: 'Bench Press', type: 'strength', calPerRep: 0.25 },
-  { id: 'str4', name: 'Overhead Press', type: 'strength', calPerRep: 0.20 },
-  { id: 'str5', name: 'Pull Up', type: 'strength', calPerRep: 0.30 },
-];
-
-export default function MetrixOS() {
+export default function MetrixOS({ vault, onVaultChange, onLock }: MetrixOSProps) {
   const [activeTab, setActiveTab] = useState('dashboard');
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [date, setDate] = useState(todayStr());
   
   // --- PERSISTENT STATE ---
-  const [history, setHistory] = useState<Record<string, any>>({});
+  const [history, setHistory] = useState<DayHistory>({});
+  const [loaded, setLoaded] = useState(false);
   
   // Daily State (initialized from history or defaults)
-  const [userProfile, setUserProfile] = useState({ name: 'Operator', weight: 78.5, height: 180, age: 28, gender: 'male' });
+  const [userProfile, setUserProfile] = useState<UserProfile>(DEFAULT_PROFILE);
   
-  const [nutrition, setNutrition] = useState({
-    meals: { breakfast: [], lunch: [], dinner: [], junk: [] } as Record<string, any[]>,
+  const [nutrition, setNutrition] = useState<NutritionState>({
+    meals: emptyMeals(),
+    intake: defaultDay().intake,
     targets: { p: 180, c: 250, f: 70 },
-    hydration: { intake: 1200, target: 3500 }
+    hydration: { intake: defaultDay().hydration, target: 3500 }
   });
 
-  const [training, setTraining] = useState({
-    cardio: { steps: 4500, runs: [] as any[] },
-    strength: { sessions: [] as any[] }
-  });
+  const [training, setTraining] = useState<TrainingState>(defaultDay().training);
 
-  const [mind, setMind] = useState({
-    screenTime: { total: 145 },
-    study: { reading: 30, lectures: 0 }
-  });
+  const [mind, setMind] = useState<MindState>(defaultDay().mind);
 
-  const [sleep, setSleep] = useState({
-    bedtime: "22:30", waketime: "06:15",
-    awakenings: 2, awakeDuration: 25, qualityRating: 7,
-    naps: [] as any[]
-  });
+  const [sleep, setSleep] = useState<SleepState>(defaultDay().sleep);
+
+  const [body, setBody] = useState<BodyEntry>(defaultDay().body);
+
+  // Daily states as last loaded from history; unchanged states are not written back
+  const hydrated = useRef<DailyStates | null>(null);
+
+  const [scoring, setScoring] = useState<ScoringSettings>(DEFAULT_SCORING);
+
+  // Saved composed dishes (per-gram macros)
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [foodSlot, setFoodSlot] = useState<MealSlot>('breakfast');
+
+  // User-created and imported foods, searched alongside INGREDIENTS_DB
+  const [customFoods, setCustomFoods] = useState<Ingredient[]>([]);
+  const foodDb = useMemo(() => [...INGREDIENTS_DB, ...customFoods], [customFoods]);
+
+  // Dismissed and snoozed anomaly alerts
+  const [alertState, setAlertState] = useState<AlertState>(EMPTY_ALERT_STATE);
+
+  // User-defined goals, evaluated against history; editingGoal is null for a new one
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+
+  // Reminders, scheduled here while the vault is open (VaultGate covers the
+  // locked vault); banners stand in for notifications the browser will not show
+  const [reminders, setReminders] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
+  const [notifyStatus, setNotifyStatus] = useState(notificationStatus());
+  const [banners, setBanners] = useState<ReminderNotice[]>([]);
+
+  // Demo mode swaps the day store for a synthetic one
+  const [demo, setDemo] = useState<DemoSettings>(DEFAULT_DEMO);
+
+  // Bumped when a restore or dataset switch swaps the data under the selected day
+  const [reloads, setReloads] = useState(0);
+  // Shared by every time-series chart
+  const [chartRange, setChartRange] = useState<ChartRange>('30d');
 
   // --- MODAL STATES ---
   const [modals, setModals] = useState({
       profile: false,
       logFood: false,
       compose: false,
-      logRun: false
+      logRun: false,
+      scoring: false,
+      foods: false,
+      goal: false,
+      reminder: false,
+      healthImport: false
   });
 
+  // Meta documents whose last write failed, shown in the top bar until a later write succeeds
+  const [failedSaves, setFailedSaves] = useState<MetaKey[]>([]);
+  // Day records skipped or not yet written, and whether the initial load failed outright
+  const [storage, setStorage] = useState<StorageStatus>({ unreadable: [], unsavedDays: [] });
+  const [loadFailed, setLoadFailed] = useState(false);
+  const unsaved = [...failedSaves, ...storage.unsavedDays];
+
+  useEffect(() => subscribeStorage(setStorage), []);
+
   // --- INIT & PERSISTENCE ---
   useEffect(() => {
-      const savedHistory = localStorage.getItem('metrix_history');
-      if (savedHistory) {
-          setHistory(JSON.parse(savedHistory));
-      } else {
-          // First run: Seed data
-          const seed = generateHistory();
-          setHistory(seed);
-          localStorage.setItem('metrix_history', JSON.stringify(seed));
-      }
+      (async () => {
+          const savedDemo = { ...DEFAULT_DEMO, ...(await loadMeta<DemoSettings>('demo')) };
+          const [base, savedProfile, savedRecipes, savedScoring, savedAlerts, savedFoods, savedGoals, savedReminders, savedSchedule] = await Promise.all([
+              loadDataset(savedDemo),
+              loadMeta<UserProfile>('profile'),
+              loadMeta<Recipe[]>('recipes'),
+              loadMeta<ScoringSettings>('scoring'),
+              loadMeta<AlertState>('alerts'),
+              loadMeta<Ingredient[]>('foods'),
+              loadMeta<Goal[]>('goals'),
+              loadMeta<ReminderSettings>('reminders'),
+              loadSchedule(),
+          ]);
+          const scoringSettings = savedScoring || DEFAULT_SCORING;
+          const rescored = backfillScores(base, nutrition.targets, nutrition.hydration.target, scoringSettings.params);
+          setHistory({ ...base, ...rescored });
+          await saveDays(rescored);
+          if (savedProfile) setUserProfile({ ...DEFAULT_PROFILE, ...savedProfile });
+          if (savedRecipes) setRecipes(savedRecipes);
+          setScoring(scoringSettings);
+          if (savedAlerts) setAlertState(savedAlerts);
+          if (savedFoods) setCustomFoods(savedFoods);
+          if (savedGoals) setGoals(savedGoals);
+          // Reminders fired while locked are only recorded in the schedule copy,
+          // which is refreshed here in case it predates them
+          if (savedReminders) {
+              const merged = mergeLastFired(savedReminders, savedSchedule?.lastFired || {});
+              setReminders(merged);
+              saveSchedule(merged).catch(err => console.error('MetrixOS: failed to save reminder schedule', err));
+          }
+          setDemo(savedDemo);
+          setLoaded(true);
+      })().catch(err => {
+          console.error('MetrixOS: failed to load storage', err);
+          setLoadFailed(true);
+      });
   }, []);
 
-  // Save current day to history on change
+  // Settings writes are not awaited by the UI, so failures surface here instead
+  const persistMeta = (key: MetaKey, value: unknown) => {
+      saveMeta(key, value)
+          .then(() => setFailedSaves(keys => keys.filter(k => k !== key)))
+          .catch(err => {
+              console.error(`MetrixOS: failed to save ${key}`, err);
+              setFailedSaves(keys => keys.includes(key) ? keys : [...keys, key]);
+          });
+  };
+
   useEffect(() => {
-      if (Object.keys(history).length === 0) return;
-
-      const currentSnapshot = {
-          sleep: {
-              durationMinutes: calculateSleepDuration(),
-              efficiency: calculateSleepEfficiency(),
-          },
-          nutrition: {
-              calories: calculateNutrition().cal,
-              protein: calculateNutrition().p,
-              hydration: nutrition.hydration.intake,
-          },
-          physical: {
-              steps: training.cardio.steps,
-              strengthVol: calculateVolume(),
-          },
-          mind: {
-              screenTime: mind.screenTime.total,
-              studyMinutes: mind.study.reading + mind.study.lectures,
-          },
-          score: 0 // Calc later
-      };
+      if (loaded) persistMeta('profile', userProfile);
+  }, [userProfile]);
 
-      const newHistory = { ...history, [date]: currentSnapshot };
-      // Debounce saving in a real app, but direct set here for simplicity
-      // We don't setHistory here to avoid loops, we just update LS
-      localStorage.setItem('metrix_history', JSON.stringify(newHistory));
-  }, [nutrition, training, mind, sleep, userProfile]);
-
-
-  // --- CALCULATORS (extracted for reuse) ---
-  const calculateSleepDuration = () => {
-    const bedParts = sleep.bedtime.split(':').map(Number);
-    const wakeParts = sleep.waketime.split(':').map(Number);
-    let bedMin = bedParts[0] * 60 + bedParts[1];
-    let wakeMin = wakeParts[0] * 60 + wakeParts[1];
-    if (wakeMin < bedMin) wakeMin += 24 * 60;
-    return (wakeMin - bedMin) - sleep.awakeDuration + sleep.naps.reduce((acc, n) => acc + n.duration, 0);
+  const updateRecipes = (next: Recipe[]) => {
+      setRecipes(next);
+      persistMeta('recipes', next);
   };
 
-  const calculateSleepEfficiency = () => {
-      const duration = calculateSleepDuration();
-      const bedParts = sleep.bedtime.split(':').map(Number);
-      const wakeParts = sleep.waketime.split(':').map(Number);
-      let bedMin = bedParts[0] * 60 + bedParts[1];
-      let wakeMin = wakeParts[0] * 60 + wakeParts[1];
-      if (wakeMin < bedMin) wakeMin += 24 * 60;
-      const timeInBed = wakeMin - bedMin;
-      return timeInBed > 0 ? (duration / timeInBed) * 100 : 0;
+  const updateFoods = (next: Ingredient[]) => {
+      setCustomFoods(next);
+      persistMeta('foods', next);
   };
 
-  const calculateNutrition = () => {
-      let totals = { cal: 0, p: 0, c: 0, f: 0 };
-      Object.keys(nutrition.meals).forEach(slot => {
-          nutrition.meals[slot].forEach(item => {
-              // Assuming item has macros attached if composed, or lookup
-              const dbItem = INGREDIENTS_DB.find(i => i.id === item.id);
-              if (item.macros) { // Composed
-                  totals.cal += item.macros.cal * item.amount;
-                  totals.p += item.macros.p * item.amount;
-                  totals.c += item.macros.c * item.amount;
-                  totals.f += item.macros.f * item.amount;
-              } else if (dbItem) { // Raw
-                  totals.cal += dbItem.macros.cal * item.amount;
-                  totals.p += dbItem.macros.p * item.amount;
-                  totals.c += dbItem.macros.c * item.amount;
-                  totals.f += dbItem.macros.f * item.amount;
-              }
-          });
-      });
-      return totals;
+  const updateGoals = (next: Goal[]) => {
+      setGoals(next);
+      persistMeta('goals', next);
   };
 
-  const calculateVolume = () => {
-      return training.strength.sessions.reduce((acc, s) => acc + (s.sets * s.reps * s.weight), 0);
+  const updateReminders = (next: ReminderSettings) => {
+      setReminders(next);
+      persistMeta('reminders', next);
+      saveSchedule(next).catch(err => console.error('MetrixOS: failed to save reminder schedule', err));
   };
 
-  // --- ANALYTICS ENGINE (The "Brain") ---
-  const analytics = useMemo(() => {
-      const nut = calculateNutrition();
-      const totalSleepMin = calculateSleepDuration();
-      const sleepEff = calculateSleepEfficiency();
-      const vol = calculateVolume();
-      const steps = training.cardio.steps;
-      
-      // 1. Scoring Models (Gaussian & Linear)
-      
-      // Sleep: Target 480m (8h), Sigma 90m
-      const sleepScore = 100 * Math.exp(-0.5 * Math.pow((totalSleepMin - 480) / 90, 2));
-      
-      // Nutrition: Euclidean Adherence
-      const nutritionScore = calculateMacroAdherence(nut, nutrition.targets);
-      
-      // Hydration: Linear to target, decay after 1.5x
-      const hydroRatio = nutrition.hydration.intake / nutrition.hydration.target;
-      const hydrationScore = hydroRatio <= 1 ? hydroRatio * 100 : Math.max(0, 100 - (hydroRatio - 1.2) * 50);
+  // A saved reminder starts from now rather than firing for an occurrence already past
+  const saveReminder = (r: Reminder) => {
+      const list = reminders.reminders.some(x => x.id === r.id) ? reminders.reminders.map(x => x.id === r.id ? r : x) : [...reminders.reminders, r];
+      updateReminders({ reminders: list, lastFired: { ...reminders.lastFired, [r.id]: Date.now() } });
+  };
+
+  const toggleReminder = (id: string) => updateReminders({
+      reminders: reminders.reminders.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r),
+      lastFired: { ...reminders.lastFired, [id]: Date.now() },
+  });
 
-      // Physical: Volume + Steps (Normalized to 10k steps and 10k volume)
-      const physScore = Math.min(100, (steps / 10000 * 50) + (vol / 10000 * 50));
+  const deleteReminder = (id: string) => {
+      const { [id]: _, ...lastFired } = reminders.lastFired;
+      updateReminders({ reminders: reminders.reminders.filter(r => r.id !== id), lastFired });
+  };
 
-      // Mind: Study reward vs Screen penalty
-      const screenPenalty = Math.max(0, (mind.screenTime.total - 120) * 0.5);
-      const studyReward = (mind.study.reading + mind.study.lectures) * 0.5;
-      const mindScore = Math.min(100, Math.max(0, 70 + studyReward - screenPenalty));
+  // New scoring parameters apply retroactively so trends stay comparable
+  const applyScoring = (next: ScoringSettings) => {
+      setScoring(next);
+      persistMeta('scoring', next);
+      const rescored = backfillScores(history, nutrition.targets, nutrition.hydration.target, next.params, true);
+      setHistory(prev => ({ ...prev, ...rescored }));
+      saveDays(rescored);
+  };
 
-      // System Status (Weighted)
-      const systemStatus = (sleepScore * 0.3) + (nutritionScore * 0.25) + (physScore * 0.2) + (mindScore * 0.15) + (hydrationScore * 0.1);
+  // Everything a backup carries besides the days
+  const vaultMeta: BackupMeta = { profile: userProfile, scoring, recipes, foods: customFoods, goals, alerts: alertState, reminders };
+
+  const restoreData = async (backup: Backup, mode: RestoreMode) => {
+      await flushDays();
+      const next = restoreBackup({ history, meta: vaultMeta }, backup, mode);
+      const scoringSettings = next.meta.scoring || DEFAULT_SCORING;
+      const rescored = backfillScores(next.history, nutrition.targets, nutrition.hydration.target, scoringSettings.params);
+      const days = { ...next.history, ...rescored };
+      await (mode === 'replace' ? replaceDays(days) : saveDays(days));
+      await Promise.all([
+          saveMeta('scoring', scoringSettings),
+          saveMeta('recipes', next.meta.recipes || []),
+          saveMeta('foods', next.meta.foods || []),
+          saveMeta('goals', next.meta.goals || []),
+          saveMeta('alerts', next.meta.alerts || EMPTY_ALERT_STATE),
+          saveMeta('reminders', next.meta.reminders || DEFAULT_REMINDER_SETTINGS),
+          saveSchedule(next.meta.reminders || DEFAULT_REMINDER_SETTINGS),
+      ]);
+      setHistory(days);
+      setUserProfile({ ...DEFAULT_PROFILE, ...next.meta.profile });
+      setScoring(scoringSettings);
+      setRecipes(next.meta.recipes || []);
+      setCustomFoods(next.meta.foods || []);
+      setGoals(next.meta.goals || []);
+      setAlertState(next.meta.alerts || EMPTY_ALERT_STATE);
+      setReminders(next.meta.reminders || DEFAULT_REMINDER_SETTINGS);
+      setReloads(n => n + 1);
+  };
 
-      // Energy Balance
-      const bmr = (10 * userProfile.weight) + (6.25 * userProfile.height) - (5 * userProfile.age) + 5; // Male
-      const activeBurn = (steps * 0.045) + (vol * 0.03); // Approx
-      const tdee = bmr * 1.2 + activeBurn;
-      const balance = nut.cal - tdee;
+  // Imported records carry no scoring version, so all of them are rescored;
+  // the newest imported weigh-in updates the profile like a manual one
+  const importHealth = async (records: DayHistory) => {
+      await flushDays();
+      const days = { ...records, ...backfillScores(records, nutrition.targets, nutrition.hydration.target, scoring.params) };
+      await saveDays(days);
+      setHistory(prev => ({ ...prev, ...days }));
+      setReloads(n => n + 1);
+      const weighIn = Object.keys(records).filter(d => records[d].body?.weight).sort().pop();
+      if (weighIn && !Object.keys(history).some(d => d > weighIn && history[d].body?.weight != null)) setUserProfile(p => ({...p, weight: records[weighIn].body!.weight!}));
+  };
 
+  const switchDataset = async (next: DemoSettings, regenerate = false) => {
+      await flushDays();
+      if (regenerate) await clearDemo();
+      await saveMeta('demo', next);
+      const base = await loadDataset(next);
+      const rescored = backfillScores(base, nutrition.targets, nutrition.hydration.target, scoring.params);
+      await saveDays(rescored);
+      setDemo(next);
+      setHistory({ ...base, ...rescored });
+      setReloads(n => n + 1);
+  };
+
+  const clearDemoData = async () => {
+      await flushDays();
+      await clearDemo();
+      if (demo.enabled) await switchDataset({ ...demo, enabled: false });
+  };
+
+  // Load the selected day's record into the editable daily states
+  useEffect(() => {
+      if (!loaded) return;
+      const day = hydrateDay(history[date]);
+      const next: DailyStates = {
+          nutrition: { ...nutrition, meals: day.meals, intake: day.intake, hydration: { ...nutrition.hydration, intake: day.hydration } },
+          training: day.training,
+          mind: day.mind,
+          sleep: day.sleep,
+          body: day.body,
+      };
+      hydrated.current = next;
+      setNutrition(next.nutrition);
+      setTraining(next.training);
+      setMind(next.mind);
+      setSleep(next.sleep);
+      setBody(next.body);
+  }, [date, loaded, reloads]);
+
+  // Save current day to history on change
+  useEffect(() => {
+      if (!loaded) return;
+      const h = hydrated.current;
+      if (h && h.nutrition === nutrition && h.training === training && h.mind === mind && h.sleep === sleep && h.body === body) return;
+
+      const currentSnapshot: DayRecord = {
+          ...daySummary,
+          energy: { intake: analytics.energy.intake, tdee: analytics.energy.tdee, balance: analytics.energy.balance },
+          score: analytics.scores.system,
+          scores: analytics.scores,
+          scoringVersion: SCORING_VERSION,
+          ...(demo.enabled ? { synthetic: true } : {}),
+      };
+
+      setHistory(prev => ({ ...prev, [date]: currentSnapshot }));
+      queueDay(date, currentSnapshot);
+  }, [nutrition, training, mind, sleep, body, userProfile]);
+
+  // A weigh-in on the latest day becomes the profile weight used for BMR
+  const updateBody = (next: BodyEntry) => {
+      setBody(next);
+      const laterWeighIn = Object.keys(history).some(d => d > date && history[d].body?.weight != null);
+      if (next.weight && next.weight > 0 && !laterWeighIn) setUserProfile(p => ({...p, weight: next.weight!}));
+  };
+
+
+  // The day being edited, summarised from live state
+  const daySummary = useMemo(() => summarizeDay({
+      meals: nutrition.meals,
+      intake: nutrition.intake,
+      hydration: nutrition.hydration.intake,
+      training,
+      mind,
+      sleep,
+      body,
+  }, foodDb), [nutrition, training, mind, sleep, body, foodDb]);
+
+  // --- ANALYTICS ENGINE (The "Brain") ---
+  const analytics = useMemo(() => ({
+      ...analyzeDay(daySummary, {
+          profile: userProfile,
+          targets: nutrition.targets,
+          hydrationTarget: nutrition.hydration.target,
+          params: scoring.params,
+      }),
+      nut: mealTotals(nutrition.meals, foodDb),
+  }), [daySummary, nutrition, userProfile, scoring, foodDb]);
+
+  // History with the day being edited taken from live state
+  const liveHistory = useMemo<DayHistory>(() => ({
+      ...history,
+      [date]: { ...history[date], ...daySummary, score: analytics.scores.system, scores: analytics.scores },
+  }), [history, date, daySummary, analytics]);
+
+  // Strength entries by date; the day being edited comes from live state
+  const strengthLog = useMemo(() => {
+      const log: Record<string, StrengthEntry[]> = {};
+      Object.keys(history).forEach(d => {
+          if (history[d].physical?.sessions?.length) log[d] = history[d].physical.sessions;
+      });
+      if (training.strength.sessions.length) log[date] = training.strength.sessions;
+      else delete log[date];
+      return log;
+  }, [history, training, date]);
+
+  // Study vs screen minutes per recorded day through the active date
+  const mindLoad = useMemo(() => Object.keys(liveHistory).filter(d => d <= date).sort().map(d => ({
+      date: d,
+      study: liveHistory[d].mind.studyMinutes || 0,
+      screen: liveHistory[d].mind.screenTime || 0,
+  })), [liveHistory, date]);
+
+  // Weigh-ins and daily energy model, with the active day from live state
+  const bodyLog = useMemo(() => {
+      const days = { ...history, [date]: { ...history[date], body, energy: analytics.energy } as DayRecord };
+      const dates = Object.keys(days).sort();
       return {
-          scores: { sleep: sleepScore, nutrition: nutritionScore, hydration: hydrationScore, physical: physScore, mind: mindScore, system: systemStatus },
-          energy: { tdee, balance, intake: nut.cal },
-          nut,
-          raw: { sleep: totalSleepMin, steps, vol }
+          weighIns: dates.filter(d => days[d].body?.weight).map(d => ({ date: d, value: days[d].body!.weight! })),
+          energy: dates.filter(d => days[d].energy).map(d => ({ date: d, intake: days[d].energy!.intake, tdee: days[d].energy!.tdee })),
       };
-  }, [nutrition, training, mind, sleep, userProfile]);
-
-  // --- HISTORICAL ANALYTICS ---
-  const historicalInsights = useMemo(() => {
-      const dates = Object.keys(history).sort();
-      if (dates.length === 0) return null;
-
-      // Extract Arrays
-      const sleepArr = dates.map(d => history[d].sleep.durationMinutes / 60);
-      const efficiencyArr = dates.map(d => history[d].sleep.efficiency);
-      const scoreArr = dates.map(d => history[d].score || 75); // Fallback if score wasn't saved in seed
-      const stepsArr = dates.map(d => history[d].physical.steps);
-      const screenArr = dates.map(d => history[d].mind.screenTime);
-      
-      // Calculate Correlations (Pearson)
-      // Does Screen Time affect Sleep Duration?
-      const screenVsSleep = calculateCorrelation(screenArr, sleepArr);
-      // Does Activity affect Sleep Efficiency?
-      const stepsVsEfficiency = calculateCorrelation(stepsArr, efficiencyArr);
-
-      // Trend Lines (Last 14 days)
-      const recentDates = dates.slice(-14);
-      const recentSleep = recentDates.map(d => history[d].sleep.durationMinutes / 60);
-      
+  }, [history, body, analytics, date]);
+
+  // Recorded nights up to the active date, which comes from live state
+  const sleepNights = useMemo(() => {
+      const nights = Object.keys(history).filter(d => d < date).sort().map(d => ({
+          date: d,
+          duration: history[d].sleep.durationMinutes,
+          bedtime: history[d].sleep.bedtime,
+          waketime: history[d].sleep.waketime,
+      }));
+      return [...nights, { date, duration: analytics.raw.sleep, bedtime: sleep.bedtime, waketime: sleep.waketime }];
+  }, [history, date, sleep, analytics]);
+
+  // Macro calories per day with food logged, for the nutrition chart
+  const macroLog = useMemo(() => Object.keys(liveHistory).sort().filter(d => liveHistory[d].nutrition.calories > 0).map(d => {
+      const m = recordMacros(liveHistory[d]);
+      return { date: d, values: [m.p * 4, m.c * 4, m.f * 9] };
+  }), [liveHistory]);
+
+  // Checks run through yesterday: today is still being logged
+  const alerts = useMemo(() => detectAnomalies(history, {
+      protein: nutrition.targets.p,
+      hydration: nutrition.hydration.target,
+      sleep: scoring.params.sleep.target,
+  }, shiftDate(todayStr(), -1)), [history, nutrition.targets, nutrition.hydration.target, scoring]);
+
+  // Goals as of the active date, whose record comes from live state
+  const goalStatuses = useMemo(() => goals.map(g => evaluateGoal(g, liveHistory, date)), [goals, liveHistory, date]);
+
+  const coachProvider = useMemo(() => getCoachProvider(), []);
+  const mealParser = useMemo(() => getMealParser(), []);
+
+  const coachContext = useMemo(() => buildCoachContext(
+      history,
+      date,
+      { scores: analytics.scores, tdee: analytics.energy.tdee, balance: analytics.energy.balance },
+      visibleAlerts(alerts, alertState, todayStr()).map(a => a.title),
+  ), [history, date, analytics, alerts, alertState]);
+
+  // Smart reminders look at today's record whichever day is being edited;
+  // tonight's bedtime is tomorrow's sleep record once it exists
+  const reminderContext = (): ReminderContext => {
+      const today = todayStr();
+      const day = hydrateDay(history[today]);
+      const meals = Object.values(day.meals).reduce((n, items) => n + items.length, 0);
       return {
-          correlations: {
-              screenVsSleep,
-              stepsVsEfficiency
-          },
-          trends: {
-              sleep: recentSleep
-          }
+          hydration: day.hydration,
+          hydrationTarget: nutrition.hydration.target,
+          mealsLogged: meals + day.intake.filter(e => e.kind === 'meal').length,
+          bedtime: history[shiftDate(today, 1)]?.sleep.bedtime || day.sleep.bedtime,
       };
-  }, [history, analytics]); // Depend on analytics to trigger recalc when today saves
+  };
+
+  // Checked on every change to the log and once a minute
+  useEffect(() => {
+      if (!loaded) return;
+      const check = () => {
+          const now = new Date();
+          const ctx = reminderContext();
+          const due = dueReminders(reminders, now, ctx);
+          if (due.length === 0) return;
+          updateReminders(markFired(reminders, due.map(r => r.id), now));
+          due.forEach(async r => {
+              const body = reminderBody(r, ctx);
+              if (!(await showNotification(r.title, body, r.id))) {
+                  setBanners(b => [...b.filter(n => n.id !== r.id), { id: r.id, title: r.title, body }]);
+              }
+          });
+      };
+      check();
+      const timer = setInterval(check, 60_000);
+      return () => clearInterval(timer);
+  }, [loaded, reminders, history, nutrition.hydration.target]);
+
+  const updateAlerts = (next: AlertState) => {
+      const pruned = pruneAlertState(next, alerts, todayStr());
+      setAlertState(pruned);
+      persistMeta('alerts', pruned);
+  };
 
   /**
    * ==========================================================================
@@ -406,25 +529,17 @@ export default function MetrixOS() {
     `}</style>
   );
 
-  const SectionHeader = ({ icon: Icon, title, right, color }: any) => (
-    <div className="flex justify-between items-center mb-6 pb-2 border-b border-gray-800/50">
-      <div className={`flex items-center gap-3 ${color}`}>
-        <Icon size={18} strokeWidth={2.5} />
-        <span className="font-bold text-xs uppercase tracking-[0.15em]">{title}</span>
-      </div>
-      {right}
-    </div>
-  );
-
   // --- TABS ---
 
   const Dashboard = () => {
       const status = analytics.scores.system;
       const color = status > 80 ? 'text-emerald-400' : status > 50 ? 'text-amber-400' : 'text-rose-400';
       const borderColor = status > 80 ? 'border-emerald-900/30' : status > 50 ? 'border-amber-900/30' : 'border-rose-900/30';
+      const scorePoints = historyPoints(liveHistory, r => r.score);
 
       return (
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+              <div className="grid md:grid-cols-2 gap-6">
               <div className={`glass-panel p-8 rounded-3xl ${borderColor} relative overflow-hidden`}>
                   <div className={`absolute top-0 right-0 p-8 opacity-10 ${color}`}><Activity size={180} /></div>
                   <div className="relative z-10">
@@ -456,67 +571,60 @@ export default function MetrixOS() {
                   </div>
               </div>
 
+              <GoalsPanel
+                  statuses={goalStatuses}
+                  onAdd={() => { setEditingGoal(null); setModals(m => ({...m, goal: true})); }}
+                  onEdit={g => { setEditingGoal(g); setModals(m => ({...m, goal: true})); }}
+                  onDelete={id => updateGoals(goals.filter(g => g.id !== id))}
+              />
+              </div>
+
+              {loaded && Object.keys(history).length === 0 && (
+                  <div className="p-4 rounded-2xl border border-gray-800 bg-black/40 text-[10px] text-gray-500">
+                      No history yet. Trends, correlations and alerts fill in as you log days, or try them now on synthetic data under DAT → Demo Data.
+                  </div>
+              )}
+
+              <AlertsFeed
+                  alerts={visibleAlerts(alerts, alertState, todayStr())}
+                  onDismiss={id => updateAlerts({ ...alertState, dismissed: [...alertState.dismissed, id] })}
+                  onSnooze={id => updateAlerts({ ...alertState, snoozed: { ...alertState.snoozed, [id]: shiftDate(todayStr(), SNOOZE_DAYS) } })}
+              />
+
               <div className="grid grid-cols-2 gap-4">
                   <div className="bg-[#0A0A0A] p-5 rounded-2xl border border-gray-800">
                       <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-2">Energy Balance</div>
                       <div className="text-2xl font-mono text-white">{analytics.energy.tdee.toFixed(0)} <span className={`text-sm ${analytics.energy.balance >= 0 ? 'text-emerald-500' : 'text-amber-500'}`}>{analytics.energy.balance > 0 ? '+' : ''}{analytics.energy.balance.toFixed(0)}</span></div>
+                      <div className="text-[10px] font-mono text-gray-600 mt-1">BMR {analytics.energy.bmr.toFixed(0)} • Active {analytics.energy.active.toFixed(0)}</div>
                   </div>
                   <div className="bg-[#0A0A0A] p-5 rounded-2xl border border-gray-800">
                       <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-2">Daily Volume</div>
                       <div className="text-2xl font-mono text-white">{(analytics.raw.vol/1000).toFixed(1)}k <span className="text-sm text-gray-600">kg</span></div>
                   </div>
               </div>
-          </div>
-      )
-  };
 
-  const SleepPanel = () => {
-      // Use historical trends if available, else current
-      const trendData = historicalInsights?.trends.sleep || [7,7,7,7,7,7,7];
-      const pathD = generateSmoothPath(trendData, 300, 60);
-
-      return (
-          <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-              <div className="glass-panel p-6 rounded-3xl border border-violet-900/30">
-                  <SectionHeader icon={Moon} title="Circadian Rhythm" color="text-violet-400" />
-                  
-                  {/* Trend Graph */}
-                  <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-6 mb-6 h-32 relative overflow-hidden">
-                      <div className="absolute top-2 left-4 text-[10px] text-gray-500 font-bold uppercase">14-Day Duration Trend</div>
-                      <svg className="w-full h-full pt-4" preserveAspectRatio="none">
-                          <path d={pathD} fill="none" stroke="#8b5cf6" strokeWidth="2" strokeLinecap="round" />
-                          <path d={`${pathD} V 100 H 0 Z`} fill="url(#violetGrad)" stroke="none" opacity="0.2" />
-                          <defs>
-                              <linearGradient id="violetGrad" x1="0" x2="0" y1="0" y2="1">
-                                  <stop offset="0%" stopColor="#8b5cf6" stopOpacity="0.5"/>
-                                  <stop offset="100%" stopColor="#8b5cf6" stopOpacity="0"/>
-                              </linearGradient>
-                          </defs>
-                      </svg>
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-4 mb-6">
-                      <div>
-                          <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Bedtime</label>
-                          <input type="time" className="custom-input text-xl" value={sleep.bedtime} onChange={e => setSleep({...sleep, bedtime: e.target.value})} />
-                      </div>
-                      <div>
-                          <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Waketime</label>
-                          <input type="time" className="custom-input text-xl" value={sleep.waketime} onChange={e => setSleep({...sleep, waketime: e.target.value})} />
+              {Object.keys(history).length > 0 && (
+                  <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4">
+                      <div className="flex justify-between items-center mb-3">
+                          <span className="text-[10px] text-gray-500 font-bold uppercase">System Score</span>
+                          <RangeSelector value={chartRange} onChange={setChartRange} />
                       </div>
+                      <LineChart
+                          series={[{ id: 'system', label: 'System', color: '#10b981', area: true, points: inRange(scorePoints, date, chartRange) }]}
+                          bands={[{ from: 80, to: 100, label: 'Optimal', color: '#10b981' }]}
+                          from={rangeStart(date, chartRange, scorePoints[0]?.date)}
+                          to={date}
+                          format={v => v.toFixed(0)}
+                      />
                   </div>
-                  
-                  <div className="flex justify-between items-center bg-violet-900/10 p-4 rounded-xl border border-violet-500/20">
-                      <span className="text-xs font-bold text-violet-300 uppercase">Sleep Score</span>
-                      <span className="text-2xl font-mono font-bold text-violet-400">{analytics.scores.sleep.toFixed(0)}</span>
-                  </div>
-              </div>
+              )}
           </div>
       )
   };
 
   const NutritionPanel = () => {
       const updateHydration = (amt: number) => setNutrition(p => ({...p, hydration: {...p.hydration, intake: Math.max(0, p.hydration.intake + amt)}}));
+      const calorieTarget = nutrition.targets.p * 4 + nutrition.targets.c * 4 + nutrition.targets.f * 9;
       
       return (
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -566,55 +674,79 @@ export default function MetrixOS() {
                       )
                   })}
               </div>
-              
-              <div className="grid grid-cols-2 gap-3">
+
+              {/* Macro Calories */}
+              <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4">
+                  <div className="flex justify-between items-center mb-3">
+                      <span className="text-[10px] text-gray-500 font-bold uppercase">Calories by Macro</span>
+                      <RangeSelector value={chartRange} onChange={setChartRange} />
+                  </div>
+                  <BarChart
+                      data={macroLog}
+                      series={[{ label: 'Protein', color: '#3b82f6' }, { label: 'Carbs', color: '#f97316' }, { label: 'Fats', color: '#f59e0b' }]}
+                      bands={[{ from: calorieTarget * 0.9, to: calorieTarget * 1.1, label: 'Target', color: '#10b981' }]}
+                      from={rangeStart(date, chartRange, macroLog[0]?.date)}
+                      to={date}
+                      format={v => `${Math.round(v)}`}
+                  />
+              </div>
+
+              {/* Micronutrients */}
+              <div className="grid grid-cols-4 gap-2">
+                  {NUTRIENTS.map(n => {
+                      const val = analytics.nut[n.id];
+                      const over = n.limit && val > n.target;
+                      return (
+                          <div key={n.id} className="bg-[#0A0A0A] p-2 rounded-lg border border-gray-800">
+                              <div className="text-[8px] uppercase font-bold text-gray-500 mb-1">{n.l}{n.limit && ' ≤'}</div>
+                              <div className={`text-xs font-mono mb-1 ${over ? 'text-rose-400' : 'text-white'}`}>{val.toFixed(n.unit === 'g' ? 0 : n.target < 100 ? 1 : 0)}<span className="text-gray-600"> / {n.target}{n.unit}</span></div>
+                              <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
+                                  <div className={`h-full ${over ? 'bg-rose-500' : n.limit ? 'bg-gray-500' : 'bg-lime-500'}`} style={{width: `${Math.min(100, (val / n.target) * 100)}%`}} />
+                              </div>
+                          </div>
+                      )
+                  })}
+              </div>
+
+              {/* Meal Log */}
+              <div className="space-y-3">
+                  {MEAL_SLOTS.map(s => {
+                      const items = nutrition.meals[s.id];
+                      const kcal = items.reduce((acc, i) => acc + (itemMacros(i, foodDb)?.cal ?? 0) * i.amount, 0);
+                      return (
+                          <div key={s.id} className="bg-[#0A0A0A] p-4 rounded-xl border border-gray-800">
+                              <div className="flex justify-between items-center">
+                                  <button onClick={() => { setFoodSlot(s.id); setModals({...modals, logFood: true}); }} className="text-[10px] uppercase font-bold text-gray-500 hover:text-white tracking-wider flex items-center gap-2">
+                                      {s.l} <Plus size={10} />
+                                  </button>
+                                  <span className="text-xs font-mono text-gray-400">{kcal.toFixed(0)} kcal</span>
+                              </div>
+                              {items.map(i => (
+                                  <div key={i.uid} className="flex justify-between items-center mt-2">
+                                      <button onClick={() => { setFoodSlot(s.id); setModals({...modals, logFood: true}); }} className="text-xs text-gray-300 text-left truncate flex items-center gap-2">
+                                          {i.id.startsWith('rcp_') && <ChefHat size={12} className="text-emerald-500" />}{i.name}
+                                      </button>
+                                      <div className="flex items-center gap-3 shrink-0">
+                                          <span className="text-xs font-mono text-gray-500">{i.amount}g</span>
+                                          <button onClick={() => setNutrition(p => ({...p, meals: {...p.meals, [s.id]: p.meals[s.id].filter(x => x.uid !== i.uid)}}))} className="text-gray-600 hover:text-rose-400"><X size={12} /></button>
+                                      </div>
+                                  </div>
+                              ))}
+                          </div>
+                      )
+                  })}
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
                   <button onClick={() => setModals({...modals, logFood: true})} className="p-4 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
                       <PenTool size={14} /> Log Food
                   </button>
                   <button onClick={() => setModals({...modals, compose: true})} className="p-4 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
                       <Calculator size={14} /> Compose
                   </button>
-              </div>
-          </div>
-      )
-  };
-
-  const InsightsPanel = () => {
-      const corr = historicalInsights?.correlations || { screenVsSleep: 0, stepsVsEfficiency: 0 };
-      const getCorrColor = (v: number) => Math.abs(v) > 0.5 ? (v > 0 ? 'text-emerald-400' : 'text-rose-400') : 'text-gray-400';
-      const getCorrText = (v: number) => Math.abs(v) > 0.5 ? (v > 0 ? 'Strong Positive' : 'Strong Negative') : 'Insignificant';
-
-      return (
-          <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-              <div className="glass-panel p-6 rounded-3xl border border-indigo-900/30">
-                  <SectionHeader icon={Scan} title="Correlation Matrix" color="text-indigo-400" />
-                  <p className="text-xs text-gray-500 mb-6 font-mono leading-relaxed">
-                      Analyzing {Object.keys(history).length} days of local biometric data to find hidden variables affecting system performance.
-                  </p>
-
-                  <div className="space-y-3">
-                      <div className="bg-[#050505] p-4 rounded-xl border border-gray-800 flex justify-between items-center">
-                          <div>
-                              <div className="text-[10px] text-gray-500 uppercase font-bold">Screen Time vs Sleep Quality</div>
-                              <div className={`text-sm font-bold ${getCorrColor(corr.screenVsSleep)}`}>{getCorrText(corr.screenVsSleep)}</div>
-                          </div>
-                          <div className="text-xl font-mono text-gray-600">{corr.screenVsSleep.toFixed(2)}</div>
-                      </div>
-                      
-                      <div className="bg-[#050505] p-4 rounded-xl border border-gray-800 flex justify-between items-center">
-                          <div>
-                              <div className="text-[10px] text-gray-500 uppercase font-bold">Activity vs Sleep Efficiency</div>
-                              <div className={`text-sm font-bold ${getCorrColor(corr.stepsVsEfficiency)}`}>{getCorrText(corr.stepsVsEfficiency)}</div>
-                          </div>
-                          <div className="text-xl font-mono text-gray-600">{corr.stepsVsEfficiency.toFixed(2)}</div>
-                      </div>
-                  </div>
-              </div>
-              
-              <div className="p-6 rounded-3xl bg-gray-900/30 border border-gray-800 flex flex-col items-center justify-center text-center">
-                  <Database size={32} className="text-gray-600 mb-4" />
-                  <div className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-1">Local Encrypted Vault</div>
-                  <div className="text-[10px] text-gray-600">Stores 9 months of biometric hashes locally.</div>
+                  <button onClick={() => setModals({...modals, foods: true})} className="p-4 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
+                      <Database size={14} /> Foods
+                  </button>
               </div>
           </div>
       )
@@ -628,13 +760,39 @@ export default function MetrixOS() {
         
         {/* TOP BAR */}
         <div className="h-16 px-6 md:px-8 flex items-end justify-between text-[10px] text-gray-500 bg-[#050505]/80 backdrop-blur-xl z-30 pb-4 border-b border-white/5 shrink-0">
-           <span className="font-mono tracking-widest uppercase hidden md:block">{date} • METRIX_OS v2.2 [OFFLINE]</span>
-           <span className="font-mono tracking-widest uppercase md:hidden">{date}</span>
+           <div className="flex items-center gap-2">
+             <button onClick={() => setDate(d => shiftDate(d, -1))} className="text-gray-500 hover:text-white transition-colors"><ChevronLeft size={14} /></button>
+             <input type="date" max={todayStr()} value={date} onChange={e => e.target.value && setDate(e.target.value)} className="bg-transparent font-mono tracking-widest uppercase text-gray-400 focus:outline-none [color-scheme:dark]" />
+             <button onClick={() => setDate(d => shiftDate(d, 1))} disabled={date >= todayStr()} className="text-gray-500 hover:text-white transition-colors disabled:opacity-20"><ChevronRight size={14} /></button>
+             {date !== todayStr() && <button onClick={() => setDate(todayStr())} className="font-bold tracking-widest uppercase text-indigo-400 hover:text-indigo-300">Today</button>}
+             <span className="font-mono tracking-widest uppercase hidden md:block">• METRIX_OS v2.2 [OFFLINE]</span>
+           </div>
            <div className="flex items-center gap-4">
              <div className="flex items-center gap-2">
-               <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-               <span className="tracking-widest font-bold text-emerald-500/50">LOCAL</span>
+               <div className={`w-2 h-2 rounded-full ${demo.enabled ? 'bg-amber-500' : 'bg-emerald-500'} animate-pulse`} />
+               <span className={`tracking-widest font-bold ${demo.enabled ? 'text-amber-500/70' : 'text-emerald-500/50'}`}>{demo.enabled ? 'DEMO' : 'LOCAL'}</span>
              </div>
+             {loadFailed && (
+               <div title="Stored data could not be read, so nothing is saved. Lock and unlock to try again." className="flex items-center gap-1 text-rose-400 font-bold tracking-widest">
+                 <AlertTriangle size={12} /> LOAD FAILED
+               </div>
+             )}
+             {storage.unreadable.length > 0 && (
+               <div title={`Unreadable records skipped: ${storage.unreadable.join(', ')}`} className="flex items-center gap-1 text-amber-400 font-bold tracking-widest">
+                 <AlertTriangle size={12} /> {storage.unreadable.length} SKIPPED
+               </div>
+             )}
+             {unsaved.length > 0 && (
+               <div title={`Not saved: ${unsaved.join(', ')}`} className="flex items-center gap-1 text-rose-400 font-bold tracking-widest">
+                 <AlertTriangle size={12} /> SAVE FAILED
+               </div>
+             )}
+             <button onClick={onLock} title="Lock vault" className="text-gray-400 hover:text-white transition-colors bg-gray-900/50 p-2 rounded-full border border-gray-800">
+               <Lock size={16} />
+             </button>
+             <button onClick={() => setModals(m => ({...m, scoring: true}))} className="text-gray-400 hover:text-white transition-colors bg-gray-900/50 p-2 rounded-full border border-gray-800">
+               <SlidersHorizontal size={16} />
+             </button>
              <button onClick={() => setModals(m => ({...m, profile: true}))} className="text-gray-400 hover:text-white transition-colors bg-gray-900/50 p-2 rounded-full border border-gray-800">
                <Settings size={16} />
              </button>
@@ -643,14 +801,13 @@ export default function MetrixOS() {
 
         {/* CONTENT */}
         <div className="flex-1 overflow-y-auto p-4 md:p-8 scrollbar-hide relative z-10 pb-32">
-          {activeTab === 'dashboard' && <Dashboard />}
-          {activeTab === 'nutrition' && <NutritionPanel />}
-          {activeTab === 'sleep' && <SleepPanel />} 
-          {activeTab === 'insights' && <InsightsPanel />}
-          {/* Placeholder for others */}
-          {(activeTab === 'training' || activeTab === 'focus') && (
-              <div className="flex items-center justify-center h-64 text-gray-600 font-mono text-xs uppercase tracking-widest">Module Active - See Dashboard for Stats</div>
-          )}
+          <ReminderBanner items={banners} onDismiss={id => setBanners(b => b.filter(n => n.id !== id))} />
+          {activeTab === 'dashboard' && <div className="space-y-6"><Dashboard /><CoachPanel context={coachContext} provider={coachProvider} /></div>}
+          {activeTab === 'training' && <div className="space-y-6"><BodyPanel body={body} onChange={updateBody} weighIns={bodyLog.weighIns} energy={bodyLog.energy} date={date} range={chartRange} onRangeChange={setChartRange} /><TrainingPanel training={training} onChange={setTraining} log={strengthLog} date={date} onLogRun={() => setModals(m => ({...m, logRun: true}))} range={chartRange} onRangeChange={setChartRange} /></div>}
+          {activeTab === 'nutrition' && <div className="space-y-6"><NutritionPanel /><IntakePanel events={nutrition.intake} onChange={intake => setNutrition(p => ({...p, intake}))} previous={history[shiftDate(date, -1)]?.nutrition.intake || []} bedtime={history[shiftDate(date, 1)]?.sleep.bedtime || sleep.bedtime} live={date === todayStr()} /></div>}
+          {activeTab === 'sleep' && <SleepPanel sleep={sleep} onChange={setSleep} score={analytics.scores.sleep} duration={analytics.raw.sleep} efficiency={analytics.raw.sleepEfficiency} nights={sleepNights} target={scoring.params.sleep.target} range={chartRange} onRangeChange={setChartRange} />}
+          {activeTab === 'insights' && <div className="space-y-6"><ScoreCalendar history={liveHistory} date={todayStr()} /><CorrelationExplorer history={history} /><ReportsView history={history} date={date} /><DemoPanel settings={demo} onApply={switchDataset} onClear={clearDemoData} /><DataVault history={history} meta={vaultMeta} demo={demo.enabled} onRestore={restoreData} onImportHealth={() => setModals(m => ({...m, healthImport: true}))} /><RemindersPanel settings={reminders} status={notifyStatus} onEnableNotifications={() => requestNotifications().then(setNotifyStatus)} onToggle={toggleReminder} onAdd={() => { setEditingReminder(null); setModals(m => ({...m, reminder: true})); }} onEdit={r => { setEditingReminder(r); setModals(m => ({...m, reminder: true})); }} onDelete={deleteReminder} /><VaultSettings config={vault} onChange={onVaultChange} onLock={onLock} /></div>}
+          {activeTab === 'focus' && <FocusPanel mind={mind} onChange={setMind} load={mindLoad} date={date} range={chartRange} onRangeChange={setChartRange} />}
         </div>
 
         {/* DOCK */}
@@ -676,20 +833,118 @@ export default function MetrixOS() {
           })}
         </div>
 
-        {/* PROFILE MODAL (Basic implementation) */}
+        {/* PROFILE MODAL */}
         {modals.profile && (
             <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
-                <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md rounded-3xl p-8 shadow-2xl relative">
+                <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
                     <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">User Profile</h3>
                     <div className="space-y-4">
-                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">Weight (kg)</label><input type="number" className="custom-input" value={userProfile.weight} onChange={e => setUserProfile({...userProfile, weight: Number(e.target.value)})} /></div>
-                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">Height (cm)</label><input type="number" className="custom-input" value={userProfile.height} onChange={e => setUserProfile({...userProfile, height: Number(e.target.value)})} /></div>
+                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">Name</label><input className="custom-input" value={userProfile.name} onChange={e => setUserProfile({...userProfile, name: e.target.value})} /></div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div><label className="text-[10px] text-gray-500 uppercase font-bold">Age</label><input type="number" className="custom-input" value={userProfile.age} onChange={e => setUserProfile({...userProfile, age: Number(e.target.value)})} /></div>
+                            <div><label className="text-[10px] text-gray-500 uppercase font-bold">Sex</label>
+                                <select className="custom-input" value={userProfile.gender} onChange={e => setUserProfile({...userProfile, gender: e.target.value as UserProfile['gender']})}>
+                                    <option value="male">Male</option>
+                                    <option value="female">Female</option>
+                                </select>
+                            </div>
+                            <div><label className="text-[10px] text-gray-500 uppercase font-bold">Weight (kg)</label><input type="number" className="custom-input" value={userProfile.weight} onChange={e => setUserProfile({...userProfile, weight: Number(e.target.value)})} /></div>
+                            <div><label className="text-[10px] text-gray-500 uppercase font-bold">Height (cm)</label><input type="number" className="custom-input" value={userProfile.height} onChange={e => setUserProfile({...userProfile, height: Number(e.target.value)})} /></div>
+                        </div>
+                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">Body Fat (%, optional)</label><input type="number" className="custom-input" value={userProfile.bodyFat ?? ''} onChange={e => setUserProfile({...userProfile, bodyFat: e.target.value === '' ? undefined : Number(e.target.value)})} /></div>
+                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">Activity Level</label>
+                            <select className="custom-input" value={userProfile.activityFactor} onChange={e => setUserProfile({...userProfile, activityFactor: Number(e.target.value)})}>
+                                {ACTIVITY_LEVELS.map(a => <option key={a.v} value={a.v}>{a.l} ×{a.v}</option>)}
+                            </select>
+                        </div>
+                        <div><label className="text-[10px] text-gray-500 uppercase font-bold">BMR Formula</label>
+                            <select className="custom-input" value={userProfile.bmrFormula} onChange={e => setUserProfile({...userProfile, bmrFormula: e.target.value as UserProfile['bmrFormula']})}>
+                                {BMR_FORMULAS.map(f => <option key={f.id} value={f.id}>{f.l}</option>)}
+                            </select>
+                            {userProfile.bmrFormula === 'katch' && userProfile.bodyFat == null && <div className="text-[10px] text-amber-500 mt-1">No body fat set: using Mifflin-St Jeor.</div>}
+                        </div>
+                        <div className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+                            <span className="text-[10px] text-gray-500 uppercase font-bold">BMR</span>
+                            <span className="text-sm font-mono text-white">{analytics.energy.bmr.toFixed(0)} kcal</span>
+                        </div>
                         <button onClick={() => setModals({...modals, profile: false})} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs">Save Profile</button>
                     </div>
                 </div>
             </div>
         )}
 
+        {modals.logFood && (
+            <LogFoodModal
+                meals={nutrition.meals}
+                recipes={recipes}
+                slot={foodSlot}
+                onSlotChange={setFoodSlot}
+                onChange={meals => setNutrition(p => ({...p, meals}))}
+                onClose={() => setModals(m => ({...m, logFood: false}))}
+                parser={mealParser}
+                foods={foodDb}
+                usage={foodUsage(history, date)}
+            />
+        )}
+
+        {modals.logRun && (
+            <LogRunModal
+                onSave={run => setTraining(t => ({...t, cardio: {...t.cardio, runs: [...t.cardio.runs, run]}}))}
+                onClose={() => setModals(m => ({...m, logRun: false}))}
+            />
+        )}
+
+        {modals.scoring && (
+            <ScoringModal
+                settings={scoring}
+                history={history}
+                targets={nutrition.targets}
+                hydrationTarget={nutrition.hydration.target}
+                onApply={next => { applyScoring(next); setModals(m => ({...m, scoring: false})); }}
+                onClose={() => setModals(m => ({...m, scoring: false}))}
+            />
+        )}
+
+        {modals.compose && (
+            <ComposeModal
+                foods={foodDb}
+                recipes={recipes}
+                onSave={r => updateRecipes([...recipes, r])}
+                onDelete={id => updateRecipes(recipes.filter(r => r.id !== id))}
+                onClose={() => setModals(m => ({...m, compose: false}))}
+            />
+        )}
+
+        {modals.goal && (
+            <GoalModal
+                goal={editingGoal}
+                onSave={g => { updateGoals(goals.some(x => x.id === g.id) ? goals.map(x => x.id === g.id ? g : x) : [...goals, g]); setModals(m => ({...m, goal: false})); }}
+                onClose={() => setModals(m => ({...m, goal: false}))}
+            />
+        )}
+        {modals.reminder && (
+            <ReminderModal
+                reminder={editingReminder}
+                onSave={r => { saveReminder(r); setModals(m => ({...m, reminder: false})); }}
+                onClose={() => setModals(m => ({...m, reminder: false}))}
+            />
+        )}
+        {modals.healthImport && (
+            <HealthImportModal
+                history={history}
+                onImport={importHealth}
+                onClose={() => setModals(m => ({...m, healthImport: false}))}
+            />
+        )}
+        {modals.foods && (
+            <FoodDatabaseModal
+                foods={customFoods}
+                builtIn={INGREDIENTS_DB}
+                onChange={updateFoods}
+                onClose={() => setModals(m => ({...m, foods: false}))}
+            />
+        )}
+
       </div>
     </div>
   );
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, AlertCircle, BellOff, X } from 'lucide-react';
+import { Alert, Severity, SNOOZE_DAYS } from '../lib/anomaly';
+
+interface AlertsFeedProps {
+  alerts: Alert[];
+  onDismiss: (id: string) => void;
+  onSnooze: (id: string) => void;
+}
+
+const STYLES: Record<Severity, { icon: any; text: string; border: string }> = {
+  critical: { icon: AlertTriangle, text: 'text-rose-400', border: 'border-rose-900/40 bg-rose-950/10' },
+  warning: { icon: AlertTriangle, text: 'text-amber-400', border: 'border-amber-900/40 bg-amber-950/10' },
+  info: { icon: AlertCircle, text: 'text-sky-400', border: 'border-gray-800 bg-black/40' },
+};
+
+export default function AlertsFeed({ alerts, onDismiss, onSnooze }: AlertsFeedProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {alerts.map(a => {
+        const s = STYLES[a.severity];
+        const Icon = s.icon;
+        return (
+          <div key={a.id} className={`flex items-start gap-3 p-4 rounded-2xl border ${s.border}`}>
+            <Icon size={16} className={`${s.text} shrink-0 mt-0.5`} />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`text-[9px] font-bold uppercase tracking-widest ${s.text}`}>{a.severity}</span>
+                <span className="text-[9px] font-mono text-gray-600">since {a.since}</span>
+              </div>
+              <div className="text-sm font-bold text-white">{a.title}</div>
+              <div className="text-[10px] font-mono text-gray-500">{a.detail}</div>
+            </div>
+            <button onClick={() => onSnooze(a.id)} title={`Snooze ${SNOOZE_DAYS} days`} className="text-gray-600 hover:text-white"><BellOff size={14} /></button>
+            <button onClick={() => onDismiss(a.id)} title="Dismiss" className="text-gray-600 hover:text-white"><X size={14} /></button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { TargetBand, daysBetween, niceScale, xFraction, yFraction } from '../lib/chart';
+import ChartFrame from './ChartFrame';
+
+export interface BarDatum {
+  date: string;
+  values: number[]; // one per series, stacked bottom-up
+}
+
+export interface BarChartProps {
+  data: BarDatum[];
+  series: { label: string; color: string }[];
+  bands?: TargetBand[];
+  from: string;
+  to: string;
+  height?: number;
+  format?: (v: number) => string;
+}
+
+const fmt = (v: number) => `${Math.round(v)}`;
+
+export default function BarChart({ data, series, bands = [], from, to, height = 160, format = fmt }: BarChartProps) {
+  const rows = data.filter(d => d.date >= from && d.date <= to);
+  const totals = rows.map(d => d.values.reduce((a, b) => a + Math.max(0, b), 0));
+  const scale = niceScale(0, Math.max(1, ...totals, ...bands.flatMap(b => [b.from, b.to])));
+  const byDate = new Map(rows.map((d, i) => [d.date, { ...d, total: totals[i] }]));
+  const slot = 100 / (daysBetween(from, to) + 1);
+
+  if (rows.length === 0) {
+    return <div className="flex items-center justify-center text-xs text-gray-600" style={{ height }}>No data in range</div>;
+  }
+
+  return (
+    <div>
+      <ChartFrame
+        from={from}
+        to={to}
+        scale={scale}
+        bands={bands}
+        format={format}
+        height={height}
+        slots
+        dates={rows.map(d => d.date)}
+        tooltip={d => {
+          const row = byDate.get(d)!;
+          return (
+            <>
+              {series.map((s, i) => (
+                <div key={s.label} className="text-[10px] font-mono flex items-center gap-1.5">
+                  <span className="w-1.5 h-1.5 rounded-sm" style={{ background: s.color }} />
+                  <span className="text-gray-400">{s.label}</span>
+                  <span className="text-white font-bold ml-auto pl-2">{format(row.values[i] ?? 0)}</span>
+                </div>
+              ))}
+              {series.length > 1 && <div className="text-[10px] font-mono text-gray-300 border-t border-gray-800 mt-1 pt-1 text-right">{format(row.total)}</div>}
+            </>
+          );
+        }}
+      >
+        {rows.map((d, r) => {
+          const h = (1 - yFraction(totals[r], scale)) * 100;
+          return (
+            <div key={d.date} className="absolute bottom-0 flex flex-col-reverse rounded-t-sm overflow-hidden pointer-events-none" style={{ left: `${xFraction(d.date, from, to, true) * 100}%`, width: `${slot * 0.7}%`, transform: 'translateX(-50%)', height: `${h}%` }}>
+              {series.map((s, i) => (
+                <div key={s.label} style={{ height: `${totals[r] > 0 ? (Math.max(0, d.values[i] ?? 0) / totals[r]) * 100 : 0}%`, background: s.color }} />
+              ))}
+            </div>
+          );
+        })}
+      </ChartFrame>
+      {series.length > 1 && (
+        <div className="flex gap-3 mt-2 ml-10">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1 text-[9px] uppercase font-bold text-gray-500">
+              <span className="w-2 h-2 rounded-sm" style={{ background: s.color }} />{s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
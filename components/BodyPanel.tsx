@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { Scale } from 'lucide-react';
+import { BodyEntry } from '../types';
+import SectionHeader from './SectionHeader';
+import { ChartRange, inRange, rangeStart } from '../lib/chart';
+import { DatedValue, estimateTdee, ewma } from '../lib/body';
+import LineChart from './LineChart';
+import RangeSelector from './RangeSelector';
+
+interface BodyPanelProps {
+  body: BodyEntry;
+  onChange: (body: BodyEntry) => void;
+  // Weigh-ins and modelled energy per date, oldest first
+  weighIns: DatedValue[];
+  energy: { date: string; intake: number; tdee: number }[];
+  date: string; // active date, the right edge of the chart
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+}
+
+export default function BodyPanel({ body, onChange, weighIns, energy, date, range, onRangeChange }: BodyPanelProps) {
+  const trend = useMemo(() => ewma(weighIns), [weighIns]);
+  const estimate = useMemo(() => estimateTdee(trend, energy), [trend, energy]);
+
+  const latest = trend[trend.length - 1];
+  const weekAgo = trend.length > 7 ? trend[trend.length - 8] : null;
+
+  const setField = (k: keyof BodyEntry, v: string) => onChange({ ...body, [k]: v === '' ? undefined : Number(v) });
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-teal-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Scale} title="Body Composition" color="text-teal-400" right={
+        latest && <span className="text-xs font-mono text-gray-400">{latest.value.toFixed(1)} kg trend{weekAgo && <span className={latest.value - weekAgo.value <= 0 ? ' text-emerald-500' : ' text-amber-500'}> {latest.value - weekAgo.value > 0 ? '+' : ''}{(latest.value - weekAgo.value).toFixed(2)}/wk</span>}</span>
+      } />
+
+      <div className="grid grid-cols-3 gap-2 mb-6">
+        {([['weight', 'Weight (kg)'], ['waist', 'Waist (cm)'], ['bodyFat', 'Body Fat (%)']] as const).map(([k, l]) => (
+          <div key={k}>
+            <label className="text-[10px] text-gray-500 uppercase font-bold">{l}</label>
+            <input type="number" step="0.1" className="custom-input" value={body[k] ?? ''} onChange={e => setField(k, e.target.value)} />
+          </div>
+        ))}
+      </div>
+
+      {weighIns.length > 1 && (
+        <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4 mb-6">
+          <div className="flex justify-between items-center mb-3">
+            <span className="text-[10px] text-gray-500 font-bold uppercase">Weight • EWMA Trend</span>
+            <RangeSelector value={range} onChange={onRangeChange} />
+          </div>
+          <LineChart
+            series={[
+              { id: 'raw', label: 'Weigh-in', color: '#4b5563', points: inRange(weighIns, date, range) },
+              { id: 'trend', label: 'Trend', color: '#14b8a6', points: inRange(trend, date, range) },
+            ]}
+            from={rangeStart(date, range, weighIns[0].date)}
+            to={date}
+            format={v => v.toFixed(1)}
+          />
+        </div>
+      )}
+
+      {/* Expected vs Actual */}
+      {estimate ? (
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { l: 'Expected Δ', v: `${estimate.expectedChange > 0 ? '+' : ''}${estimate.expectedChange.toFixed(1)} kg` },
+            { l: 'Actual Δ', v: `${estimate.actualChange > 0 ? '+' : ''}${estimate.actualChange.toFixed(1)} kg` },
+            { l: 'Model TDEE', v: `${estimate.modelTdee.toFixed(0)} kcal` },
+            { l: 'Observed TDEE', v: `${estimate.observedTdee.toFixed(0)} kcal` },
+          ].map(m => (
+            <div key={m.l} className="bg-black/40 p-3 rounded-xl border border-gray-800">
+              <div className="text-[9px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+              <div className="text-sm font-mono text-white">{m.v}</div>
+            </div>
+          ))}
+          <div className="col-span-2 text-[10px] text-gray-600 font-mono">Over {estimate.days.toFixed(0)} days of logged intake.</div>
+        </div>
+      ) : (
+        <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center">Log weight and food for 2+ weeks to estimate true TDEE</div>
+      )}
+    </div>
+  );
+}
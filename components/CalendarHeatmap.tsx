@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { calendarWeeks } from '../lib/chart';
+
+export interface CalendarHeatmapProps {
+  values: Record<string, number>; // date -> value on a 0-100 scale
+  end: string; // last day shown, usually today
+  weeks?: number;
+  format?: (v: number) => string;
+  color?: string; // hex
+}
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// GitHub-style grid of days, one column per week, shaded by value
+export default function CalendarHeatmap({ values, end, weeks = 26, format = v => `${Math.round(v)}`, color = '#10b981' }: CalendarHeatmapProps) {
+  const [hover, setHover] = useState<string | null>(null);
+  const cols = calendarWeeks(end, weeks);
+
+  const shade = (v: number) => {
+    const a = Math.round((0.15 + 0.85 * Math.max(0, Math.min(100, v)) / 100) * 255);
+    return `${color}${a.toString(16).padStart(2, '0')}`;
+  };
+
+  return (
+    <div>
+      <div className="flex gap-[3px] overflow-x-auto">
+        <div className="flex flex-col gap-[3px] mr-1 pt-4">
+          {DAY_LABELS.map((l, i) => <div key={i} className="h-3 text-[8px] leading-3 text-gray-600 font-mono">{l}</div>)}
+        </div>
+        {cols.map((col, w) => {
+          const month = col.find(d => d.endsWith('-01') || (w === 0 && d === col[0]));
+          return (
+            <div key={col[0]} className="flex flex-col gap-[3px]">
+              <div className="h-3 mb-1 text-[8px] leading-3 text-gray-600 font-mono whitespace-nowrap">{month ? MONTHS[+month.slice(5, 7) - 1] : ''}</div>
+              {col.map(d => {
+                const v = values[d];
+                const future = d > end;
+                return (
+                  <div
+                    key={d}
+                    onMouseEnter={() => setHover(d)}
+                    onMouseLeave={() => setHover(null)}
+                    className={`w-3 h-3 rounded-sm ${future ? '' : v === undefined ? 'bg-gray-900' : ''} ${hover === d ? 'ring-1 ring-white' : ''}`}
+                    style={v !== undefined && !future ? { background: shade(v) } : undefined}
+                  />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between items-center mt-3 h-4">
+        <span className="text-[10px] font-mono text-gray-400">
+          {hover ? `${hover} · ${values[hover] !== undefined ? format(values[hover]) : 'no data'}` : ''}
+        </span>
+        <span className="flex items-center gap-1 text-[9px] text-gray-600 font-mono">
+          Less
+          {[0, 25, 50, 75, 100].map(v => <span key={v} className="w-2.5 h-2.5 rounded-sm" style={{ background: shade(v) }} />)}
+          More
+        </span>
+      </div>
+    </div>
+  );
+}
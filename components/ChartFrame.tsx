@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { TargetBand, daysBetween, niceScale, xFraction, yFraction } from '../lib/chart';
+import { shiftDate } from '../lib/day';
+
+export interface ChartFrameProps {
+  from: string; // first day on the x axis
+  to: string; // last day on the x axis
+  scale: ReturnType<typeof niceScale>;
+  bands?: TargetBand[];
+  format: (v: number) => string;
+  height: number; // px
+  slots?: boolean; // bar layout, see xFraction
+  dates: string[]; // hoverable dates, oldest first
+  markers?: (date: string) => { value: number; color: string }[];
+  tooltip: (date: string) => React.ReactNode;
+  children: React.ReactNode; // plot layer, drawn over the grid
+}
+
+const X_TICKS = 4;
+
+// Axes, grid, target bands and hover tooltip shared by the time-series charts
+export default function ChartFrame({ from, to, scale, bands = [], format, height, slots = false, dates, markers, tooltip, children }: ChartFrameProps) {
+  const [hover, setHover] = useState<string | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const span = daysBetween(from, to);
+  const xTicks = [...new Set(Array.from({ length: X_TICKS + 1 }, (_, i) => shiftDate(from, Math.round((i * span) / X_TICKS))))];
+  const pct = (f: number) => `${Math.max(0, Math.min(1, f)) * 100}%`;
+
+  const onMove = (e: { clientX: number }) => {
+    const rect = plotRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || dates.length === 0) return;
+    const f = (e.clientX - rect.left) / rect.width;
+    let best = dates[0];
+    dates.forEach(d => {
+      if (Math.abs(xFraction(d, from, to, slots) - f) < Math.abs(xFraction(best, from, to, slots) - f)) best = d;
+    });
+    setHover(best);
+  };
+
+  const hx = hover ? xFraction(hover, from, to, slots) : 0;
+
+  return (
+    <div className="relative select-none" style={{ height }}>
+      {/* Y axis */}
+      <div className="absolute left-0 top-0 bottom-5 w-10">
+        {scale.ticks.map(t => (
+          <div key={t} className="absolute right-2 -translate-y-1/2 text-[9px] font-mono text-gray-600" style={{ top: pct(yFraction(t, scale)) }}>{format(t)}</div>
+        ))}
+      </div>
+
+      <div ref={plotRef} className="absolute left-10 right-0 top-0 bottom-5" onMouseMove={onMove} onMouseLeave={() => setHover(null)}>
+        {scale.ticks.map(t => (
+          <div key={t} className={`absolute inset-x-0 border-t ${t === 0 && scale.min < 0 ? 'border-gray-600' : 'border-gray-800/60'}`} style={{ top: pct(yFraction(t, scale)) }} />
+        ))}
+        {bands.map((b, i) => {
+          const top = yFraction(Math.max(b.from, b.to), scale);
+          const bottom = yFraction(Math.min(b.from, b.to), scale);
+          return (
+            <div key={i} className="absolute inset-x-0 border-y border-dashed" style={{ top: pct(top), height: pct(bottom - top), background: `${b.color}1a`, borderColor: `${b.color}55` }}>
+              {b.label && <span className="absolute right-1 top-0 text-[8px] font-bold uppercase" style={{ color: b.color }}>{b.label}</span>}
+            </div>
+          );
+        })}
+
+        {children}
+
+        {hover && (
+          <>
+            <div className="absolute top-0 bottom-0 border-l border-gray-500/60 pointer-events-none" style={{ left: pct(hx) }} />
+            {markers?.(hover).map((m, i) => (
+              <div key={i} className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full ring-2 ring-black pointer-events-none" style={{ left: pct(hx), top: pct(yFraction(m.value, scale)), background: m.color }} />
+            ))}
+            <div className={`absolute top-1 z-10 pointer-events-none bg-black/90 border border-gray-700 rounded-lg px-2 py-1.5 whitespace-nowrap ${hx > 0.6 ? '-translate-x-full -ml-2' : 'ml-2'}`} style={{ left: pct(hx) }}>
+              <div className="text-[9px] font-mono text-gray-500 mb-0.5">{hover}</div>
+              {tooltip(hover)}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* X axis */}
+      <div className="absolute left-10 right-0 bottom-0 h-4">
+        {xTicks.map((d, i) => (
+          <div key={d} className={`absolute text-[9px] font-mono text-gray-600 ${i === 0 ? '' : i === xTicks.length - 1 ? '-translate-x-full' : '-translate-x-1/2'}`} style={{ left: pct(xFraction(d, from, to, slots)) }}>{d.slice(5)}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, Loader2, RotateCcw, Send } from 'lucide-react';
+import SectionHeader from './SectionHeader';
+import { CoachContext } from '../lib/coach';
+import { CoachProvider, askCoach } from '../services/coach';
+import { loadMeta, saveMeta } from '../services/storage';
+
+interface CoachPanelProps {
+  context: CoachContext;
+  provider: CoachProvider;
+}
+
+// Last generated briefing, kept so reopening the dashboard does not re-query
+interface Briefing {
+  date: string;
+  text: string;
+  provider: string;
+}
+
+export default function CoachPanel({ context, provider }: CoachPanelProps) {
+  const [briefing, setBriefing] = useState<Briefing | null>(null);
+  const [thread, setThread] = useState<{ q: string; a: string; provider: string }[]>([]);
+  const [question, setQuestion] = useState('');
+  const [busy, setBusy] = useState<'briefing' | 'question' | null>(null);
+
+  useEffect(() => {
+    // The briefing is only a cache: if it cannot be read or written, it is generated again
+    loadMeta<Briefing>('briefing')
+      .then(b => setBriefing(b && b.date === context.date ? b : null))
+      .catch(err => console.error('MetrixOS: failed to load briefing', err));
+  }, [context.date]);
+
+  const generateBriefing = async () => {
+    setBusy('briefing');
+    const res = await askCoach(provider, { kind: 'briefing', context });
+    const next = { date: context.date, text: res.text, provider: res.provider.label };
+    setBriefing(next);
+    saveMeta('briefing', next).catch(err => console.error('MetrixOS: failed to save briefing', err));
+    setBusy(null);
+  };
+
+  const ask = async () => {
+    const q = question.trim();
+    if (!q || busy) return;
+    setBusy('question');
+    setQuestion('');
+    const res = await askCoach(provider, { kind: 'question', context, question: q });
+    setThread(t => [...t, { q, a: res.text, provider: res.provider.label }]);
+    setBusy(null);
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-fuchsia-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Sparkles} title="Coach" color="text-fuchsia-400" right={
+        <span className={`text-[10px] font-mono ${provider.online ? 'text-fuchsia-300' : 'text-gray-500'}`}>{provider.online ? provider.label : 'OFFLINE • NO API KEY'}</span>
+      } />
+
+      {/* Daily Briefing */}
+      <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4 mb-4">
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-[10px] text-gray-500 uppercase font-bold">Daily Briefing</span>
+          {briefing && <button onClick={generateBriefing} disabled={!!busy} className="text-gray-600 hover:text-white disabled:opacity-30"><RotateCcw size={12} /></button>}
+        </div>
+        {busy === 'briefing' ? (
+          <div className="flex items-center gap-2 text-xs text-gray-500 font-mono"><Loader2 size={14} className="animate-spin" /> Analysing</div>
+        ) : briefing ? (
+          <>
+            <p className="text-xs text-gray-300 leading-relaxed whitespace-pre-line">{briefing.text}</p>
+            <div className="text-[9px] font-mono text-gray-600 mt-2 uppercase">via {briefing.provider}</div>
+          </>
+        ) : (
+          <button onClick={generateBriefing} disabled={!!busy} className="w-full py-3 bg-fuchsia-500/10 border border-fuchsia-500/30 text-fuchsia-300 text-[10px] font-bold uppercase tracking-widest rounded-xl">Generate Briefing</button>
+        )}
+      </div>
+
+      {/* Q&A */}
+      <div className="space-y-3 mb-3">
+        {thread.map((t, i) => (
+          <div key={i} className="space-y-1">
+            <div className="text-xs text-white font-bold">{t.q}</div>
+            <p className="text-xs text-gray-400 leading-relaxed whitespace-pre-line">{t.a}</p>
+            <div className="text-[9px] font-mono text-gray-600 uppercase">via {t.provider}</div>
+          </div>
+        ))}
+        {busy === 'question' && <div className="flex items-center gap-2 text-xs text-gray-500 font-mono"><Loader2 size={14} className="animate-spin" /> Thinking</div>}
+      </div>
+      <div className="flex gap-2">
+        <input
+          className="custom-input flex-1"
+          placeholder="Why was my score low this week?"
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && ask()}
+        />
+        <button onClick={ask} disabled={!question.trim() || !!busy} className="px-4 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-white disabled:opacity-30"><Send size={14} /></button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ChefHat } from 'lucide-react';
+import { Ingredient, Recipe, RecipeComponent, Macros } from '../types';
+import { createId } from '../lib/id';
+import { NUTRIENT_KEYS, addNutrients, emptyTotals } from '../lib/foods';
+
+interface ComposeModalProps {
+  foods: Ingredient[];
+  recipes: Recipe[];
+  onSave: (recipe: Recipe) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Sum absolute nutrients of the components, then normalise by total mass.
+// An extra nutrient is kept only if every component reports it.
+const composeMacros = (components: RecipeComponent[], foods: Ingredient[]) => {
+  const totals = emptyTotals();
+  const used: Ingredient[] = [];
+  let grams = 0;
+  components.forEach(comp => {
+    const ing = foods.find(i => i.id === comp.id);
+    if (!ing) return;
+    grams += comp.amount;
+    used.push(ing);
+    addNutrients(totals, ing.macros, comp.amount);
+  });
+  const perGram: Macros = grams > 0
+    ? { cal: totals.cal / grams, p: totals.p / grams, c: totals.c / grams, f: totals.f / grams }
+    : { cal: 0, p: 0, c: 0, f: 0 };
+  if (grams > 0) NUTRIENT_KEYS.forEach(k => { if (used.every(i => i.macros[k] !== undefined)) perGram[k] = totals[k] / grams; });
+  return { totals, grams, perGram };
+};
+
+export default function ComposeModal({ foods, recipes, onSave, onDelete, onClose }: ComposeModalProps) {
+  const [name, setName] = useState('');
+  const [components, setComponents] = useState<RecipeComponent[]>([]);
+  const [pick, setPick] = useState(foods[0].id);
+  const [grams, setGrams] = useState(100);
+
+  const { totals, grams: totalGrams, perGram } = composeMacros(components, foods);
+  const canSave = name.trim().length > 0 && totalGrams > 0;
+
+  const addComponent = () => {
+    if (grams <= 0) return;
+    const existing = components.find(c => c.id === pick);
+    setComponents(existing
+      ? components.map(c => c.id === pick ? { ...c, amount: c.amount + grams } : c)
+      : [...components, { id: pick, amount: grams }]);
+  };
+
+  const save = () => {
+    if (!canSave) return;
+    onSave({ id: `rcp_${createId()}`, name: name.trim(), ingredients: components, totalGrams, macros: perGram });
+    setName('');
+    setComponents([]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">Recipe Composer</h3>
+
+        <div className="space-y-4">
+          <div><label className="text-[10px] text-gray-500 uppercase font-bold">Dish Name</label><input className="custom-input" value={name} onChange={e => setName(e.target.value)} /></div>
+
+          <div className="flex gap-2">
+            <select className="custom-input flex-1" value={pick} onChange={e => setPick(e.target.value)}>
+              {foods.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+            <input type="number" min={1} className="custom-input !w-24 text-right" value={grams} onChange={e => setGrams(Number(e.target.value))} />
+            <button onClick={addComponent} className="px-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-white"><Plus size={14} /></button>
+          </div>
+
+          <div className="space-y-2">
+            {components.map(comp => (
+              <div key={comp.id} className="flex items-center justify-between bg-black/40 p-3 rounded-xl border border-gray-800">
+                <span className="text-xs text-gray-300">{foods.find(i => i.id === comp.id)?.name}</span>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-mono text-gray-500">{comp.amount}g</span>
+                  <button onClick={() => setComponents(components.filter(c => c.id !== comp.id))} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-4 gap-2">
+            {[
+              { l: 'kcal', v: totals.cal },
+              { l: 'P', v: totals.p },
+              { l: 'C', v: totals.c },
+              { l: 'F', v: totals.f },
+            ].map(m => (
+              <div key={m.l} className="bg-black/40 p-2 rounded-lg border border-gray-800">
+                <div className="text-[8px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+                <div className="text-xs font-mono text-white text-right">{m.v.toFixed(0)}</div>
+              </div>
+            ))}
+          </div>
+          <div className="text-[10px] text-gray-600 font-mono">{totalGrams}g total • {(perGram.cal * 100).toFixed(0)} kcal / 100g</div>
+
+          <button onClick={save} disabled={!canSave} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-30">Save Dish</button>
+
+          {recipes.length > 0 && (
+            <div className="pt-4 border-t border-gray-800/50 space-y-2">
+              <div className="text-[10px] text-gray-500 uppercase font-bold">Saved Dishes</div>
+              {recipes.map(r => (
+                <div key={r.id} className="flex items-center justify-between p-2">
+                  <div className="flex items-center gap-2">
+                    <ChefHat size={12} className="text-emerald-500" />
+                    <span className="text-xs text-gray-300">{r.name}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-[10px] font-mono text-gray-600">{(r.macros.cal * 100).toFixed(0)} kcal / 100g</span>
+                    <button onClick={() => onDelete(r.id)} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
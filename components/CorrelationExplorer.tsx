@@ -0,0 +1,266 @@
+import React, { useState, useMemo } from 'react';
+import { Scan, X } from 'lucide-react';
+import { DayHistory } from '../types';
+import SectionHeader from './SectionHeader';
+import { METRICS, Metric, getMetric, pairSeries } from '../lib/metrics';
+import { CorrelationTest, linearRegression, testCorrelation } from '../lib/stats';
+
+interface CorrelationExplorerProps {
+  history: DayHistory;
+}
+
+const WINDOWS = [
+  { id: 30, l: '30D' },
+  { id: 90, l: '90D' },
+  { id: 180, l: '180D' },
+  { id: 0, l: 'ALL' },
+];
+const LAGS = [0, 1, 2, 3, 7];
+const LAG_PROFILE = [0, 1, 2, 3, 4, 5, 6, 7];
+const DEFAULT_METRICS = ['calories', 'protein', 'hydration', 'steps', 'strengthVol', 'study', 'screen', 'sleep', 'efficiency', 'score'];
+const ALPHA = 0.05;
+// Intake timing on day d against the night after it, which is stored on day d+1
+const INTAKE_FACTORS = ['caffeine', 'caffeineAtBed', 'alcohol', 'lastMeal', 'eatingWindow', 'fast'];
+const NIGHT_OUTCOMES = ['sleep', 'efficiency'];
+const MIN_PAIRS = 5;
+
+const cellStyle = (t: CorrelationTest) => {
+  const hue = t.r >= 0 ? '16, 185, 129' : '244, 63, 94';
+  const alpha = Math.min(1, Math.abs(t.r)) * (t.p < ALPHA ? 0.8 : 0.25);
+  return { backgroundColor: `rgba(${hue}, ${alpha})` };
+};
+
+const formatP = (p: number) => p < 0.001 ? '<0.001' : p.toFixed(3);
+const stars = (p: number) => p < 0.01 ? '**' : p < ALPHA ? '*' : '';
+
+export default function CorrelationExplorer({ history }: CorrelationExplorerProps) {
+  const [windowDays, setWindowDays] = useState(90);
+  const [lag, setLag] = useState(1);
+  const [selected, setSelected] = useState<string[]>(DEFAULT_METRICS);
+  const [cell, setCell] = useState<{ x: string; y: string } | null>(null);
+
+  const dates = useMemo(() => {
+    const all = Object.keys(history).sort();
+    return windowDays ? all.slice(-windowDays) : all;
+  }, [history, windowDays]);
+
+  const metrics = METRICS.filter(m => selected.includes(m.id));
+
+  // Row metric on day d vs column metric on day d + lag
+  const matrix = useMemo(() => metrics.map(x => metrics.map(y => {
+    const { xs, ys } = pairSeries(history, dates, x, y, lag);
+    return testCorrelation(xs, ys);
+  })), [history, dates, lag, selected]);
+
+  const nightEffects = useMemo(() => INTAKE_FACTORS.map(getMetric).map(x => ({
+    x,
+    tests: NIGHT_OUTCOMES.map(getMetric).map(y => {
+      const { xs, ys } = pairSeries(history, dates, x, y, 1);
+      return { y, t: testCorrelation(xs, ys) };
+    }),
+  })).filter(row => row.tests.some(c => c.t.n >= MIN_PAIRS)), [history, dates]);
+
+  const toggleMetric = (id: string) => setSelected(s => s.includes(id) ? s.filter(m => m !== id) : METRICS.filter(m => m.id === id || s.includes(m.id)).map(m => m.id));
+
+  const significant = matrix.flat().filter((t, i) => lag > 0 || i % (metrics.length + 1) !== 0).filter(t => t.p < ALPHA).length;
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-indigo-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Scan} title="Correlation Matrix" color="text-indigo-400" right={<span className="text-[10px] font-mono text-gray-500">{significant} significant</span>} />
+      <p className="text-xs text-gray-500 mb-4 font-mono leading-relaxed">
+        Pearson r across {dates.length} days. Rows are measured on day d, columns on day d{lag > 0 ? `+${lag}` : ''}; sleep is logged on the morning it ends. * p&lt;0.05, ** p&lt;0.01.
+      </p>
+
+      {/* Window & Lag */}
+      <div className="flex flex-wrap gap-4 mb-4">
+        <div>
+          <label className="text-[10px] text-gray-500 uppercase font-bold block mb-1">Window</label>
+          <div className="flex gap-1">
+            {WINDOWS.map(w => (
+              <button key={w.id} onClick={() => setWindowDays(w.id)} className={`px-3 py-1 rounded-lg text-[10px] font-bold border ${windowDays === w.id ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-black/40 border-gray-800 text-gray-500'}`}>{w.l}</button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="text-[10px] text-gray-500 uppercase font-bold block mb-1">Lag (days)</label>
+          <div className="flex gap-1">
+            {LAGS.map(l => (
+              <button key={l} onClick={() => setLag(l)} className={`px-3 py-1 rounded-lg text-[10px] font-bold border ${lag === l ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-black/40 border-gray-800 text-gray-500'}`}>{l === 0 ? 'SAME' : `+${l}`}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Metric Picker */}
+      <div className="flex flex-wrap gap-1 mb-4">
+        {METRICS.map(m => (
+          <button key={m.id} onClick={() => toggleMetric(m.id)} className={`px-2 py-1 rounded-md text-[9px] font-bold uppercase border ${selected.includes(m.id) ? 'border-gray-600 text-gray-200' : 'border-gray-800 text-gray-600'}`}>{m.l}</button>
+        ))}
+      </div>
+
+      {/* Matrix */}
+      {metrics.length > 1 && (
+        <div className="overflow-x-auto scrollbar-hide">
+          <table className="border-separate border-spacing-0.5 mx-auto">
+            <thead>
+              <tr>
+                <th />
+                {metrics.map(m => <th key={m.id} className="text-[8px] font-mono text-gray-500 font-normal px-0.5">{m.short}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map((x, i) => (
+                <tr key={x.id}>
+                  <th className="text-[8px] font-mono text-gray-500 font-normal text-right pr-1">{x.short}</th>
+                  {metrics.map((y, j) => {
+                    const t = matrix[i][j];
+                    const trivial = lag === 0 && i === j;
+                    const active = cell?.x === x.id && cell?.y === y.id;
+                    return (
+                      <td key={y.id}>
+                        <button
+                          disabled={trivial}
+                          onClick={() => setCell(active ? null : { x: x.id, y: y.id })}
+                          title={`${x.l} vs ${y.l}: r=${t.r.toFixed(2)}, p=${formatP(t.p)}, n=${t.n}`}
+                          style={trivial ? undefined : cellStyle(t)}
+                          className={`w-9 h-7 rounded text-[8px] font-mono ${trivial ? 'bg-gray-900 text-gray-700' : 'text-white'} ${active ? 'ring-1 ring-white' : ''}`}
+                        >
+                          {trivial ? '—' : `${t.r.toFixed(2).replace('0.', '.')}${stars(t.p)}`}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Intake vs Next Night */}
+      <div className="mt-6">
+        <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Intake → Next-Night Sleep</label>
+        {nightEffects.length === 0 ? (
+          <div className="text-[10px] text-gray-600 font-mono">Log meal, caffeine and alcohol times on {MIN_PAIRS}+ days to see their effect on the following night.</div>
+        ) : (
+          <table className="border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th />
+                {NIGHT_OUTCOMES.map(id => <th key={id} className="text-[8px] font-mono text-gray-500 font-normal px-0.5">{getMetric(id).short}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {nightEffects.map(({ x, tests }) => (
+                <tr key={x.id}>
+                  <th className="text-[9px] text-gray-400 font-normal text-left pr-3">{x.l}</th>
+                  {tests.map(({ y, t }) => (
+                    <td key={y.id}>
+                      <button
+                        disabled={t.n < MIN_PAIRS}
+                        onClick={() => { setLag(1); setCell({ x: x.id, y: y.id }); }}
+                        title={`${x.l} vs next-night ${y.l}: r=${t.r.toFixed(2)}, p=${formatP(t.p)}, n=${t.n}`}
+                        style={t.n < MIN_PAIRS ? undefined : cellStyle(t)}
+                        className={`w-12 h-7 rounded text-[8px] font-mono ${t.n < MIN_PAIRS ? 'bg-gray-900 text-gray-700' : 'text-white'}`}
+                      >
+                        {t.n < MIN_PAIRS ? '—' : `${t.r.toFixed(2).replace('0.', '.')}${stars(t.p)}`}
+                      </button>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {cell && <Drilldown history={history} dates={dates} x={getMetric(cell.x)} y={getMetric(cell.y)} lag={lag} onClose={() => setCell(null)} />}
+    </div>
+  );
+}
+
+interface DrilldownProps {
+  history: DayHistory;
+  dates: string[];
+  x: Metric;
+  y: Metric;
+  lag: number;
+  onClose: () => void;
+}
+
+const W = 300;
+const H = 160;
+
+const Drilldown = ({ history, dates, x, y, lag, onClose }: DrilldownProps) => {
+  const { xs, ys } = pairSeries(history, dates, x, y, lag);
+  const test = testCorrelation(xs, ys);
+  const fit = linearRegression(xs, ys);
+  const profile = LAG_PROFILE.map(l => {
+    const p = pairSeries(history, dates, x, y, l);
+    return { lag: l, ...testCorrelation(p.xs, p.ys) };
+  });
+
+  const span = (v: number[]): [number, number] => {
+    const lo = Math.min(...v);
+    const hi = Math.max(...v);
+    return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+  };
+  const [x0, x1] = span(xs);
+  const [y0, y1] = span(ys);
+  const px = (v: number) => ((v - x0) / (x1 - x0)) * W;
+  const py = (v: number) => H - ((v - y0) / (y1 - y0)) * H;
+
+  return (
+    <div className="mt-4 bg-[#050505] rounded-2xl border border-gray-800/50 p-4 relative">
+      <button onClick={onClose} className="absolute top-3 right-3 text-gray-500 hover:text-white"><X size={14} /></button>
+      <div className="text-[10px] text-gray-400 font-bold uppercase mb-3 pr-6">
+        {x.l} <span className="text-gray-600">(day d)</span> vs {y.l} <span className="text-gray-600">(day d{lag > 0 ? `+${lag}` : ''})</span>
+      </div>
+
+      {xs.length > 1 ? (
+        <svg className="w-full h-40 mb-3 overflow-visible" viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none">
+          <line x1="0" y1={H} x2={W} y2={H} stroke="#1f2937" strokeWidth="1" />
+          <line x1="0" y1="0" x2="0" y2={H} stroke="#1f2937" strokeWidth="1" />
+          {xs.map((v, i) => <circle key={i} cx={px(v)} cy={py(ys[i])} r="2" fill="#6366f1" opacity="0.6" />)}
+          <line x1={px(x0)} y1={py(fit.slope * x0 + fit.intercept)} x2={px(x1)} y2={py(fit.slope * x1 + fit.intercept)} stroke="#f59e0b" strokeWidth="1.5" />
+        </svg>
+      ) : (
+        <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center py-6">Not enough paired days</div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {[
+          { l: 'r', v: test.r.toFixed(2) },
+          { l: 'p-value', v: formatP(test.p) },
+          { l: '95% CI', v: `${test.ci[0].toFixed(2)}…${test.ci[1].toFixed(2)}` },
+          { l: 'n', v: String(test.n) },
+        ].map(m => (
+          <div key={m.l} className="bg-black/40 p-2 rounded-xl border border-gray-800">
+            <div className="text-[9px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+            <div className="text-xs font-mono text-white">{m.v}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-[10px] text-gray-500 font-mono mb-4">
+        +1 {x.unit} {x.l.toLowerCase()} → {fit.slope >= 0 ? '+' : ''}{fit.slope.toPrecision(3)} {y.unit} {y.l.toLowerCase()}
+        {test.p >= ALPHA && <span className="text-gray-600"> (not significant)</span>}
+      </div>
+
+      {/* Lag Profile */}
+      <div className="text-[10px] text-gray-500 font-bold uppercase mb-2">Lag Profile</div>
+      <div className="flex items-center gap-1 h-16">
+        {profile.map(p => (
+          <div key={p.lag} className="flex-1 h-full flex flex-col items-center">
+            <div className="flex-1 w-full flex flex-col justify-end border-b border-gray-800">
+              {p.r > 0 && <div className={`w-full rounded-t-sm ${p.p < ALPHA ? 'bg-emerald-500/70' : 'bg-gray-700'}`} style={{ height: `${p.r * 100}%` }} />}
+            </div>
+            <div className="flex-1 w-full flex flex-col justify-start">
+              {p.r < 0 && <div className={`w-full rounded-b-sm ${p.p < ALPHA ? 'bg-rose-500/70' : 'bg-gray-700'}`} style={{ height: `${-p.r * 100}%` }} />}
+            </div>
+            <div className={`text-[8px] font-mono mt-0.5 ${p.lag === lag ? 'text-indigo-300' : 'text-gray-600'}`}>+{p.lag}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState, useRef } from 'react';
+import { Database, Download, Upload, FileSpreadsheet, Watch } from 'lucide-react';
+import { DayHistory } from '../types';
+import { Backup, BackupMeta, EXPORT_DOMAINS, ParsedBackup, RestoreMode, backupSummary, createBackup, domainCsv, parseBackup } from '../lib/backup';
+import { todayStr } from '../lib/day';
+import { downloadText } from '../services/files';
+import SectionHeader from './SectionHeader';
+
+interface DataVaultProps {
+  history: DayHistory;
+  meta: BackupMeta;
+  demo: boolean; // backups cover real data only
+  onRestore: (backup: Backup, mode: RestoreMode) => Promise<void>;
+  onImportHealth: () => void;
+}
+
+export default function DataVault({ history, meta, demo, onRestore, onImportHealth }: DataVaultProps) {
+  const [pending, setPending] = useState<(ParsedBackup & { file: string }) | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const dates = Object.keys(history).sort();
+  const stamp = todayStr();
+
+  const exportJson = () => {
+    downloadText(`metrix-backup-${stamp}.json`, JSON.stringify(createBackup({ history, meta })), 'application/json');
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseBackup(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+    if (typeof parsed === 'string') {
+      setPending(null);
+      setMessage({ ok: false, text: parsed });
+      return;
+    }
+    setMessage(null);
+    setMode('merge');
+    setPending({ ...parsed, file: file.name });
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      await onRestore(pending.backup, mode);
+      setMessage({ ok: true, text: `Restored ${Object.keys(pending.backup.history).length} days (${mode}).` });
+      setPending(null);
+    } catch (err) {
+      console.error('MetrixOS: restore failed', err);
+      setMessage({ ok: false, text: 'Restore failed. See the console for details.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const summary = pending ? backupSummary(history, pending.backup) : null;
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-gray-800 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Database} title="Data Vault" color="text-gray-400" right={
+        <span className="text-[10px] font-mono text-gray-500">{dates.length} days{dates.length > 0 && ` • ${dates[0]} → ${dates[dates.length - 1]}`}</span>
+      } />
+
+      {demo && <div className="text-[10px] text-amber-400/80 mb-4">Exit demo mode to back up, restore or import your real data.</div>}
+      {!demo && <div className="grid grid-cols-2 gap-3 mb-4">
+        <button onClick={exportJson} className="p-4 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
+          <Download size={14} /> Backup
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="p-4 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
+          <Upload size={14} /> Restore
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={e => readFile(e.target.files?.[0])} />
+        <button onClick={onImportHealth} className="col-span-2 py-3 bg-black/40 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2">
+          <Watch size={14} /> Import Runs, Steps, Sleep & Weight
+        </button>
+      </div>}
+
+      {pending && summary && (
+        <div className="bg-black/40 p-4 rounded-xl border border-gray-800 mb-4 space-y-3">
+          <div>
+            <div className="text-xs text-white truncate">{pending.file}</div>
+            <div className="text-[10px] font-mono text-gray-500">
+              {pending.backup.exportedAt && `exported ${pending.backup.exportedAt.slice(0, 10)} • `}{summary.days} days{summary.from && ` (${summary.from} → ${summary.to})`}
+            </div>
+            <div className="text-[10px] font-mono text-gray-500">{summary.added} new • {summary.conflicts} already here{pending.skipped.length > 0 && ` • ${pending.skipped.length} invalid skipped`}</div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {(['merge', 'replace'] as RestoreMode[]).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider ${mode === m ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{m}</button>
+            ))}
+          </div>
+          <div className={`text-[10px] ${mode === 'replace' ? 'text-rose-400' : 'text-gray-500'}`}>
+            {mode === 'merge'
+              ? 'Adds days, dishes and foods missing here. Existing days keep their local values.'
+              : 'Deletes all local days and settings and loads the backup in their place.'}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => setPending(null)} className="py-2 rounded-xl border border-gray-800 text-[10px] font-bold uppercase tracking-wider text-gray-500">Cancel</button>
+            <button onClick={confirm} disabled={busy} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider disabled:opacity-30 ${mode === 'replace' ? 'bg-rose-500/20 border-rose-500/40 text-rose-300' : 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300'}`}>
+              {mode === 'replace' ? 'Replace All' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <div className={`text-[10px] font-mono mb-4 ${message.ok ? 'text-emerald-400' : 'text-rose-400'}`}>{message.text}</div>}
+
+      <div className="text-[9px] font-mono text-gray-600 mb-4">Backups and CSV exports are not encrypted. Store them somewhere safe.</div>
+
+      <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">CSV Export</div>
+      <div className="grid grid-cols-4 gap-2">
+        {EXPORT_DOMAINS.map(d => (
+          <button key={d.id} onClick={() => downloadText(`metrix-${demo ? 'demo-' : ''}${d.id}-${stamp}.csv`, domainCsv(history, d.id), 'text/csv')} disabled={dates.length === 0} className="py-3 bg-black/40 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wider flex flex-col items-center gap-1 disabled:opacity-30">
+            <FileSpreadsheet size={14} /> {d.l}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { FlaskConical, Dices } from 'lucide-react';
+import { DEMO_LENGTHS, DEMO_PROFILES, DemoSettings } from '../lib/demo';
+import SectionHeader from './SectionHeader';
+
+interface DemoPanelProps {
+  settings: DemoSettings;
+  onApply: (next: DemoSettings, regenerate: boolean) => Promise<void>;
+  onClear: () => Promise<void>;
+}
+
+export default function DemoPanel({ settings, onApply, onClear }: DemoPanelProps) {
+  const [draft, setDraft] = useState(settings);
+  const [busy, setBusy] = useState(false);
+
+  const changed = draft.profile !== settings.profile || draft.seed !== settings.seed || draft.days !== settings.days;
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error('MetrixOS: demo dataset switch failed', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={`glass-panel p-6 rounded-3xl border animate-in fade-in slide-in-from-bottom-4 duration-500 ${settings.enabled ? 'border-amber-900/40' : 'border-gray-800'}`}>
+      <SectionHeader icon={FlaskConical} title="Demo Data" color={settings.enabled ? 'text-amber-400' : 'text-gray-400'} right={
+        <button onClick={() => run(() => onApply({ ...draft, enabled: !settings.enabled }, !settings.enabled && changed))} disabled={busy} className={`px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-wider disabled:opacity-30 ${settings.enabled ? 'bg-amber-500/20 border-amber-500/40 text-amber-300' : 'border-gray-800 text-gray-500 hover:text-white'}`}>
+          {settings.enabled ? 'Exit Demo' : 'Enter Demo'}
+        </button>
+      } />
+
+      <div className="text-[10px] text-gray-500 mb-4">
+        {settings.enabled
+          ? 'Showing synthetic data. Real entries are untouched and return when you exit; edits made now stay in the demo set.'
+          : 'Explore the app on generated data kept apart from your own. The same profile and seed always produce the same history.'}
+      </div>
+
+      <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">Profile</div>
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {DEMO_PROFILES.map(p => (
+          <button key={p.id} onClick={() => setDraft({ ...draft, profile: p.id })} className={`p-3 rounded-xl border text-left ${draft.profile === p.id ? 'border-amber-500/50 bg-amber-950/20' : 'border-gray-800 bg-black/40'}`}>
+            <div className="text-xs font-bold text-white">{p.name}</div>
+            <div className="text-[9px] text-gray-500">{p.description}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="text-[10px] text-gray-500 uppercase font-bold">Seed</label>
+          <div className="flex gap-2">
+            <input type="number" className="custom-input" value={draft.seed} onChange={e => setDraft({ ...draft, seed: Math.trunc(Number(e.target.value)) || 0 })} />
+            <button onClick={() => setDraft({ ...draft, seed: Math.floor(Math.random() * 1e6) })} title="Random seed" className="px-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-white"><Dices size={14} /></button>
+          </div>
+        </div>
+        <div>
+          <label className="text-[10px] text-gray-500 uppercase font-bold">Days</label>
+          <div className="grid grid-cols-4 gap-1">
+            {DEMO_LENGTHS.map(n => (
+              <button key={n} onClick={() => setDraft({ ...draft, days: n })} className={`py-2.5 rounded-xl border text-[10px] font-mono ${draft.days === n ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{n}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => run(() => onApply({ ...draft, enabled: true }, true))} disabled={busy} className="py-3 bg-gray-900 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wider disabled:opacity-30">Regenerate</button>
+          <button onClick={() => run(onClear)} disabled={busy} className="py-3 rounded-xl bg-rose-500/10 border border-rose-500/30 text-[10px] font-bold uppercase tracking-wider text-rose-300 disabled:opacity-30">Clear Demo Data</button>
+        </div>
+      )}
+      {!settings.enabled && (
+        <button onClick={() => run(onClear)} disabled={busy} className="w-full py-3 rounded-xl border border-gray-800 text-[10px] font-bold uppercase tracking-wider text-gray-600 hover:text-rose-300 disabled:opacity-30">Clear Demo Data</button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, Timer, Monitor, Play, Square, X, Trash2 } from 'lucide-react';
+import { FOCUS_MODES, SCREEN_CATEGORIES, STUDY_CATEGORIES } from '../constants';
+import { FocusSession, MindState, ScreenCategory, StudyCategory } from '../types';
+import SectionHeader from './SectionHeader';
+import { createId } from '../lib/id';
+import { loadMeta, saveMeta } from '../services/storage';
+import { ChartRange, rangeStart } from '../lib/chart';
+import BarChart from './BarChart';
+import RangeSelector from './RangeSelector';
+
+interface FocusPanelProps {
+  mind: MindState;
+  onChange: (mind: MindState) => void;
+  // Study and screen minutes per recorded day, oldest first, ending with the active date
+  load: { date: string; study: number; screen: number }[];
+  date: string;
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+}
+
+interface ActiveTimer {
+  startedAt: number;
+  minutes: number;
+  category: StudyCategory;
+}
+
+// Persisted in the sealed meta store so a running session survives tab
+// switches and reloads
+const LEGACY_TIMER_KEY = 'metrix_focus_timer';
+
+const isTimer = (v: unknown): v is ActiveTimer => typeof v === 'object' && v !== null
+  && Number.isFinite((v as ActiveTimer).startedAt) && Number.isFinite((v as ActiveTimer).minutes)
+  && STUDY_CATEGORIES.some(c => c.id === (v as ActiveTimer).category);
+
+const writeTimer = (timer: ActiveTimer | null) => {
+  saveMeta('focusTimer', timer).catch(err => console.error('MetrixOS: failed to save focus timer', err));
+};
+
+const formatClock = (sec: number) => `${Math.floor(sec / 60).toString().padStart(2, '0')}:${Math.floor(sec % 60).toString().padStart(2, '0')}`;
+
+export default function FocusPanel({ mind, onChange, load, date, range, onRangeChange }: FocusPanelProps) {
+  const [timer, setTimer] = useState<ActiveTimer | null>(null);
+  const [mode, setMode] = useState(FOCUS_MODES[0].id);
+  const [category, setCategory] = useState<StudyCategory>('deepWork');
+  const [now, setNow] = useState(Date.now());
+
+  const totalStudy = Object.values(mind.study).reduce((a, b) => a + b, 0);
+
+  const commitSession = (t: ActiveTimer, minutes: number) => {
+    writeTimer(null);
+    setTimer(null);
+    if (minutes < 1) return;
+    const session: FocusSession = { uid: createId(), category: t.category, start: new Date(t.startedAt).toISOString(), minutes };
+    onChange({
+      ...mind,
+      study: { ...mind.study, [t.category]: mind.study[t.category] + minutes },
+      sessions: [...mind.sessions, session],
+    });
+  };
+
+  // A timer started before the stored one loads wins; the old plaintext copy is dropped
+  useEffect(() => {
+    localStorage.removeItem(LEGACY_TIMER_KEY);
+    loadMeta<ActiveTimer | null>('focusTimer')
+      .then(stored => { if (isTimer(stored)) setTimer(t => t ?? stored); })
+      .catch(err => console.error('MetrixOS: failed to load focus timer', err));
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [timer]);
+
+  const elapsedSec = timer ? (now - timer.startedAt) / 1000 : 0;
+
+  // Completed block accrues the full planned duration
+  useEffect(() => {
+    if (timer && elapsedSec >= timer.minutes * 60) commitSession(timer, timer.minutes);
+  }, [timer, elapsedSec]);
+
+  const start = () => {
+    const preset = FOCUS_MODES.find(m => m.id === mode) || FOCUS_MODES[0];
+    const next = { startedAt: Date.now(), minutes: preset.minutes, category };
+    writeTimer(next);
+    setNow(next.startedAt);
+    setTimer(next);
+  };
+
+  const cancel = () => {
+    writeTimer(null);
+    setTimer(null);
+  };
+
+  const removeSession = (uid: string) => {
+    const s = mind.sessions.find(x => x.uid === uid);
+    if (!s) return;
+    onChange({
+      ...mind,
+      study: { ...mind.study, [s.category]: Math.max(0, mind.study[s.category] - s.minutes) },
+      sessions: mind.sessions.filter(x => x.uid !== uid),
+    });
+  };
+
+  const updateScreen = (k: ScreenCategory, v: number) => {
+    const byCategory = { ...mind.screenTime.byCategory, [k]: Math.max(0, v) };
+    onChange({ ...mind, screenTime: { total: Object.values(byCategory).reduce((a, b) => a + b, 0), byCategory } });
+  };
+
+  const remainingSec = timer ? Math.max(0, timer.minutes * 60 - elapsedSec) : 0;
+  const progress = timer ? Math.min(1, elapsedSec / (timer.minutes * 60)) : 0;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* Focus Timer */}
+      <div className="glass-panel p-6 rounded-3xl border border-blue-900/30">
+        <SectionHeader icon={Timer} title="Focus Timer" color="text-blue-400" right={<span className="text-xs font-mono text-gray-400">{totalStudy} min today</span>} />
+
+        <div className="flex items-center gap-6 mb-6">
+          <div className="relative w-28 h-28 flex items-center justify-center shrink-0">
+            <svg className="w-full h-full -rotate-90">
+              <circle cx="50%" cy="50%" r="45%" fill="transparent" stroke="#1f2937" strokeWidth="6" />
+              <circle cx="50%" cy="50%" r="45%" fill="transparent" stroke="#3b82f6" strokeWidth="6" strokeDasharray={`${progress * 315} 315`} strokeLinecap="round" />
+            </svg>
+            <div className="absolute text-lg font-mono font-bold text-white">{timer ? formatClock(remainingSec) : formatClock((FOCUS_MODES.find(m => m.id === mode)?.minutes || 0) * 60)}</div>
+          </div>
+          <div className="flex-1 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              {FOCUS_MODES.map(m => (
+                <button key={m.id} disabled={!!timer} onClick={() => setMode(m.id)} className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${mode === m.id ? 'bg-blue-950/50 border-blue-700/50 text-blue-300' : 'bg-black/40 border-gray-800 text-gray-500'}`}>
+                  {m.l}
+                </button>
+              ))}
+            </div>
+            <select disabled={!!timer} className="custom-input" value={timer ? timer.category : category} onChange={e => setCategory(e.target.value as StudyCategory)}>
+              {STUDY_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.l}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {timer ? (
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => commitSession(timer, Math.floor(elapsedSec / 60))} className="bg-blue-950/50 border border-blue-900/50 p-3 rounded-xl flex items-center justify-center gap-2 text-blue-300 hover:bg-blue-900/50 transition-colors">
+              <Square size={14} /> <span className="text-xs font-bold">Finish</span>
+            </button>
+            <button onClick={cancel} className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex items-center justify-center gap-2 text-gray-400 hover:text-white transition-colors">
+              <X size={14} /> <span className="text-xs font-bold">Discard</span>
+            </button>
+          </div>
+        ) : (
+          <button onClick={start} className="w-full bg-blue-950/50 border border-blue-900/50 p-3 rounded-xl flex items-center justify-center gap-2 text-blue-300 hover:bg-blue-900/50 transition-colors">
+            <Play size={14} /> <span className="text-xs font-bold">Start Session</span>
+          </button>
+        )}
+
+        {/* Study by Category */}
+        <div className="grid grid-cols-4 gap-2 mt-6">
+          {STUDY_CATEGORIES.map(c => (
+            <div key={c.id} className="bg-black/40 p-2 rounded-lg border border-gray-800">
+              <div className="text-[8px] uppercase text-gray-500 font-bold mb-1">{c.l}</div>
+              <div className="text-xs font-mono text-white text-right">{mind.study[c.id]}m</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 mt-4">
+          {mind.sessions.map(s => (
+            <div key={s.uid} className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+              <span className="text-xs text-gray-300">{STUDY_CATEGORIES.find(c => c.id === s.category)?.l}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-mono text-gray-500">{new Date(s.start).toTimeString().slice(0, 5)} • {s.minutes}m</span>
+                <button onClick={() => removeSession(s.uid)} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Screen Time */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={Monitor} title="Screen Time" color="text-blue-400" right={<span className="text-xs font-mono text-gray-400">{mind.screenTime.total} min</span>} />
+        <div className="space-y-2">
+          {SCREEN_CATEGORIES.map(c => (
+            <div key={c.id} className="flex items-center justify-between gap-4">
+              <label className="text-[10px] text-gray-500 uppercase font-bold">{c.l}</label>
+              <input type="number" min={0} className="custom-input !w-28 !p-2 text-right" value={mind.screenTime.byCategory[c.id]} onChange={e => updateScreen(c.id, Number(e.target.value))} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Cognitive Load */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={Brain} title="Cognitive Load" color="text-blue-400" right={<RangeSelector value={range} onChange={onRangeChange} />} />
+        <BarChart
+          data={load.map(d => ({ date: d.date, values: [d.study, d.screen] }))}
+          series={[{ label: 'Study', color: '#3b82f6' }, { label: 'Screen', color: '#4b5563' }]}
+          from={rangeStart(date, range, load[0]?.date)}
+          to={date}
+          height={140}
+          format={v => `${Math.round(v)}m`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useState, useRef } from 'react';
+import { X, Search, Trash2, Upload, Plus } from 'lucide-react';
+import { Ingredient, Macros } from '../types';
+import { mergeCustomFoods } from '../lib/foods';
+import { FoodImportResult, foodFromPer100g, parseFoodFile } from '../lib/foodImport';
+
+interface FoodDatabaseModalProps {
+  foods: Ingredient[]; // custom foods only
+  builtIn: Ingredient[];
+  onChange: (foods: Ingredient[]) => void;
+  onClose: () => void;
+}
+
+// Custom food form, per 100 g
+const FIELDS: { k: keyof Macros; l: string }[] = [
+  { k: 'cal', l: 'kcal' },
+  { k: 'p', l: 'Protein (g)' },
+  { k: 'c', l: 'Carbs (g)' },
+  { k: 'f', l: 'Fat (g)' },
+  { k: 'fiber', l: 'Fibre (g)' },
+  { k: 'sugar', l: 'Sugar (g)' },
+  { k: 'sodium', l: 'Sodium (mg)' },
+  { k: 'potassium', l: 'Potassium (mg)' },
+];
+
+const emptyForm = () => ({ name: '', values: {} as Partial<Record<keyof Macros, string>>, serving: '', servingG: '' });
+
+export default function FoodDatabaseModal({ foods, builtIn, onChange, onClose }: FoodDatabaseModalProps) {
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState(emptyForm());
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<(FoodImportResult & { file: string }) | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const all = [...foods, ...builtIn];
+  const results = all.filter(f => f.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const addFood = () => {
+    const per100g: Partial<Record<keyof Macros, number>> = {};
+    FIELDS.forEach(({ k }) => { if (form.values[k]?.trim()) per100g[k] = Number(form.values[k]); });
+    const servingG = Number(form.servingG);
+    const food = foodFromPer100g(form.name, per100g, { servings: form.serving.trim() && servingG > 0 ? [{ l: form.serving.trim(), g: servingG }] : [] });
+    if (typeof food === 'string') return setError(food);
+    onChange(mergeCustomFoods(foods, [food]));
+    setForm(emptyForm());
+    setError('');
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setPending({ ...parseFoodFile(file.name, await file.text()), file: file.name });
+    } catch (err) {
+      console.error('MetrixOS: failed to read food file', err);
+      setPending({ foods: [], errors: ['could not read file'], file: file.name });
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    onChange(mergeCustomFoods(foods, pending.foods));
+    setPending(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-1">Food Database</h3>
+        <div className="text-[10px] font-mono text-gray-600 mb-6">{builtIn.length} built-in • {foods.length} custom</div>
+
+        {/* Import */}
+        <div className="mb-6">
+          <input ref={fileRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => readFile(e.target.files?.[0])} />
+          {!pending ? (
+            <button onClick={() => fileRef.current?.click()} className="w-full py-3 bg-gray-900 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-widest flex items-center justify-center gap-2">
+              <Upload size={14} /> Import CSV / JSON
+            </button>
+          ) : (
+            <div className="bg-black/40 p-4 rounded-xl border border-gray-800">
+              <div className="text-xs text-white mb-1">{pending.file}</div>
+              <div className="text-[10px] font-mono text-gray-500 mb-2">{pending.foods.length} foods ready • {pending.errors.length} skipped</div>
+              {pending.errors.slice(0, 5).map(e => <div key={e} className="text-[10px] font-mono text-rose-400/80 truncate">{e}</div>)}
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <button onClick={() => setPending(null)} className="py-2 rounded-xl border border-gray-800 text-[10px] font-bold uppercase tracking-wider text-gray-500">Cancel</button>
+                <button onClick={confirmImport} disabled={pending.foods.length === 0} className="py-2 rounded-xl bg-emerald-500/20 border border-emerald-500/40 text-[10px] font-bold uppercase tracking-wider text-emerald-300 disabled:opacity-30">Import {pending.foods.length}</button>
+              </div>
+            </div>
+          )}
+          <div className="text-[9px] text-gray-600 font-mono mt-2">Values per 100 g. CSV columns: name, kcal, protein, carbs, fat, optional fiber, sugar, sodium_mg, … or a FoodData Central JSON export.</div>
+        </div>
+
+        {/* Custom Food */}
+        <div className="bg-black/40 p-4 rounded-xl border border-gray-800 mb-6 space-y-2">
+          <div className="text-[10px] text-gray-500 uppercase font-bold">New Food (per 100 g)</div>
+          <input className="custom-input" placeholder="Name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <div className="grid grid-cols-4 gap-2">
+            {FIELDS.map(({ k, l }) => (
+              <div key={k}>
+                <label className="text-[8px] text-gray-500 uppercase font-bold">{l}</label>
+                <input type="number" min={0} step="any" className="custom-input !p-2" value={form.values[k] ?? ''} onChange={e => setForm({ ...form, values: { ...form.values, [k]: e.target.value } })} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input className="custom-input flex-1" placeholder="Serving (e.g. slice)" value={form.serving} onChange={e => setForm({ ...form, serving: e.target.value })} />
+            <input type="number" min={0} className="custom-input !w-24 text-right" placeholder="g" value={form.servingG} onChange={e => setForm({ ...form, servingG: e.target.value })} />
+            <button onClick={addFood} className="px-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-emerald-400"><Plus size={14} /></button>
+          </div>
+          {error && <div className="text-[10px] font-mono text-rose-400">{error}</div>}
+        </div>
+
+        {/* List */}
+        <div className="relative mb-3">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-600" />
+          <input className="custom-input !pl-9" placeholder="Search foods" value={query} onChange={e => setQuery(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          {results.map(f => (
+            <div key={f.id} className="flex items-center justify-between p-2">
+              <div className="min-w-0">
+                <div className="text-xs text-gray-300 truncate">{f.name}</div>
+                <div className="text-[9px] font-mono text-gray-600">
+                  {(f.macros.cal * 100).toFixed(0)} kcal • P{(f.macros.p * 100).toFixed(1)} C{(f.macros.c * 100).toFixed(1)} F{(f.macros.f * 100).toFixed(1)}
+                  {f.macros.fiber !== undefined && ` • fibre ${(f.macros.fiber * 100).toFixed(1)}`}
+                </div>
+              </div>
+              {f.custom
+                ? <button onClick={() => onChange(foods.filter(x => x.id !== f.id))} className="text-gray-600 hover:text-rose-400 shrink-0"><Trash2 size={14} /></button>
+                : <span className="text-[9px] font-mono text-gray-700 uppercase shrink-0">built-in</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { GOAL_METRICS, Goal, GoalKind, getGoalMetric, goalLabel } from '../lib/goals';
+import { createId } from '../lib/id';
+import { shiftDate, todayStr } from '../lib/day';
+
+interface GoalModalProps {
+  goal: Goal | null; // null creates a new goal
+  onSave: (goal: Goal) => void;
+  onClose: () => void;
+}
+
+const KINDS: { id: GoalKind; l: string }[] = [
+  { id: 'daily', l: 'Daily' },
+  { id: 'frequency', l: 'X of Y Days' },
+  { id: 'milestone', l: 'Milestone' },
+];
+
+// Lower is better for these
+const LOWER_IS_BETTER = new Set(['screen', 'weight', 'calories']);
+
+const PRESETS: { l: string; goal: Omit<Goal, 'id' | 'created'> }[] = [
+  { l: 'Sleep 7h, 5 of 7', goal: { kind: 'frequency', metric: 'sleep', op: 'gte', value: 7, times: 5, window: 7 } },
+  { l: '10k steps daily', goal: { kind: 'daily', metric: 'steps', op: 'gte', value: 10000 } },
+  { l: 'Screen ≤ 2h daily', goal: { kind: 'daily', metric: 'screen', op: 'lte', value: 120 } },
+  { l: 'Squat 140 kg', goal: { kind: 'milestone', metric: 'lift:str1', op: 'gte', value: 140 } },
+];
+
+export default function GoalModal({ goal, onSave, onClose }: GoalModalProps) {
+  const [draft, setDraft] = useState<Goal>(goal || {
+    id: `goal_${createId()}`,
+    kind: 'daily',
+    metric: 'steps',
+    op: 'gte',
+    value: 10000,
+    created: todayStr(),
+  });
+
+  const metric = getGoalMetric(draft.metric);
+  const valid = Number.isFinite(draft.value)
+    && (draft.kind !== 'frequency' || ((draft.times ?? 0) >= 1 && (draft.window ?? 0) >= (draft.times ?? 0)))
+    && (draft.kind !== 'milestone' || !!draft.deadline);
+
+  const setKind = (kind: GoalKind) => setDraft({
+    ...draft,
+    kind,
+    times: kind === 'frequency' ? draft.times ?? 5 : undefined,
+    window: kind === 'frequency' ? draft.window ?? 7 : undefined,
+    deadline: kind === 'milestone' ? draft.deadline ?? shiftDate(todayStr(), 90) : undefined,
+  });
+
+  const applyPreset = (p: typeof PRESETS[number]) => setDraft({
+    ...draft,
+    ...p.goal,
+    deadline: p.goal.kind === 'milestone' ? shiftDate(todayStr(), 90) : undefined,
+  });
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">{goal ? 'Edit Goal' : 'New Goal'}</h3>
+
+        {!goal && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {PRESETS.map(p => (
+              <button key={p.l} onClick={() => applyPreset(p)} className="px-3 py-1.5 rounded-full border border-gray-800 text-[10px] text-gray-400 hover:text-white">{p.l}</button>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {KINDS.map(k => (
+              <button key={k.id} onClick={() => setKind(k.id)} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider ${draft.kind === k.id ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{k.l}</button>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold">Metric</label>
+            <select className="custom-input" value={draft.metric} onChange={e => setDraft({ ...draft, metric: e.target.value, op: LOWER_IS_BETTER.has(e.target.value) ? 'lte' : 'gte' })}>
+              {GOAL_METRICS.map(m => <option key={m.id} value={m.id}>{m.l} ({m.unit})</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Must Be</label>
+              <select className="custom-input" value={draft.op} onChange={e => setDraft({ ...draft, op: e.target.value as Goal['op'] })}>
+                <option value="gte">at least</option>
+                <option value="lte">at most</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Target ({metric.unit})</label>
+              <input type="number" step="any" className="custom-input" value={Number.isFinite(draft.value) ? draft.value : ''} onChange={e => setDraft({ ...draft, value: e.target.value === '' ? NaN : Number(e.target.value) })} />
+            </div>
+          </div>
+
+          {draft.kind === 'frequency' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">Times</label>
+                <input type="number" min={1} className="custom-input" value={draft.times ?? ''} onChange={e => setDraft({ ...draft, times: Math.max(1, Number(e.target.value)) })} />
+              </div>
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">Out Of Days</label>
+                <input type="number" min={1} className="custom-input" value={draft.window ?? ''} onChange={e => setDraft({ ...draft, window: Math.max(1, Number(e.target.value)) })} />
+              </div>
+            </div>
+          )}
+
+          {draft.kind === 'milestone' && (
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Deadline</label>
+              <input type="date" min={todayStr()} className="custom-input [color-scheme:dark]" value={draft.deadline ?? ''} onChange={e => setDraft({ ...draft, deadline: e.target.value || undefined })} />
+            </div>
+          )}
+
+          <div className="text-[10px] font-mono text-gray-500">{valid ? goalLabel(draft) : 'Incomplete goal'}</div>
+
+          <button onClick={() => onSave(draft)} disabled={!valid} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-40">Save Goal</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Target, Plus, Flame, Pencil, Trash2 } from 'lucide-react';
+import { GoalStatus, Goal } from '../lib/goals';
+
+interface GoalsPanelProps {
+  statuses: GoalStatus[];
+  onAdd: () => void;
+  onEdit: (goal: Goal) => void;
+  onDelete: (id: string) => void;
+}
+
+const cellColor = (hit: boolean | null) => hit === null ? 'bg-gray-900' : hit ? 'bg-emerald-500' : 'bg-rose-500/40';
+
+export default function GoalsPanel({ statuses, onAdd, onEdit, onDelete }: GoalsPanelProps) {
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-emerald-900/30 flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3 text-emerald-400">
+          <Target size={18} strokeWidth={2.5} />
+          <span className="font-bold text-xs uppercase tracking-[0.15em]">Goals</span>
+        </div>
+        <button onClick={onAdd} className="text-gray-500 hover:text-white"><Plus size={16} /></button>
+      </div>
+
+      {statuses.length === 0 && (
+        <button onClick={onAdd} className="flex-1 min-h-[120px] border border-dashed border-gray-800 rounded-2xl text-[10px] text-gray-600 hover:text-gray-400 uppercase tracking-wider">
+          Set a goal: "sleep ≥7h on 5 of 7 nights", "10k steps daily", "squat 140 kg by March"
+        </button>
+      )}
+
+      <div className="space-y-4">
+        {statuses.map(s => (
+          <div key={s.goal.id} className="group">
+            <div className="flex items-start justify-between gap-2 mb-1">
+              <div className="min-w-0">
+                <div className="text-xs text-white truncate">{s.label}</div>
+                <div className="text-[10px] font-mono text-gray-500">{s.detail}</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {s.goal.kind !== 'milestone' && (
+                  <span title={`Best: ${s.best}`} className={`flex items-center gap-1 text-[10px] font-mono ${s.streak > 0 ? 'text-amber-400' : 'text-gray-600'}`}>
+                    <Flame size={12} /> {s.streak}{s.goal.kind === 'frequency' ? '×' : 'd'}
+                  </span>
+                )}
+                <button onClick={() => onEdit(s.goal)} className="text-gray-700 hover:text-white opacity-0 group-hover:opacity-100"><Pencil size={12} /></button>
+                <button onClick={() => onDelete(s.goal.id)} className="text-gray-700 hover:text-rose-400 opacity-0 group-hover:opacity-100"><Trash2 size={12} /></button>
+              </div>
+            </div>
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden mb-1.5">
+              <div className={`h-full ${s.met ? 'bg-emerald-500' : 'bg-indigo-500'}`} style={{ width: `${s.progress * 100}%` }} />
+            </div>
+            <div className="flex gap-[2px]">
+              {s.timeline.map(t => (
+                <div key={t.date} title={t.date} className={`flex-1 h-2 rounded-sm ${cellColor(t.hit)}`} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
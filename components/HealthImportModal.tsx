@@ -0,0 +1,120 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, FileWarning } from 'lucide-react';
+import { DayHistory } from '../types';
+import { HEALTH_DOMAINS, HEALTH_FORMATS, HealthDomain, ParsedHealthFile, combineHealthData, parseHealthFile, planHealthImport } from '../lib/healthImport';
+
+interface HealthImportModalProps {
+  history: DayHistory;
+  onImport: (records: DayHistory) => Promise<void>;
+  onClose: () => void;
+}
+
+const PREVIEW_DAYS = 60;
+
+const fileSummary = (f: ParsedHealthFile) => [
+  f.data.runs.length && `${f.data.runs.length} runs`,
+  Object.keys(f.data.steps).length && `${Object.keys(f.data.steps).length} days of steps`,
+  Object.keys(f.data.sleep).length && `${Object.keys(f.data.sleep).length} nights`,
+  Object.keys(f.data.weight).length && `${Object.keys(f.data.weight).length} weigh-ins`,
+  f.ignored && `${f.ignored} ignored`,
+].filter(Boolean).join(' • ') || 'nothing to import';
+
+export default function HealthImportModal({ history, onImport, onClose }: HealthImportModalProps) {
+  const [files, setFiles] = useState<ParsedHealthFile[]>([]);
+  const [domains, setDomains] = useState<HealthDomain[]>(HEALTH_DOMAINS.map(d => d.id));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const plan = useMemo(() => {
+    const usable = files.filter(f => !f.error).map(f => f.data);
+    return usable.length ? planHealthImport(history, combineHealthData(usable), domains) : null;
+  }, [files, domains, history]);
+
+  const readFiles = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    setBusy(true);
+    const parsed = await Promise.all([...list].map(async f => parseHealthFile(f.name, await f.arrayBuffer())));
+    setFiles(prev => [...prev, ...parsed]);
+    setBusy(false);
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const toggle = (id: HealthDomain) => setDomains(domains.includes(id) ? domains.filter(d => d !== id) : [...domains, id]);
+
+  const confirm = async () => {
+    if (!plan) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onImport(plan.records);
+      onClose();
+    } catch (err) {
+      console.error('MetrixOS: health import failed', err);
+      setError('Import failed. Nothing was saved; see the console for details.');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-1">Import Health Data</h3>
+        <div className="text-[10px] font-mono text-gray-600 mb-6">GPX • TCX • FIT • Apple Health export.xml • Google Fit JSON</div>
+
+        <input ref={fileRef} type="file" multiple accept=".gpx,.tcx,.fit,.xml,.json" className="hidden" onChange={e => readFiles(e.target.files)} />
+        <button onClick={() => fileRef.current?.click()} disabled={busy} className="w-full py-3 bg-gray-900 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-widest flex items-center justify-center gap-2 disabled:opacity-30">
+          <Upload size={14} /> {busy && !plan ? 'Reading…' : files.length ? 'Add Files' : 'Choose Files'}
+        </button>
+        <div className="text-[9px] text-gray-600 font-mono mt-2 mb-6">Apple Health: unzip export.zip and pick apple_health_export/export.xml. Google Fit: Takeout "All Data" JSON files.</div>
+
+        {files.length > 0 && (
+          <div className="space-y-2 mb-6">
+            {files.map((f, i) => (
+              <div key={`${f.name}-${i}`} className="flex items-start justify-between gap-2 bg-black/40 p-3 rounded-xl border border-gray-800">
+                <div className="min-w-0">
+                  <div className="text-xs text-white truncate">{f.name}</div>
+                  {f.error
+                    ? <div className="text-[10px] font-mono text-rose-400 flex items-center gap-1"><FileWarning size={12} /> {f.error}</div>
+                    : <div className="text-[10px] font-mono text-gray-500">{HEALTH_FORMATS[f.format!]} • {fileSummary(f)}</div>}
+                </div>
+                <button onClick={() => setFiles(files.filter((_, j) => j !== i))} className="text-gray-600 hover:text-rose-400 shrink-0"><X size={14} /></button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {plan && (
+          <>
+            <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">Import</div>
+            <div className="grid grid-cols-4 gap-2 mb-4">
+              {HEALTH_DOMAINS.map(d => (
+                <button key={d.id} onClick={() => toggle(d.id)} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider ${domains.includes(d.id) ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{d.l}</button>
+              ))}
+            </div>
+
+            <div className="text-[10px] font-mono text-gray-500 mb-2">
+              {plan.days.length} days change ({plan.days.filter(d => d.isNew).length} new){plan.duplicates > 0 && ` • ${plan.duplicates} runs already logged`}{plan.unchanged > 0 && ` • ${plan.unchanged} values unchanged`}
+            </div>
+            <div className="max-h-60 overflow-y-auto space-y-1 mb-4 pr-1">
+              {plan.days.slice(0, PREVIEW_DAYS).map(d => (
+                <div key={d.date} className="bg-black/40 px-3 py-2 rounded-lg border border-gray-900">
+                  <div className="text-[10px] font-mono text-gray-400">{d.date}{d.isNew && <span className="ml-2 text-sky-400">NEW</span>}</div>
+                  {d.changes.map((c, i) => <div key={i} className="text-[10px] font-mono text-gray-300">{c}</div>)}
+                </div>
+              ))}
+              {plan.days.length > PREVIEW_DAYS && <div className="text-[10px] font-mono text-gray-600 text-center">+{plan.days.length - PREVIEW_DAYS} more days</div>}
+            </div>
+            <div className="text-[9px] text-gray-600 mb-4">Imported steps, sleep and weight replace the values logged for those days. Runs are added unless the day already has the same run.</div>
+
+            {error && <div className="text-[10px] font-mono text-rose-400 mb-3">{error}</div>}
+            <button onClick={confirm} disabled={busy || plan.days.length === 0} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-40">
+              Merge {plan.days.length} Days
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Coffee, Hourglass, Plus, Trash2, Utensils, Wine } from 'lucide-react';
+import { INTAKE_PRESETS } from '../constants';
+import { IntakeEvent, IntakeKind } from '../types';
+import SectionHeader from './SectionHeader';
+import { createId } from '../lib/id';
+import { CAFFEINE_SLEEP_LIMIT, caffeineAtBedtime, currentFast, eatingWindow, intakeTotals, lastMealToBed, nowClock, overnightFast, sortEvents } from '../lib/intake';
+
+interface IntakePanelProps {
+  events: IntakeEvent[];
+  onChange: (events: IntakeEvent[]) => void;
+  previous: IntakeEvent[]; // the day before, for the overnight fast
+  bedtime: string; // tonight's, or the habitual one when not logged yet
+  live: boolean; // the active date is today, so a fast can still be running
+}
+
+const KINDS: { id: IntakeKind; l: string; unit: string; icon: any; color: string }[] = [
+  { id: 'meal', l: 'Meal', unit: '', icon: Utensils, color: 'text-emerald-400' },
+  { id: 'caffeine', l: 'Caffeine', unit: 'mg', icon: Coffee, color: 'text-amber-400' },
+  { id: 'alcohol', l: 'Alcohol', unit: 'u', icon: Wine, color: 'text-rose-400' },
+];
+
+const formatSpan = (min: number | undefined) =>
+  min === undefined ? '—' : `${Math.floor(min / 60)}h ${Math.round(min % 60).toString().padStart(2, '0')}m`;
+
+export default function IntakePanel({ events, onChange, previous, bedtime, live }: IntakePanelProps) {
+  const [form, setForm] = useState({ time: nowClock(), kind: 'caffeine' as IntakeKind, amount: 95 });
+  const [now, setNow] = useState(nowClock());
+
+  useEffect(() => {
+    if (!live) return;
+    const id = setInterval(() => setNow(nowClock()), 60_000);
+    return () => clearInterval(id);
+  }, [live]);
+
+  const add = (kind: IntakeKind, amount: number, label?: string) => {
+    if (kind !== 'meal' && amount <= 0) return;
+    onChange(sortEvents([...events, { uid: createId(), kind, time: form.time, amount: kind === 'meal' ? 0 : amount, ...(label ? { label } : {}) }]));
+  };
+
+  const totals = intakeTotals(events);
+  const residual = caffeineAtBedtime(events, bedtime);
+  const fast = live ? currentFast(events, previous, now) : overnightFast(previous, events);
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-amber-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Hourglass} title="Intake Timing" color="text-amber-400" right={
+        <span className="text-xs font-mono text-gray-400">{totals.caffeine.toFixed(0)} mg • {totals.alcohol.toFixed(1)} u</span>
+      } />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+        {[
+          { l: live ? 'Fasting For' : 'Overnight Fast', v: formatSpan(fast) },
+          { l: 'Eating Window', v: formatSpan(eatingWindow(events)) },
+          { l: `Caffeine @ ${bedtime}`, v: `${residual.toFixed(0)} mg`, warn: residual >= CAFFEINE_SLEEP_LIMIT },
+          { l: 'Last Meal → Bed', v: formatSpan(lastMealToBed(events, bedtime)) },
+        ].map(m => (
+          <div key={m.l} className="bg-black/40 p-3 rounded-xl border border-gray-800">
+            <div className="text-[9px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+            <div className={`text-sm font-mono ${m.warn ? 'text-amber-400' : 'text-white'}`}>{m.v}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        <input type="time" className="custom-input" value={form.time} onChange={e => setForm({ ...form, time: e.target.value || form.time })} />
+        <select className="custom-input" value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as IntakeKind })}>
+          {KINDS.map(k => <option key={k.id} value={k.id}>{k.l}</option>)}
+        </select>
+        <input type="number" min={0} step={form.kind === 'alcohol' ? 0.5 : 5} disabled={form.kind === 'meal'} className="custom-input text-right disabled:opacity-30" value={form.kind === 'meal' ? '' : form.amount} onChange={e => setForm({ ...form, amount: Number(e.target.value) })} />
+        <button onClick={() => add(form.kind, form.amount)} className="bg-amber-950/50 border border-amber-900/50 rounded-xl flex items-center justify-center text-amber-300 hover:bg-amber-900/50 transition-colors">
+          <Plus size={16} />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-4">
+        <button onClick={() => add('meal', 0)} className="px-2 py-1 rounded-md text-[9px] font-bold uppercase border border-gray-800 text-gray-400 hover:text-white">Meal</button>
+        {INTAKE_PRESETS.map(p => (
+          <button key={p.l} onClick={() => add(p.kind, p.amount, p.l)} className="px-2 py-1 rounded-md text-[9px] font-bold uppercase border border-gray-800 text-gray-400 hover:text-white">
+            {p.l} <span className="text-gray-600 font-mono">{p.amount}{p.kind === 'caffeine' ? 'mg' : 'u'}</span>
+          </button>
+        ))}
+      </div>
+
+      {events.length === 0 && <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center">Log meals and drinks with their times</div>}
+      <div className="space-y-2">
+        {events.map(e => {
+          const kind = KINDS.find(k => k.id === e.kind)!;
+          const Icon = kind.icon;
+          return (
+            <div key={e.uid} className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+              <span className="flex items-center gap-3 text-xs text-gray-300">
+                <span className="font-mono text-gray-500">{e.time}</span>
+                <Icon size={12} className={kind.color} />
+                {e.label || kind.l}
+              </span>
+              <div className="flex items-center gap-3">
+                {e.kind !== 'meal' && <span className="text-xs font-mono text-gray-500">{e.amount}{kind.unit}</span>}
+                <button onClick={() => onChange(events.filter(x => x.uid !== e.uid))} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ChartSeries, TargetBand, niceScale, smoothPath, xFraction, yFraction } from '../lib/chart';
+import ChartFrame from './ChartFrame';
+
+export interface LineChartProps {
+  series: ChartSeries[];
+  bands?: TargetBand[];
+  from: string;
+  to: string;
+  height?: number;
+  format?: (v: number) => string;
+  zero?: boolean; // keep 0 on the y axis
+}
+
+const fmt = (v: number) => `${Math.round(v * 10) / 10}`;
+
+export default function LineChart({ series, bands = [], from, to, height = 160, format = fmt, zero = false }: LineChartProps) {
+  const values = [
+    ...series.flatMap(s => s.points.map(p => p.value)),
+    ...bands.flatMap(b => [b.from, b.to]),
+    ...(zero ? [0] : []),
+  ];
+  const scale = niceScale(Math.min(...values), Math.max(...values));
+  const dates = [...new Set(series.flatMap(s => s.points.map(p => p.date)))].sort();
+  const byDate = series.map(s => new Map(s.points.map(p => [p.date, p.value])));
+  const base = yFraction(Math.max(scale.min, Math.min(scale.max, 0)), scale) * 1000;
+
+  if (dates.length === 0) {
+    return <div className="flex items-center justify-center text-xs text-gray-600" style={{ height }}>No data in range</div>;
+  }
+
+  return (
+    <div>
+      <ChartFrame
+        from={from}
+        to={to}
+        scale={scale}
+        bands={bands}
+        format={format}
+        height={height}
+        dates={dates}
+        markers={d => series.flatMap((s, i) => byDate[i].has(d) ? [{ value: byDate[i].get(d)!, color: s.color }] : [])}
+        tooltip={d => series.map((s, i) => byDate[i].has(d) && (
+          <div key={s.id} className="text-[10px] font-mono flex items-center gap-1.5">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ background: s.color }} />
+            <span className="text-gray-400">{s.label}</span>
+            <span className="text-white font-bold ml-auto pl-2">{format(byDate[i].get(d)!)}</span>
+          </div>
+        ))}
+      >
+        <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+          {series.map(s => {
+            const pts = s.points.map(p => [xFraction(p.date, from, to) * 1000, yFraction(p.value, scale) * 1000]);
+            if (pts.length === 0) return null;
+            if (pts.length === 1) pts.push([pts[0][0] + 1, pts[0][1]]);
+            const path = smoothPath(pts);
+            return (
+              <g key={s.id}>
+                {s.area && <path d={`${path} L ${pts[pts.length - 1][0]},${base} L ${pts[0][0]},${base} Z`} fill={s.color} fillOpacity={0.12} stroke="none" />}
+                <path d={path} fill="none" stroke={s.color} strokeWidth={2} vectorEffect="non-scaling-stroke" strokeLinecap="round" />
+              </g>
+            );
+          })}
+        </svg>
+      </ChartFrame>
+      {series.length > 1 && (
+        <div className="flex gap-3 mt-2 ml-10">
+          {series.map(s => (
+            <span key={s.id} className="flex items-center gap-1 text-[9px] uppercase font-bold text-gray-500">
+              <span className="w-2 h-0.5 rounded" style={{ background: s.color }} />{s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Lock, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { MIN_PASSPHRASE } from '../services/vault';
+
+interface LockScreenProps {
+  mode: 'setup' | 'unlock';
+  onSetup: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onErase: () => Promise<void>;
+}
+
+const ERASE_CONFIRM = 'ERASE';
+
+const INPUT = 'w-full bg-[#050505] border border-zinc-800 text-white p-2.5 rounded-xl font-mono text-sm focus:outline-none focus:border-indigo-500';
+
+export default function LockScreen({ mode, onSetup, onUnlock, onErase }: LockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [recovering, setRecovering] = useState(false);
+  const [erased, setErased] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await task();
+    } catch (err) {
+      console.error('MetrixOS: vault operation failed', err);
+      setError('Something went wrong. Nothing was changed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'setup') {
+      if (passphrase.length < MIN_PASSPHRASE) return setError(`Use at least ${MIN_PASSPHRASE} characters.`);
+      if (passphrase !== confirm) return setError('Passphrases do not match.');
+      run(() => onSetup(passphrase));
+    } else {
+      run(async () => {
+        if (!(await onUnlock(passphrase))) {
+          setError('Wrong passphrase.');
+          setPassphrase('');
+        }
+      });
+    }
+  };
+
+  const erase = () => run(async () => {
+    await onErase();
+    setErased(true);
+    setRecovering(false);
+    setConfirm('');
+  });
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-black text-gray-100 font-sans p-6">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-sm rounded-3xl p-8 shadow-2xl animate-in fade-in duration-300">
+        {!recovering ? (
+          <form onSubmit={submit} className="space-y-4">
+            <div className="flex flex-col items-center text-center mb-2">
+              {mode === 'setup' ? <ShieldCheck size={32} className="text-emerald-500 mb-4" /> : <Lock size={32} className="text-indigo-400 mb-4" />}
+              <h3 className="text-sm font-bold text-white uppercase tracking-widest">{mode === 'setup' ? 'Create Vault' : 'Vault Locked'}</h3>
+              <div className="text-[10px] text-gray-500 mt-2">
+                {mode === 'setup'
+                  ? 'All records on this device are encrypted with a key derived from your passphrase (PBKDF2 + AES-GCM). Existing data is encrypted now.'
+                  : 'Enter your passphrase to decrypt your data.'}
+              </div>
+              {erased && <div className="text-[10px] text-amber-400 mt-2">Vault erased. To bring data back, restore a backup from Insights → Data Vault after setup.</div>}
+            </div>
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Passphrase</label>
+              <input type="password" autoFocus autoComplete={mode === 'setup' ? 'new-password' : 'current-password'} className={INPUT} value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+            </div>
+            {mode === 'setup' && (
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">Confirm</label>
+                <input type="password" autoComplete="new-password" className={INPUT} value={confirm} onChange={e => setConfirm(e.target.value)} />
+              </div>
+            )}
+            {mode === 'setup' && <div className="text-[10px] text-amber-400/80">There is no way to recover a forgotten passphrase. Keep a backup.</div>}
+            {error && <div className="text-[10px] font-mono text-rose-400">{error}</div>}
+            <button type="submit" disabled={busy || !passphrase} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-40">
+              {busy ? 'Deriving key…' : mode === 'setup' ? 'Encrypt & Continue' : 'Unlock'}
+            </button>
+            {mode === 'unlock' && (
+              <button type="button" onClick={() => { setRecovering(true); setError(''); }} className="w-full text-[10px] text-gray-600 hover:text-gray-400 uppercase tracking-wider">Forgot passphrase?</button>
+            )}
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center text-center">
+              <ShieldAlert size={32} className="text-rose-500 mb-4" />
+              <h3 className="text-sm font-bold text-white uppercase tracking-widest">Erase Vault</h3>
+            </div>
+            <div className="bg-rose-950/20 border border-rose-900/40 rounded-xl p-4 text-[11px] text-rose-200/80 space-y-2">
+              <p>Your passphrase is never stored, so without it the data cannot be decrypted by anyone.</p>
+              <p>Erasing permanently deletes every day, setting, dish and custom food on this device. Afterwards you can set a new passphrase and restore a JSON backup from Insights → Data Vault.</p>
+            </div>
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Type {ERASE_CONFIRM} to confirm</label>
+              <input className={INPUT} value={confirm} onChange={e => setConfirm(e.target.value)} />
+            </div>
+            {error && <div className="text-[10px] font-mono text-rose-400">{error}</div>}
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => { setRecovering(false); setConfirm(''); }} className="py-3 rounded-xl border border-gray-800 text-[10px] font-bold uppercase tracking-wider text-gray-500">Back</button>
+              <button onClick={erase} disabled={busy || confirm !== ERASE_CONFIRM} className="py-3 rounded-xl bg-rose-500/20 border border-rose-500/40 text-[10px] font-bold uppercase tracking-wider text-rose-300 disabled:opacity-30">Erase Vault</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import React, { useState, useMemo } from 'react';
+import { X, Search, Plus, Trash2, ChefHat, Wand2, Loader2 } from 'lucide-react';
+import { MEAL_SLOTS } from '../constants';
+import { Ingredient, MealItem, MealSlot, Recipe } from '../types';
+import { createId } from '../lib/id';
+import { FoodCandidate, MealParser, ParsedItem } from '../lib/mealParser';
+
+interface LogFoodModalProps {
+  meals: Record<MealSlot, MealItem[]>;
+  recipes: Recipe[];
+  slot: MealSlot;
+  onSlotChange: (slot: MealSlot) => void;
+  onChange: (meals: Record<MealSlot, MealItem[]>) => void;
+  onClose: () => void;
+  parser: MealParser;
+  foods: Ingredient[];
+  // Food ids ordered by last use and by use count
+  usage: { recent: string[]; frequent: string[] };
+}
+
+const SHORTLIST = 5;
+
+export default function LogFoodModal({ meals, recipes, slot, onSlotChange, onChange, onClose, parser, foods, usage }: LogFoodModalProps) {
+  const [query, setQuery] = useState('');
+  const [grams, setGrams] = useState(100);
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedItem[] | null>(null);
+  const [parsing, setParsing] = useState(false);
+
+  // Raw ingredients and saved dishes share one searchable list
+  const entries = useMemo<FoodCandidate[]>(() => [
+    ...recipes.map(r => ({ id: r.id, name: r.name, macros: r.macros, composed: true })),
+    ...foods.map(i => ({ ...i, composed: false })),
+  ], [recipes, foods]);
+
+  const results = entries.filter(e => e.name.toLowerCase().includes(query.trim().toLowerCase()));
+  const items = meals[slot];
+
+  const toItem = (entry: FoodCandidate, amount: number): MealItem => {
+    const item: MealItem = { uid: createId(), id: entry.id, name: entry.name, amount };
+    // Snapshot so the log survives the dish or custom food being deleted
+    if (entry.composed || entry.custom) item.macros = entry.macros;
+    return item;
+  };
+
+  const addItem = (entry: FoodCandidate, amount = grams) => {
+    if (amount <= 0) return;
+    onChange({ ...meals, [slot]: [...items, toItem(entry, amount)] });
+  };
+
+  const shortlist = (ids: string[]) => ids.map(id => entries.find(e => e.id === id)).filter((e): e is FoodCandidate => !!e).slice(0, SHORTLIST);
+  const recent = shortlist(usage.recent);
+  const frequent = shortlist(usage.frequent);
+
+  // --- Quick entry: parse, review, then confirm ---
+  const parseText = async () => {
+    if (!text.trim()) return;
+    setParsing(true);
+    setParsed(await parser.parse(text, entries));
+    setParsing(false);
+  };
+
+  const updateParsed = (uid: string, patch: Partial<ParsedItem>) =>
+    setParsed(p => p && p.map(i => i.uid === uid ? { ...i, ...patch } : i));
+
+  const confirmable = (parsed || []).filter(i => i.foodId && i.grams > 0);
+
+  const confirmParsed = () => {
+    const added = confirmable.map(i => toItem(entries.find(e => e.id === i.foodId)!, i.grams));
+    onChange({ ...meals, [slot]: [...items, ...added] });
+    setParsed(null);
+    setText('');
+  };
+
+  const updateAmount = (uid: string, amount: number) =>
+    onChange({ ...meals, [slot]: items.map(i => i.uid === uid ? { ...i, amount: Math.max(0, amount) } : i) });
+
+  const removeItem = (uid: string) =>
+    onChange({ ...meals, [slot]: items.filter(i => i.uid !== uid) });
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">Log Food</h3>
+
+        {/* Slot Selector */}
+        <div className="grid grid-cols-4 gap-2 mb-6">
+          {MEAL_SLOTS.map(s => (
+            <button key={s.id} onClick={() => onSlotChange(s.id)} className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-colors ${slot === s.id ? 'bg-emerald-950/50 border-emerald-700/50 text-emerald-300' : 'bg-black/40 border-gray-800 text-gray-500 hover:text-gray-300'}`}>
+              {s.l}
+            </button>
+          ))}
+        </div>
+
+        {/* Quick Entry */}
+        <div className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-[10px] text-gray-500 uppercase font-bold">Quick Entry</label>
+            <span className="text-[9px] font-mono text-gray-600 uppercase">{parser.label} parser</span>
+          </div>
+          {!parsed ? (
+            <div className="flex gap-2">
+              <textarea rows={2} className="custom-input flex-1 resize-none" placeholder="200g chicken breast, 150g rice, a tablespoon of olive oil" value={text} onChange={e => setText(e.target.value)} />
+              <button onClick={parseText} disabled={!text.trim() || parsing} className="px-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-emerald-400 disabled:opacity-30">
+                {parsing ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {parsed.map(i => (
+                <div key={i.uid} className="bg-black/40 p-2 rounded-xl border border-gray-800">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${!i.foodId ? 'bg-rose-500' : i.confidence >= 0.8 ? 'bg-emerald-500' : 'bg-amber-500'}`} />
+                    <select className="custom-input !p-2 flex-1 min-w-0" value={i.foodId ?? ''} onChange={e => updateParsed(i.uid, { foodId: e.target.value || null, confidence: 1 })}>
+                      <option value="">Unmatched</option>
+                      {entries.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                    </select>
+                    <input type="number" min={0} className="custom-input !w-20 !p-2 text-right" value={i.grams} onChange={e => updateParsed(i.uid, { grams: Math.max(0, Number(e.target.value)) })} />
+                    <span className="text-[10px] text-gray-600 font-mono">g</span>
+                    <button onClick={() => setParsed(p => p && p.filter(x => x.uid !== i.uid))} className="p-1 text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+                  </div>
+                  <div className="text-[9px] font-mono text-gray-600 mt-1 truncate">"{i.text}"{i.note && ` • ${i.note}`}</div>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => setParsed(null)} className="py-2 rounded-xl border border-gray-800 text-[10px] font-bold uppercase tracking-wider text-gray-500">Edit Text</button>
+                <button onClick={confirmParsed} disabled={confirmable.length === 0} className="py-2 rounded-xl bg-emerald-500/20 border border-emerald-500/40 text-[10px] font-bold uppercase tracking-wider text-emerald-300 disabled:opacity-30">Add {confirmable.length} Items</button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Logged Items */}
+        <div className="space-y-2 mb-6">
+          {items.length === 0 && <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center py-2">Nothing logged</div>}
+          {items.map(i => (
+            <div key={i.uid} className="flex items-center gap-2 bg-black/40 p-2 rounded-xl border border-gray-800">
+              <div className="flex-1 text-xs text-gray-300 truncate">{i.name}</div>
+              <input type="number" min={0} className="custom-input !w-24 !p-2 text-right" value={i.amount} onChange={e => updateAmount(i.uid, Number(e.target.value))} />
+              <span className="text-[10px] text-gray-600 font-mono">g</span>
+              <button onClick={() => removeItem(i.uid)} className="p-2 text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+
+        {/* Recent & Frequent */}
+        {!query.trim() && [{ l: 'Recent', list: recent }, { l: 'Frequent', list: frequent }].map(g => g.list.length > 0 && (
+          <div key={g.l} className="mb-3">
+            <div className="text-[9px] text-gray-600 uppercase font-bold mb-1">{g.l}</div>
+            <div className="flex flex-wrap gap-1">
+              {g.list.map(e => (
+                <button key={e.id} onClick={() => addItem(e)} className="px-2 py-1 rounded-lg bg-black/40 border border-gray-800 text-[10px] text-gray-400 hover:text-emerald-300 hover:border-emerald-800">{e.name}</button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* Picker */}
+        <div className="flex gap-2 mb-3">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-600" />
+            <input className="custom-input !pl-9" placeholder="Search foods" value={query} onChange={e => setQuery(e.target.value)} />
+          </div>
+          <input type="number" min={1} className="custom-input !w-24 text-right" value={grams} onChange={e => setGrams(Number(e.target.value))} />
+        </div>
+        <div className="space-y-1">
+          {results.map(e => (
+            <div key={e.id} className="rounded-xl hover:bg-gray-900">
+              <button onClick={() => addItem(e)} className="w-full flex items-center justify-between p-3 text-left group">
+                <div className="flex items-center gap-2">
+                  {e.composed && <ChefHat size={12} className="text-emerald-500" />}
+                  <span className="text-xs text-gray-300">{e.name}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-[10px] font-mono text-gray-600">{(e.macros.cal * grams).toFixed(0)} kcal</span>
+                  <Plus size={14} className="text-gray-600 group-hover:text-emerald-400" />
+                </div>
+              </button>
+              {e.servings && (
+                <div className="flex flex-wrap gap-1 px-3 pb-2 -mt-1">
+                  {e.servings.map(sv => (
+                    <button key={sv.l} onClick={() => addItem(e, sv.g)} className="px-2 py-0.5 rounded-md border border-gray-800 text-[9px] font-mono text-gray-500 hover:text-emerald-300">+ {sv.l} ({sv.g}g)</button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {results.length === 0 && <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center py-2">No matches</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
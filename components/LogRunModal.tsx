@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { RunEntry } from '../types';
+import { createId } from '../lib/id';
+import { formatPace } from '../lib/training';
+
+interface LogRunModalProps {
+  onSave: (run: RunEntry) => void;
+  onClose: () => void;
+}
+
+export default function LogRunModal({ onSave, onClose }: LogRunModalProps) {
+  const [distance, setDistance] = useState(5);
+  const [duration, setDuration] = useState(30);
+  const valid = distance > 0 && duration > 0;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">Log Run</h3>
+        <div className="space-y-4">
+          <div><label className="text-[10px] text-gray-500 uppercase font-bold">Distance (km)</label><input type="number" step="0.01" min={0} className="custom-input" value={distance} onChange={e => setDistance(Number(e.target.value))} /></div>
+          <div><label className="text-[10px] text-gray-500 uppercase font-bold">Duration (min)</label><input type="number" step="0.5" min={0} className="custom-input" value={duration} onChange={e => setDuration(Number(e.target.value))} /></div>
+          <div className="flex justify-between items-center bg-orange-900/10 p-4 rounded-xl border border-orange-500/20">
+            <span className="text-xs font-bold text-orange-300 uppercase">Pace</span>
+            <span className="text-2xl font-mono font-bold text-orange-400">{formatPace(duration, distance)} <span className="text-xs text-gray-500">/km</span></span>
+          </div>
+          <button disabled={!valid} onClick={() => { onSave({ uid: createId(), distance, duration }); onClose(); }} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-30">Save Run</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import React from 'react';
+import { CHART_RANGES, ChartRange } from '../lib/chart';
+
+interface RangeSelectorProps {
+  value: ChartRange;
+  onChange: (range: ChartRange) => void;
+}
+
+export default function RangeSelector({ value, onChange }: RangeSelectorProps) {
+  return (
+    <div className="flex gap-1">
+      {CHART_RANGES.map(r => (
+        <button key={r.id} onClick={() => onChange(r.id)} className={`px-2 py-0.5 rounded-md text-[9px] font-bold uppercase tracking-wider ${value === r.id ? 'bg-white text-black' : 'text-gray-500 hover:text-white'}`}>{r.l}</button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Bell, X } from 'lucide-react';
+
+export interface ReminderNotice {
+  id: string;
+  title: string;
+  body: string;
+}
+
+interface ReminderBannerProps {
+  items: ReminderNotice[];
+  onDismiss: (id: string) => void;
+}
+
+// In-app stand-in for reminders that could not be shown as system notifications
+export default function ReminderBanner({ items, onDismiss }: ReminderBannerProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-6">
+      {items.map(n => (
+        <div key={n.id} className="flex items-start gap-3 p-4 rounded-2xl border border-yellow-900/40 bg-yellow-950/10 animate-in fade-in slide-in-from-top-2 duration-300">
+          <Bell size={16} className="text-yellow-400 shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-bold text-white">{n.title}</div>
+            <div className="text-[10px] font-mono text-gray-500">{n.body}</div>
+          </div>
+          <button onClick={() => onDismiss(n.id)} title="Dismiss" className="text-gray-600 hover:text-white"><X size={14} /></button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Reminder, ReminderKind, SMART_RULES, SmartRule, reminderSchedule } from '../lib/reminders';
+import { createId } from '../lib/id';
+
+interface ReminderModalProps {
+  reminder: Reminder | null; // null creates a new reminder
+  onSave: (reminder: Reminder) => void;
+  onClose: () => void;
+}
+
+const KINDS: { id: ReminderKind; l: string }[] = [
+  { id: 'fixed', l: 'At a Time' },
+  { id: 'interval', l: 'Interval' },
+  { id: 'smart', l: 'Smart' },
+];
+
+const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const clockOk = (v?: string) => !!v && /^\d{2}:\d{2}$/.test(v);
+
+export default function ReminderModal({ reminder, onSave, onClose }: ReminderModalProps) {
+  const [draft, setDraft] = useState<Reminder>(reminder || {
+    id: `rem_${createId()}`,
+    kind: 'fixed',
+    title: '',
+    enabled: true,
+    time: '08:30',
+  });
+
+  const days = draft.days ?? ALL_DAYS;
+  const valid = draft.title.trim() !== '' && days.length > 0 && (
+    draft.kind === 'fixed' ? clockOk(draft.time)
+    : draft.kind === 'interval' ? (draft.every ?? 0) >= 5 && clockOk(draft.from) && clockOk(draft.to) && draft.from! < draft.to!
+    : draft.rule === 'windDown' ? (draft.lead ?? -1) >= 0
+    : clockOk(draft.time) && (draft.rule !== 'hydration' || ((draft.threshold ?? 0) > 0 && (draft.threshold ?? 0) <= 100))
+  );
+
+  const setKind = (kind: ReminderKind) => setDraft({
+    id: draft.id,
+    title: draft.title,
+    enabled: draft.enabled,
+    days: draft.days,
+    kind,
+    ...(kind === 'fixed' ? { time: draft.time ?? '08:30' } : {}),
+    ...(kind === 'interval' ? { every: draft.every ?? 60, from: draft.from ?? '09:00', to: draft.to ?? '18:00' } : {}),
+    ...(kind === 'smart' ? { rule: 'hydration' as SmartRule, time: draft.time ?? '14:00', threshold: 50 } : {}),
+  });
+
+  const setRule = (rule: SmartRule) => setDraft({
+    ...draft,
+    rule,
+    time: rule === 'windDown' ? undefined : draft.time ?? '14:00',
+    threshold: rule === 'hydration' ? draft.threshold ?? 50 : undefined,
+    lead: rule === 'windDown' ? draft.lead ?? 45 : undefined,
+  });
+
+  const toggleDay = (d: number) => {
+    const next = days.includes(d) ? days.filter(x => x !== d) : [...days, d].sort();
+    setDraft({ ...draft, days: next.length === 7 ? undefined : next });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-md max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">{reminder ? 'Edit Reminder' : 'New Reminder'}</h3>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {KINDS.map(k => (
+              <button key={k.id} onClick={() => setKind(k.id)} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider ${draft.kind === k.id ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{k.l}</button>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold">Title</label>
+            <input className="custom-input" value={draft.title} placeholder="Drink water" onChange={e => setDraft({ ...draft, title: e.target.value })} />
+          </div>
+
+          {draft.kind === 'smart' && (
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Rule</label>
+              <select className="custom-input" value={draft.rule} onChange={e => setRule(e.target.value as SmartRule)}>
+                {SMART_RULES.map(r => <option key={r.id} value={r.id}>{r.l}</option>)}
+              </select>
+            </div>
+          )}
+
+          {(draft.kind === 'fixed' || (draft.kind === 'smart' && draft.rule !== 'windDown')) && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">{draft.kind === 'smart' ? 'Check At' : 'Time'}</label>
+                <input type="time" className="custom-input [color-scheme:dark]" value={draft.time ?? ''} onChange={e => setDraft({ ...draft, time: e.target.value })} />
+              </div>
+              {draft.rule === 'hydration' && (
+                <div>
+                  <label className="text-[10px] text-gray-500 uppercase font-bold">Below % of Target</label>
+                  <input type="number" min={1} max={100} className="custom-input" value={draft.threshold ?? ''} onChange={e => setDraft({ ...draft, threshold: Number(e.target.value) })} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {draft.kind === 'smart' && draft.rule === 'windDown' && (
+            <div>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">Minutes Before Bedtime</label>
+              <input type="number" min={0} step={5} className="custom-input" value={draft.lead ?? ''} onChange={e => setDraft({ ...draft, lead: Number(e.target.value) })} />
+            </div>
+          )}
+
+          {draft.kind === 'interval' && (
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">Every (min)</label>
+                <input type="number" min={5} step={5} className="custom-input" value={draft.every ?? ''} onChange={e => setDraft({ ...draft, every: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">From</label>
+                <input type="time" className="custom-input [color-scheme:dark]" value={draft.from ?? ''} onChange={e => setDraft({ ...draft, from: e.target.value })} />
+              </div>
+              <div>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">To</label>
+                <input type="time" className="custom-input [color-scheme:dark]" value={draft.to ?? ''} onChange={e => setDraft({ ...draft, to: e.target.value })} />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold block mb-1">Days</label>
+            <div className="grid grid-cols-7 gap-1">
+              {DAYS.map((l, d) => (
+                <button key={d} onClick={() => toggleDay(d)} className={`py-2 rounded-lg border text-[10px] font-bold ${days.includes(d) ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{l}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-[10px] font-mono text-gray-500">{valid ? reminderSchedule(draft) : 'Incomplete reminder'}</div>
+
+          <button onClick={() => onSave({ ...draft, title: draft.title.trim() })} disabled={!valid} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs disabled:opacity-40">Save Reminder</button>
+        </div>
+      </div>
+    </div>
+  );
+}
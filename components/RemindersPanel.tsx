@@ -0,0 +1,59 @@
+import React from 'react';
+import { Bell, BellOff, Plus, Pencil, Trash2 } from 'lucide-react';
+import { Reminder, ReminderSettings, reminderSchedule } from '../lib/reminders';
+import { NotificationStatus } from '../services/notifications';
+import SectionHeader from './SectionHeader';
+
+interface RemindersPanelProps {
+  settings: ReminderSettings;
+  status: NotificationStatus;
+  onEnableNotifications: () => void;
+  onToggle: (id: string) => void;
+  onAdd: () => void;
+  onEdit: (reminder: Reminder) => void;
+  onDelete: (id: string) => void;
+}
+
+const STATUS_TEXT: Record<NotificationStatus, string> = {
+  granted: 'System notifications on. Reminders fire while MetrixOS is open in a tab, even in the background. While the vault is locked only timed and interval reminders fire, without their titles; smart ones need the vault unlocked.',
+  default: 'Allow notifications to get reminders outside this tab and while the vault is locked. Until then they show as banners while the app is unlocked.',
+  denied: 'Notifications are blocked in this browser, so reminders show as banners while the app is unlocked.',
+  unsupported: 'This browser has no notifications, so reminders show as banners while the app is unlocked.',
+};
+
+export default function RemindersPanel({ settings, status, onEnableNotifications, onToggle, onAdd, onEdit, onDelete }: RemindersPanelProps) {
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-yellow-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Bell} title="Reminders" color="text-yellow-400" right={
+        <button onClick={onAdd} className="text-gray-500 hover:text-white"><Plus size={16} /></button>
+      } />
+
+      <div className="flex items-center justify-between gap-4 bg-black/40 p-3 rounded-xl border border-gray-800 mb-4">
+        <span className="flex items-start gap-2 text-[10px] text-gray-500 leading-relaxed">
+          {status === 'granted' ? <Bell size={12} className="text-emerald-500 shrink-0 mt-0.5" /> : <BellOff size={12} className="text-gray-600 shrink-0 mt-0.5" />}
+          {STATUS_TEXT[status]}
+        </span>
+        {status === 'default' && (
+          <button onClick={onEnableNotifications} className="shrink-0 px-3 py-1.5 rounded-lg bg-white text-black text-[10px] font-bold uppercase tracking-wider">Allow</button>
+        )}
+      </div>
+
+      {settings.reminders.length === 0 && <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center">No reminders</div>}
+      <div className="space-y-2">
+        {settings.reminders.map(r => (
+          <div key={r.id} className="group flex items-center justify-between gap-3 bg-black/40 p-3 rounded-xl border border-gray-800">
+            <div className="min-w-0">
+              <div className={`text-xs truncate ${r.enabled ? 'text-white' : 'text-gray-500'}`}>{r.title}</div>
+              <div className="text-[10px] font-mono text-gray-600 truncate">{reminderSchedule(r)}</div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <button onClick={() => onEdit(r)} className="text-gray-700 hover:text-white opacity-0 group-hover:opacity-100"><Pencil size={12} /></button>
+              <button onClick={() => onDelete(r.id)} className="text-gray-700 hover:text-rose-400 opacity-0 group-hover:opacity-100"><Trash2 size={12} /></button>
+              <button onClick={() => onToggle(r.id)} className={`w-10 py-1 rounded-md border text-[9px] font-bold uppercase ${r.enabled ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>{r.enabled ? 'On' : 'Off'}</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
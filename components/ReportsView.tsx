@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { FileBarChart, ChevronLeft, ChevronRight, Download, Printer } from 'lucide-react';
+import { DayHistory } from '../types';
+import { PeriodKind, buildReport, formatDelta, formatStat, listPeriods, periodStart, reportHtml, shiftPeriod } from '../lib/reports';
+import { downloadText } from '../services/files';
+import SectionHeader from './SectionHeader';
+
+interface ReportsViewProps {
+  history: DayHistory;
+  date: string; // selected day, the default period contains it
+}
+
+const KINDS: { id: PeriodKind; l: string }[] = [
+  { id: 'week', l: 'Weekly' },
+  { id: 'month', l: 'Monthly' },
+];
+
+export default function ReportsView({ history, date }: ReportsViewProps) {
+  const [kind, setKind] = useState<PeriodKind>('week');
+  const [start, setStart] = useState(() => periodStart(date, 'week'));
+
+  const periods = useMemo(() => listPeriods(history, kind), [history, kind]);
+  const report = useMemo(() => buildReport(history, kind, start), [history, kind, start]);
+  const oldest = periods[periods.length - 1];
+  const newest = periods[0];
+
+  const switchKind = (next: PeriodKind) => {
+    setKind(next);
+    setStart(periodStart(start, next));
+  };
+
+  const exportHtml = () => downloadText(`metrix-report-${report.label.replace(/\s+/g, '-').toLowerCase()}.html`, reportHtml(report), 'text/html');
+
+  const print = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(reportHtml(report));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const maxBin = Math.max(1, ...report.distribution);
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-sky-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={FileBarChart} title="Reports" color="text-sky-400" right={
+        <div className="flex gap-1">
+          {KINDS.map(k => (
+            <button key={k.id} onClick={() => switchKind(k.id)} className={`px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-wider ${kind === k.id ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500 hover:text-white'}`}>{k.l}</button>
+          ))}
+        </div>
+      } />
+
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={() => setStart(shiftPeriod(start, kind, -1))} disabled={!oldest || start <= oldest} className="p-2 text-gray-500 hover:text-white disabled:opacity-20"><ChevronLeft size={16} /></button>
+        <div className="text-center">
+          <div className="text-sm font-bold text-white font-mono">{report.label}</div>
+          <div className="text-[10px] text-gray-500 font-mono">{report.start} – {report.end} • {report.days}/{report.length} days • vs {report.previousLabel}</div>
+        </div>
+        <button onClick={() => setStart(shiftPeriod(start, kind, 1))} disabled={!newest || start >= newest} className="p-2 text-gray-500 hover:text-white disabled:opacity-20"><ChevronRight size={16} /></button>
+      </div>
+
+      {report.days === 0 ? (
+        <div className="text-[10px] text-gray-600 uppercase tracking-wider text-center py-10 border border-dashed border-gray-800 rounded-2xl">No days logged in this period</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-[11px] font-mono">
+              <thead>
+                <tr className="text-[9px] text-gray-500 uppercase">
+                  <th className="text-left font-bold pb-2">Metric</th>
+                  <th className="text-right font-bold pb-2">Mean</th>
+                  <th className="text-right font-bold pb-2">Median</th>
+                  <th className="text-right font-bold pb-2">SD</th>
+                  <th className="text-right font-bold pb-2">Range</th>
+                  <th className="text-right font-bold pb-2">Δ Mean</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.metrics.map(m => {
+                  const c = m.current;
+                  const tone = m.delta === null || !m.metric.polarity || m.delta === 0 ? 'text-gray-500' : m.delta * m.metric.polarity > 0 ? 'text-emerald-400' : 'text-rose-400';
+                  return (
+                    <tr key={m.metric.id} className="border-t border-gray-900">
+                      <td className="py-1.5 text-gray-300 font-sans">{m.metric.l} <span className="text-gray-600">{m.metric.unit}</span></td>
+                      <td className="py-1.5 text-right text-white">{c ? formatStat(c.mean, m.metric) : '–'}</td>
+                      <td className="py-1.5 text-right text-gray-400">{c ? formatStat(c.median, m.metric) : '–'}</td>
+                      <td className="py-1.5 text-right text-gray-400">{c ? formatStat(c.sd, m.metric) : '–'}</td>
+                      <td className="py-1.5 text-right text-gray-500">{c ? `${formatStat(c.min, m.metric)}–${formatStat(c.max, m.metric)}` : '–'}</td>
+                      <td className={`py-1.5 text-right ${tone}`}>{formatDelta(m)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">Score Distribution</div>
+              <div className="flex items-end gap-1 h-24">
+                {report.distribution.map((n, i) => (
+                  <div key={i} className="flex-1 h-full flex flex-col justify-end items-center gap-1" title={`${i * 10}–${i * 10 + 9}: ${n} days`}>
+                    <div className="w-full bg-sky-500/70 rounded-sm" style={{ height: `${(n / maxBin) * 100}%`, minHeight: n ? 2 : 0 }} />
+                    <span className="text-[8px] text-gray-600 font-mono">{i * 10}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {[{ l: 'Best Days', days: report.best, c: 'text-emerald-400' }, { l: 'Worst Days', days: report.worst, c: 'text-rose-400' }].map(col => (
+                <div key={col.l}>
+                  <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">{col.l}</div>
+                  {col.days.length === 0 && <div className="text-[10px] text-gray-600">–</div>}
+                  {col.days.map(d => (
+                    <div key={d.date} className="flex justify-between text-[11px] font-mono py-0.5">
+                      <span className="text-gray-400">{d.date}</span>
+                      <span className={col.c}>{d.score.toFixed(0)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={exportHtml} disabled={report.days === 0} className="py-3 bg-black/40 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2 disabled:opacity-30"><Download size={14} /> Export HTML</button>
+        <button onClick={print} disabled={report.days === 0} className="py-3 bg-black/40 border border-gray-800 rounded-xl text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2 disabled:opacity-30"><Printer size={14} /> Print / PDF</button>
+      </div>
+    </div>
+  );
+}
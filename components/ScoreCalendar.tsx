@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { DayHistory } from '../types';
+import { calendarWeeks } from '../lib/chart';
+import { mean } from '../lib/stats';
+import SectionHeader from './SectionHeader';
+import CalendarHeatmap from './CalendarHeatmap';
+
+interface ScoreCalendarProps {
+  history: DayHistory;
+  date: string; // last day shown
+}
+
+const WEEKS = 26;
+
+export default function ScoreCalendar({ history, date }: ScoreCalendarProps) {
+  const values = useMemo(() => {
+    const out: Record<string, number> = {};
+    Object.keys(history).forEach(d => {
+      if (d <= date && Number.isFinite(history[d].score)) out[d] = history[d].score;
+    });
+    return out;
+  }, [history, date]);
+
+  const first = calendarWeeks(date, WEEKS)[0][0];
+  const shown = Object.keys(values).filter(d => d >= first).map(d => values[d]);
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-emerald-900/30 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={CalendarDays} title="System Score Calendar" color="text-emerald-400" right={
+        shown.length > 0 && <span className="text-xs font-mono text-gray-400">{shown.length} days • avg {mean(shown).toFixed(0)}</span>
+      } />
+      <CalendarHeatmap values={values} end={date} weeks={WEEKS} />
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { DayHistory, ScoringParams, ScoringSettings } from '../types';
+import { MacroSet, SCORING_PRESETS, scoreRecord } from '../lib/scoring';
+import { generateSmoothPath } from '../lib/chart';
+
+interface ScoringModalProps {
+  settings: ScoringSettings;
+  history: DayHistory;
+  targets: MacroSet;
+  hydrationTarget: number;
+  onApply: (settings: ScoringSettings) => void;
+  onClose: () => void;
+}
+
+type Domain = keyof ScoringParams;
+
+// Editable parameters per domain, in display order
+const DOMAINS: { id: Domain; l: string; color: string; fields: { k: string; l: string; unit: string; step: number }[] }[] = [
+  { id: 'sleep', l: 'Sleep', color: 'text-violet-400', fields: [
+    { k: 'target', l: 'Target', unit: 'min', step: 15 },
+    { k: 'tolerance', l: 'Tolerance (σ)', unit: 'min', step: 5 },
+  ] },
+  { id: 'nutrition', l: 'Nutrition', color: 'text-emerald-400', fields: [
+    { k: 'tolerance', l: 'Zero-score deviation', unit: '%', step: 5 },
+  ] },
+  { id: 'hydration', l: 'Hydration', color: 'text-cyan-400', fields: [
+    { k: 'tolerance', l: 'Overshoot allowance', unit: '%', step: 5 },
+  ] },
+  { id: 'physical', l: 'Physical', color: 'text-orange-400', fields: [
+    { k: 'stepsTarget', l: 'Steps target', unit: 'steps', step: 500 },
+    { k: 'volumeTarget', l: 'Volume target', unit: 'kg', step: 500 },
+  ] },
+  { id: 'mind', l: 'Mind', color: 'text-blue-400', fields: [
+    { k: 'screenLimit', l: 'Screen allowance', unit: 'min', step: 15 },
+    { k: 'screenTolerance', l: 'Screen tolerance', unit: 'min', step: 15 },
+    { k: 'studyTarget', l: 'Study target', unit: 'min', step: 15 },
+  ] },
+];
+
+const PREVIEW_DAYS = 30;
+
+// Every parameter of a domain is a number, so the descriptors can index by name
+const domainParams = (params: ScoringParams, domain: Domain): Record<string, number> => params[domain];
+
+export default function ScoringModal({ settings, history, targets, hydrationTarget, onApply, onClose }: ScoringModalProps) {
+  const [draft, setDraft] = useState<ScoringSettings>(settings);
+
+  const setField = (domain: Domain, key: string, value: number) =>
+    setDraft(d => ({ preset: 'custom', params: { ...d.params, [domain]: { ...d.params[domain], [key]: value } } }));
+
+  const totalWeight = DOMAINS.reduce((acc, d) => acc + draft.params[d.id].weight, 0) || 1;
+
+  // Stored scores vs the draft model over the most recent days
+  const preview = useMemo(() => {
+    const dates = Object.keys(history).sort().slice(-PREVIEW_DAYS);
+    const current = dates.map(d => history[d].score);
+    const next = dates.map(d => scoreRecord(history[d], targets, hydrationTarget, draft.params).system);
+    const mean = (a: number[]) => a.length ? a.reduce((x, y) => x + y, 0) / a.length : 0;
+    return { current, next, currentMean: mean(current), nextMean: mean(next) };
+  }, [history, targets, hydrationTarget, draft]);
+
+  const all = [...preview.current, ...preview.next];
+  const bounds: [number, number] = [Math.min(...all) - 5, Math.max(...all) + 5];
+  const delta = preview.nextMean - preview.currentMean;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-[#0A0A0A] border border-gray-800 w-full max-w-lg max-h-full overflow-y-auto rounded-3xl p-8 shadow-2xl relative">
+        <button onClick={onClose} className="absolute top-6 right-6 text-gray-500 hover:text-white"><X size={18} /></button>
+        <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-6">Scoring Model</h3>
+
+        {/* Presets */}
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {SCORING_PRESETS.map(p => (
+            <button key={p.id} onClick={() => setDraft({ preset: p.id, params: p.params })} className={`p-3 rounded-xl border text-left transition-colors ${draft.preset === p.id ? 'bg-indigo-950/50 border-indigo-700/50' : 'bg-black/40 border-gray-800 hover:border-gray-700'}`}>
+              <div className={`text-[10px] font-bold uppercase tracking-wider ${draft.preset === p.id ? 'text-indigo-300' : 'text-gray-400'}`}>{p.name}</div>
+              <div className="text-[10px] text-gray-600 leading-snug mt-1">{p.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Live Preview */}
+        <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-6 mb-6 h-32 relative overflow-hidden">
+          <div className="absolute top-2 left-4 text-[10px] text-gray-500 font-bold uppercase">Last {preview.current.length} Days</div>
+          <div className="absolute top-2 right-4 text-[10px] font-mono">
+            <span className="text-gray-500">{preview.currentMean.toFixed(0)} → </span>
+            <span className="text-white">{preview.nextMean.toFixed(0)}</span>
+            <span className={delta >= 0 ? 'text-emerald-500' : 'text-rose-500'}> ({delta >= 0 ? '+' : ''}{delta.toFixed(1)})</span>
+          </div>
+          {all.length > 1 && (
+            <svg className="w-full h-full pt-4" viewBox="0 0 300 60" preserveAspectRatio="none">
+              <path d={generateSmoothPath(preview.current, 300, 60, bounds)} fill="none" stroke="#4b5563" strokeWidth="1.5" strokeLinecap="round" />
+              <path d={generateSmoothPath(preview.next, 300, 60, bounds)} fill="none" stroke="#6366f1" strokeWidth="2" strokeLinecap="round" />
+            </svg>
+          )}
+        </div>
+
+        {/* Domain Parameters */}
+        <div className="space-y-4">
+          {DOMAINS.map(d => (
+            <div key={d.id} className="bg-black/40 p-4 rounded-xl border border-gray-800">
+              <div className="flex justify-between items-center mb-3">
+                <span className={`text-[10px] font-bold uppercase tracking-wider ${d.color}`}>{d.l}</span>
+                <span className="text-[10px] font-mono text-gray-500">{((draft.params[d.id].weight / totalWeight) * 100).toFixed(0)}% of system</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {d.fields.map(f => (
+                  <div key={f.k}>
+                    <label className="text-[9px] text-gray-500 uppercase font-bold">{f.l} ({f.unit})</label>
+                    <input type="number" min={0} step={f.step} className="custom-input !p-2" value={domainParams(draft.params, d.id)[f.k]} onChange={e => setField(d.id, f.k, Math.max(1, Number(e.target.value)))} />
+                  </div>
+                ))}
+                <div>
+                  <label className="text-[9px] text-gray-500 uppercase font-bold">Weight</label>
+                  <input type="number" min={0} step={0.05} className="custom-input !p-2" value={draft.params[d.id].weight} onChange={e => setField(d.id, 'weight', Math.max(0, Number(e.target.value)))} />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={() => onApply(draft)} className="w-full py-4 mt-6 bg-white text-black font-bold uppercase tracking-widest rounded-xl text-xs">Apply & Re-score History</button>
+      </div>
+    </div>
+  );
+}
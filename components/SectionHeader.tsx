@@ -0,0 +1,13 @@
+import React from 'react';
+
+const SectionHeader = ({ icon: Icon, title, right, color }: any) => (
+  <div className="flex justify-between items-center mb-6 pb-2 border-b border-gray-800/50">
+    <div className={`flex items-center gap-3 ${color}`}>
+      <Icon size={18} strokeWidth={2.5} />
+      <span className="font-bold text-xs uppercase tracking-[0.15em]">{title}</span>
+    </div>
+    {right}
+  </div>
+);
+
+export default SectionHeader;
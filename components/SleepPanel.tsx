@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Moon, Sun, Battery, Plus, Trash2 } from 'lucide-react';
+import { SleepState } from '../types';
+import SectionHeader from './SectionHeader';
+import { createId } from '../lib/id';
+import { ChartRange, inRange, rangeStart } from '../lib/chart';
+import { Night, sleepConsistency, sleepDebt } from '../lib/sleep';
+import LineChart from './LineChart';
+import RangeSelector from './RangeSelector';
+
+interface SleepPanelProps {
+  sleep: SleepState;
+  onChange: (sleep: SleepState) => void;
+  score: number;
+  duration: number; // minutes, including naps
+  efficiency: number; // %
+  // Recorded nights, oldest first, ending with the active date
+  nights: Night[];
+  target: number; // minutes
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+}
+
+const formatHours = (min: number) => `${Math.floor(min / 60)}h ${Math.round(min % 60).toString().padStart(2, '0')}m`;
+
+export default function SleepPanel({ sleep, onChange, score, duration, efficiency, nights, target, range, onRangeChange }: SleepPanelProps) {
+  const [nap, setNap] = useState({ start: '14:00', duration: 20 });
+
+  const end = nights[nights.length - 1]?.date ?? '';
+  const shown = inRange(nights, end, range).filter(n => n.duration > 0);
+
+  const debt7 = sleepDebt(nights, target, 7);
+  const debt14 = sleepDebt(nights, target, 14);
+  const consistency = sleepConsistency(nights);
+
+  const addNap = () => {
+    if (nap.duration <= 0) return;
+    onChange({ ...sleep, naps: [...sleep.naps, { uid: createId(), ...nap }] });
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="glass-panel p-6 rounded-3xl border border-violet-900/30">
+        <SectionHeader icon={Moon} title="Circadian Rhythm" color="text-violet-400" right={<span className="text-xs font-mono text-gray-400">{formatHours(duration)} • {efficiency.toFixed(0)}%</span>} />
+
+        {/* Duration Trend */}
+        <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4 mb-6">
+          <div className="flex justify-between items-center mb-3">
+            <span className="text-[10px] text-gray-500 font-bold uppercase">Duration Trend</span>
+            <RangeSelector value={range} onChange={onRangeChange} />
+          </div>
+          <LineChart
+            series={[{ id: 'sleep', label: 'Sleep', color: '#8b5cf6', area: true, points: shown.map(n => ({ date: n.date, value: n.duration / 60 })) }]}
+            bands={[{ from: target / 60 - 0.5, to: target / 60 + 0.5, label: 'Target', color: '#a78bfa' }]}
+            from={rangeStart(end, range, nights[0]?.date)}
+            to={end}
+            format={v => `${v.toFixed(1)}h`}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Bedtime</label>
+            <input type="time" className="custom-input text-xl" value={sleep.bedtime} onChange={e => onChange({ ...sleep, bedtime: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Waketime</label>
+            <input type="time" className="custom-input text-xl" value={sleep.waketime} onChange={e => onChange({ ...sleep, waketime: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Awakenings</label>
+            <input type="number" min={0} className="custom-input" value={sleep.awakenings} onChange={e => onChange({ ...sleep, awakenings: Math.max(0, Number(e.target.value)) })} />
+          </div>
+          <div>
+            <label className="text-[10px] text-gray-500 uppercase font-bold block mb-2">Time Awake (min)</label>
+            <input type="number" min={0} className="custom-input" value={sleep.awakeDuration} onChange={e => onChange({ ...sleep, awakeDuration: Math.max(0, Number(e.target.value)) })} />
+          </div>
+        </div>
+
+        {/* Quality Rating */}
+        <div className="mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-[10px] text-gray-500 uppercase font-bold">Perceived Quality</label>
+            <span className="text-xs font-mono text-violet-300">{sleep.qualityRating}/10</span>
+          </div>
+          <div className="grid grid-cols-10 gap-1">
+            {Array.from({ length: 10 }, (_, i) => i + 1).map(v => (
+              <button key={v} onClick={() => onChange({ ...sleep, qualityRating: v })} className={`h-6 rounded-md border transition-colors ${v <= sleep.qualityRating ? 'bg-violet-500/60 border-violet-500/40' : 'bg-black/40 border-gray-800 hover:border-gray-700'}`} />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center bg-violet-900/10 p-4 rounded-xl border border-violet-500/20">
+          <span className="text-xs font-bold text-violet-300 uppercase">Sleep Score</span>
+          <span className="text-2xl font-mono font-bold text-violet-400">{score.toFixed(0)}</span>
+        </div>
+      </div>
+
+      {/* Naps */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={Sun} title="Naps" color="text-violet-400" right={<span className="text-xs font-mono text-gray-400">{sleep.naps.reduce((acc, n) => acc + n.duration, 0)} min</span>} />
+        <div className="flex gap-2 mb-3">
+          <input type="time" className="custom-input flex-1" value={nap.start} onChange={e => setNap({ ...nap, start: e.target.value })} />
+          <input type="number" min={1} className="custom-input !w-24 text-right" value={nap.duration} onChange={e => setNap({ ...nap, duration: Number(e.target.value) })} />
+          <button onClick={addNap} className="px-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 hover:text-white"><Plus size={14} /></button>
+        </div>
+        <div className="space-y-2">
+          {sleep.naps.map(n => (
+            <div key={n.uid} className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+              <span className="text-xs font-mono text-gray-300">{n.start}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-mono text-gray-500">{n.duration} min</span>
+                <button onClick={() => onChange({ ...sleep, naps: sleep.naps.filter(x => x.uid !== n.uid) })} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Debt & Regularity */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={Battery} title="Debt & Regularity" color="text-violet-400" right={<span className="text-[10px] font-mono text-gray-600">target {formatHours(target)}</span>} />
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          {[
+            { l: '7-Day Debt', v: formatHours(debt7), warn: debt7 > 120 },
+            { l: '14-Day Debt', v: formatHours(debt14), warn: debt14 > 240 },
+          ].map(m => (
+            <div key={m.l} className="bg-black/40 p-3 rounded-xl border border-gray-800">
+              <div className="text-[9px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+              <div className={`text-sm font-mono ${m.warn ? 'text-amber-400' : 'text-white'}`}>{m.v}</div>
+            </div>
+          ))}
+        </div>
+        {consistency ? (
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { l: 'Consistency', v: `${consistency.score.toFixed(0)}/100` },
+              { l: 'Social Jetlag', v: `${consistency.socialJetlag.toFixed(0)} min` },
+              { l: 'Avg Bedtime', v: `${consistency.meanBedtime} ±${consistency.bedtimeSd.toFixed(0)}m` },
+              { l: 'Avg Waketime', v: `${consistency.meanWaketime} ±${consistency.waketimeSd.toFixed(0)}m` },
+            ].map(m => (
+              <div key={m.l} className="bg-black/40 p-3 rounded-xl border border-gray-800">
+                <div className="text-[9px] uppercase text-gray-500 font-bold mb-1">{m.l}</div>
+                <div className="text-sm font-mono text-white">{m.v}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center py-2">Log bed and wake times on 3+ nights for regularity</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useState, useMemo } from 'react';
+import { Dumbbell, Footprints, TrendingUp, Layers, Plus, Trash2 } from 'lucide-react';
+import { EXERCISE_DB } from '../constants';
+import { MuscleGroup, StrengthEntry, TrainingState } from '../types';
+import SectionHeader from './SectionHeader';
+import { createId } from '../lib/id';
+import { ChartRange, inRange, rangeStart } from '../lib/chart';
+import { entryVolume, estimateOneRepMax, formatPace, volumeByMuscle, weekStart } from '../lib/training';
+import LineChart from './LineChart';
+import BarChart from './BarChart';
+import RangeSelector from './RangeSelector';
+
+interface TrainingPanelProps {
+  training: TrainingState;
+  onChange: (training: TrainingState) => void;
+  // Strength entries per date, including the day being edited
+  log: Record<string, StrengthEntry[]>;
+  date: string;
+  onLogRun: () => void;
+  range: ChartRange;
+  onRangeChange: (range: ChartRange) => void;
+}
+
+const MUSCLES: MuscleGroup[] = ['legs', 'back', 'chest', 'shoulders', 'arms', 'core'];
+const MUSCLE_COLORS: Record<MuscleGroup, string> = {
+  legs: '#f97316', back: '#f59e0b', chest: '#ef4444', shoulders: '#ec4899', arms: '#a855f7', core: '#64748b',
+};
+
+export default function TrainingPanel({ training, onChange, log, date, onLogRun, range, onRangeChange }: TrainingPanelProps) {
+  const [form, setForm] = useState({ exerciseId: EXERCISE_DB[0].id, sets: 3, reps: 5, weight: 60 });
+  const [focusExercise, setFocusExercise] = useState(EXERCISE_DB[0].id);
+
+  const sessions = training.strength.sessions;
+  const runs = training.cardio.runs;
+  const dayVolume = sessions.reduce((acc, s) => acc + entryVolume(s), 0);
+
+  const addSet = () => {
+    if (form.sets <= 0 || form.reps <= 0) return;
+    onChange({ ...training, strength: { sessions: [...sessions, { uid: createId(), ...form }] } });
+  };
+
+  const removeSet = (uid: string) =>
+    onChange({ ...training, strength: { sessions: sessions.filter(s => s.uid !== uid) } });
+
+  const removeRun = (uid: string) =>
+    onChange({ ...training, cardio: { ...training.cardio, runs: runs.filter(r => r.uid !== uid) } });
+
+  // Best estimated 1RM per training day for the selected exercise
+  const progression = useMemo(() => Object.keys(log).sort().reduce<{ date: string; e1rm: number; top: StrengthEntry }[]>((acc, d) => {
+    const entries = log[d].filter(e => e.exerciseId === focusExercise);
+    if (entries.length === 0) return acc;
+    const top = entries.reduce((best, e) => estimateOneRepMax(e.weight, e.reps) > estimateOneRepMax(best.weight, best.reps) ? e : best);
+    acc.push({ date: d, e1rm: estimateOneRepMax(top.weight, top.reps), top });
+    return acc;
+  }, []), [log, focusExercise]);
+
+  // Current vs previous ISO week, per muscle group
+  const weekly = useMemo(() => {
+    const current = weekStart(date);
+    const prevDate = new Date(`${current}T00:00:00Z`);
+    prevDate.setUTCDate(prevDate.getUTCDate() - 7);
+    const previous = prevDate.toISOString().split('T')[0];
+    const collect = (start: string) => volumeByMuscle(Object.keys(log).filter(d => weekStart(d) === start).flatMap(d => log[d]));
+    return { current: collect(current), previous: collect(previous) };
+  }, [log, date]);
+
+  // Daily volume per muscle group for the bar chart
+  const dailyVolume = useMemo(() => Object.keys(log).sort().map(d => {
+    const byMuscle = volumeByMuscle(log[d]);
+    return { date: d, values: MUSCLES.map(m => byMuscle[m] || 0) };
+  }), [log]);
+
+  const maxWeekly = Math.max(1, ...MUSCLES.map(m => Math.max(weekly.current[m] || 0, weekly.previous[m] || 0)));
+  const earliest = Object.keys(log).sort()[0];
+  const from = rangeStart(date, range, earliest);
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* Strength Logger */}
+      <div className="glass-panel p-6 rounded-3xl border border-orange-900/30">
+        <SectionHeader icon={Dumbbell} title="Strength Session" color="text-orange-400" right={<span className="text-xs font-mono text-gray-400">{(dayVolume / 1000).toFixed(1)}k kg</span>} />
+
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          <select className="custom-input col-span-4" value={form.exerciseId} onChange={e => setForm({ ...form, exerciseId: e.target.value })}>
+            {EXERCISE_DB.map(ex => <option key={ex.id} value={ex.id}>{ex.name}</option>)}
+          </select>
+          {([['sets', 'Sets'], ['reps', 'Reps'], ['weight', 'Kg']] as const).map(([k, l]) => (
+            <div key={k}>
+              <label className="text-[10px] text-gray-500 uppercase font-bold">{l}</label>
+              <input type="number" min={0} className="custom-input" value={form[k]} onChange={e => setForm({ ...form, [k]: Number(e.target.value) })} />
+            </div>
+          ))}
+          <button onClick={addSet} className="self-end h-[42px] bg-orange-950/50 border border-orange-900/50 rounded-xl flex items-center justify-center text-orange-300 hover:bg-orange-900/50 transition-colors">
+            <Plus size={16} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {sessions.map(s => (
+            <div key={s.uid} className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+              <span className="text-xs text-gray-300">{EXERCISE_DB.find(ex => ex.id === s.exerciseId)?.name}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-mono text-gray-500">{s.sets}×{s.reps} @ {s.weight}kg</span>
+                <button onClick={() => removeSet(s.uid)} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Run Logger */}
+      <div className="glass-panel p-6 rounded-3xl border border-orange-900/30">
+        <SectionHeader icon={Footprints} title="Cardio" color="text-orange-400" right={
+          <button onClick={onLogRun} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white flex items-center gap-1"><Plus size={12} /> Log Run</button>
+        } />
+        <div className="flex items-center justify-between mb-4">
+          <label className="text-[10px] text-gray-500 uppercase font-bold">Steps</label>
+          <input type="number" min={0} step={100} className="custom-input !w-32 text-right" value={training.cardio.steps} onChange={e => onChange({ ...training, cardio: { ...training.cardio, steps: Math.max(0, Math.round(Number(e.target.value))) } })} />
+        </div>
+        {runs.length === 0 && <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center">No runs logged</div>}
+        <div className="space-y-2">
+          {runs.map(r => (
+            <div key={r.uid} className="flex justify-between items-center bg-black/40 p-3 rounded-xl border border-gray-800">
+              <span className="text-xs font-mono text-gray-300">{r.distance.toFixed(2)} km • {r.duration} min{r.source && <span className="ml-2 text-[9px] text-gray-600 uppercase">{r.source}</span>}</span>
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-mono text-orange-400">{formatPace(r.duration, r.distance)} /km</span>
+                <button onClick={() => removeRun(r.uid)} className="text-gray-600 hover:text-rose-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 1RM Progression */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={TrendingUp} title="Estimated 1RM" color="text-orange-400" right={
+          <select className="bg-transparent text-xs text-gray-400 font-mono focus:outline-none" value={focusExercise} onChange={e => setFocusExercise(e.target.value)}>
+            {EXERCISE_DB.map(ex => <option key={ex.id} value={ex.id}>{ex.name}</option>)}
+          </select>
+        } />
+        {progression.length === 0 ? (
+          <div className="text-[10px] text-gray-600 font-mono uppercase tracking-widest text-center">No history for this lift</div>
+        ) : (
+          <>
+            <div className="bg-[#050505] rounded-2xl border border-gray-800/50 p-4 mb-4">
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-[10px] text-gray-500 font-bold uppercase">Best {progression[progression.length - 1].e1rm.toFixed(1)} kg</span>
+                <RangeSelector value={range} onChange={onRangeChange} />
+              </div>
+              <LineChart
+                series={[{ id: 'e1rm', label: 'e1RM', color: '#f97316', points: inRange(progression.map(p => ({ date: p.date, value: p.e1rm })), date, range) }]}
+                from={from}
+                to={date}
+                format={v => `${Math.round(v)}`}
+              />
+            </div>
+            <div className="space-y-1">
+              {progression.slice(-5).reverse().map(p => (
+                <div key={p.date} className="flex justify-between text-xs font-mono">
+                  <span className="text-gray-500">{p.date}</span>
+                  <span className="text-gray-400">{p.top.sets}×{p.top.reps} @ {p.top.weight}kg</span>
+                  <span className="text-white">{p.e1rm.toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Weekly Volume */}
+      <div className="glass-panel p-6 rounded-3xl border border-gray-800">
+        <SectionHeader icon={Layers} title="Volume" color="text-orange-400" right={<RangeSelector value={range} onChange={onRangeChange} />} />
+        <div className="mb-6">
+          <BarChart
+            data={dailyVolume}
+            series={MUSCLES.map(m => ({ label: m, color: MUSCLE_COLORS[m] }))}
+            from={from}
+            to={date}
+            height={140}
+            format={v => v >= 1000 ? `${(v / 1000).toFixed(1)}k` : `${Math.round(v)}`}
+          />
+        </div>
+        <div className="flex justify-between text-[10px] uppercase font-bold mb-3">
+          <span className="text-gray-500">This week</span>
+          <span className="font-mono text-gray-600">vs last week</span>
+        </div>
+        <div className="space-y-3">
+          {MUSCLES.map(m => {
+            const cur = weekly.current[m] || 0;
+            const prev = weekly.previous[m] || 0;
+            return (
+              <div key={m}>
+                <div className="flex justify-between text-[10px] uppercase font-bold mb-1">
+                  <span className="text-gray-500">{m}</span>
+                  <span className="font-mono text-gray-400">{(cur / 1000).toFixed(1)}k <span className="text-gray-600">/ {(prev / 1000).toFixed(1)}k</span></span>
+                </div>
+                <div className="h-1 bg-gray-800 rounded-full overflow-hidden mb-0.5">
+                  <div className="h-full bg-orange-500" style={{ width: `${(cur / maxWeekly) * 100}%` }} />
+                </div>
+                <div className="h-0.5 bg-gray-900 rounded-full overflow-hidden">
+                  <div className="h-full bg-gray-600" style={{ width: `${(prev / maxWeekly) * 100}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useRef } from 'react';
+import MetrixOS from '../App';
+import LockScreen from './LockScreen';
+import { VaultConfig, eraseVault, loadVault, lockVault, setupVault, unlockVault } from '../services/vault';
+import { initNotifications } from '../services/notifications';
+import { fireLockedReminders } from '../services/reminders';
+
+// Activity that keeps the vault open
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+const IDLE_CHECK = 15_000; // ms
+const REMINDER_CHECK = 60_000; // ms
+
+/**
+ * Mounts the app only while the vault is open. Locking unmounts it, so no
+ * decrypted state outlives the key.
+ */
+export default function VaultGate() {
+  const [phase, setPhase] = useState<'loading' | 'setup' | 'locked' | 'open'>('loading');
+  const [config, setConfig] = useState<VaultConfig | null>(null);
+  const lastActive = useRef(Date.now());
+  const locking = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    initNotifications();
+    loadVault()
+      .then(c => {
+        setConfig(c ?? null);
+        setPhase(c ? 'locked' : 'setup');
+      })
+      .catch(err => console.error('MetrixOS: failed to open storage', err));
+  }, []);
+
+  // Unmount the app first so nothing writes after the key is dropped; an
+  // unlock waits for the pending writes to be sealed
+  const lock = () => {
+    setPhase('locked');
+    locking.current = lockVault();
+  };
+
+  // Idle auto-lock; wall-clock based so a suspended tab locks on return
+  useEffect(() => {
+    if (phase !== 'open' || !config?.autoLockMinutes) return;
+    const limit = config.autoLockMinutes * 60_000;
+    const touch = () => { lastActive.current = Date.now(); };
+    const check = () => { if (Date.now() - lastActive.current > limit) lock(); };
+    touch();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const interval = setInterval(check, IDLE_CHECK);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, touch));
+      document.removeEventListener('visibilitychange', check);
+      clearInterval(interval);
+    };
+  }, [phase, config?.autoLockMinutes]);
+
+  // The app schedules reminders while open; while locked only the
+  // unencrypted fixed and interval copy can be checked
+  useEffect(() => {
+    if (phase !== 'locked') return;
+    const check = () => { fireLockedReminders().catch(err => console.error('MetrixOS: failed to check reminders', err)); };
+    check();
+    const interval = setInterval(check, REMINDER_CHECK);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  if (phase === 'loading') return <div className="min-h-screen bg-black" />;
+
+  if (phase === 'open' && config) return <MetrixOS vault={config} onVaultChange={setConfig} onLock={lock} />;
+
+  return (
+    <LockScreen
+      mode={phase === 'setup' ? 'setup' : 'unlock'}
+      onSetup={async passphrase => {
+        setConfig(await setupVault(passphrase));
+        setPhase('open');
+      }}
+      onUnlock={async passphrase => {
+        await locking.current;
+        if (!config || !(await unlockVault(config, passphrase))) return false;
+        setPhase('open');
+        return true;
+      }}
+      onErase={async () => {
+        await eraseVault();
+        setConfig(null);
+        setPhase('setup');
+      }}
+    />
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Lock, KeyRound } from 'lucide-react';
+import { AUTO_LOCK_OPTIONS, MIN_PASSPHRASE, VaultConfig, changePassphrase, setAutoLock } from '../services/vault';
+import SectionHeader from './SectionHeader';
+
+interface VaultSettingsProps {
+  config: VaultConfig;
+  onChange: (config: VaultConfig) => void;
+  onLock: () => void;
+}
+
+const emptyForm = { current: '', next: '', confirm: '' };
+
+export default function VaultSettings({ config, onChange, onLock }: VaultSettingsProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const updateAutoLock = async (minutes: number) => {
+    try {
+      onChange(await setAutoLock(config, minutes));
+    } catch (err) {
+      console.error('MetrixOS: saving auto-lock failed', err);
+      setMessage({ ok: false, text: 'Could not save the auto-lock setting.' });
+    }
+  };
+
+  const submit = async () => {
+    if (form.next.length < MIN_PASSPHRASE) return setMessage({ ok: false, text: `Use at least ${MIN_PASSPHRASE} characters.` });
+    if (form.next !== form.confirm) return setMessage({ ok: false, text: 'New passphrases do not match.' });
+    setBusy(true);
+    setMessage(null);
+    try {
+      const next = await changePassphrase(config, form.current, form.next);
+      if (!next) {
+        setMessage({ ok: false, text: 'Current passphrase is wrong.' });
+        return;
+      }
+      onChange(next);
+      setForm(emptyForm);
+      setMessage({ ok: true, text: 'Passphrase changed; all records re-encrypted.' });
+    } catch (err) {
+      console.error('MetrixOS: re-encryption failed', err);
+      setMessage({ ok: false, text: 'Re-encryption failed; the old passphrase still applies.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-3xl border border-gray-800 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <SectionHeader icon={Lock} title="Vault Security" color="text-gray-400" right={
+        <button onClick={onLock} className="text-[10px] font-bold uppercase tracking-wider text-indigo-400 hover:text-indigo-300">Lock Now</button>
+      } />
+
+      <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">Auto-Lock When Idle</div>
+      <div className="grid grid-cols-5 gap-2 mb-6">
+        {AUTO_LOCK_OPTIONS.map(m => (
+          <button key={m} onClick={() => updateAutoLock(m)} disabled={busy} className={`py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider disabled:opacity-30 ${config.autoLockMinutes === m ? 'bg-white text-black border-white' : 'border-gray-800 text-gray-500'}`}>
+            {m === 0 ? 'Never' : `${m}m`}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-[10px] text-gray-500 uppercase font-bold mb-2">Change Passphrase</div>
+      <div className="space-y-2">
+        <input type="password" autoComplete="current-password" placeholder="Current" className="custom-input" value={form.current} onChange={e => setForm({ ...form, current: e.target.value })} />
+        <div className="grid grid-cols-2 gap-2">
+          <input type="password" autoComplete="new-password" placeholder="New" className="custom-input" value={form.next} onChange={e => setForm({ ...form, next: e.target.value })} />
+          <input type="password" autoComplete="new-password" placeholder="Confirm" className="custom-input" value={form.confirm} onChange={e => setForm({ ...form, confirm: e.target.value })} />
+        </div>
+        <button onClick={submit} disabled={busy || !form.current || !form.next} className="w-full p-3 bg-gray-900 border border-gray-800 rounded-xl text-xs font-bold text-gray-400 hover:text-white uppercase tracking-wider flex items-center justify-center gap-2 disabled:opacity-30">
+          <KeyRound size={14} /> {busy ? 'Re-encrypting…' : 'Change & Re-encrypt'}
+        </button>
+        {message && <div className={`text-[10px] font-mono ${message.ok ? 'text-emerald-400' : 'text-rose-400'}`}>{message.text}</div>}
+      </div>
+      <div className="text-[9px] font-mono text-gray-600 mt-4">PBKDF2-SHA256 ({config.kdf.iterations.toLocaleString()} rounds) • AES-256-GCM</div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { BmrFormula, Exercise, Ingredient, IntakeKind, MealSlot, NutrientKey, ScreenCategory, StudyCategory, UserProfile } from './types';
+
+// Built-in DBs; custom foods are persisted separately
+export const INGREDIENTS_DB: Ingredient[] = [
+  { id: '1', name: 'Chicken Breast (Raw)', macros: { cal: 1.1, p: 0.23, c: 0, f: 0.01, fiber: 0, sugar: 0, sodium: 0.45, potassium: 3.7, calcium: 0.05, iron: 0.004, vitaminC: 0 }, piece: 175, servings: [{ l: 'breast', g: 175 }] },
+  { id: '2', name: 'White Rice (Raw)', macros: { cal: 3.6, p: 0.07, c: 0.80, f: 0.01, fiber: 0.013, sugar: 0.001, sodium: 0.05, potassium: 1.15, calcium: 0.28, iron: 0.008, vitaminC: 0 }, density: 0.78, servings: [{ l: 'cup', g: 185 }] },
+  { id: '3', name: 'Almonds', macros: { cal: 5.79, p: 0.21, c: 0.22, f: 0.49, fiber: 0.125, sugar: 0.044, sodium: 0.01, potassium: 7.33, calcium: 2.69, iron: 0.037, vitaminC: 0 }, density: 0.6, piece: 1.2, servings: [{ l: 'handful', g: 28 }] },
+  { id: '4', name: 'Olive Oil', macros: { cal: 8.84, p: 0, c: 0, f: 1.0, fiber: 0, sugar: 0, sodium: 0.02, potassium: 0.01, calcium: 0.01, iron: 0.0056, vitaminC: 0 }, density: 0.91, servings: [{ l: 'tbsp', g: 13.5 }] },
+  { id: '5', name: 'Oats (Raw)', macros: { cal: 3.89, p: 0.16, c: 0.66, f: 0.06, fiber: 0.106, sugar: 0.01, sodium: 0.02, potassium: 4.29, calcium: 0.54, iron: 0.047, vitaminC: 0 }, density: 0.34, servings: [{ l: '1/2 cup', g: 40 }] },
+  { id: '6', name: 'Whey Isolate', macros: { cal: 3.7, p: 0.90, c: 0.01, f: 0.01, fiber: 0, sugar: 0.01, sodium: 2.0, potassium: 5.0, calcium: 3.0, iron: 0.01, vitaminC: 0 }, density: 0.4, piece: 30, servings: [{ l: 'scoop', g: 30 }] },
+];
+
+// Daily reference intakes; `limit` nutrients are ceilings rather than goals
+export const NUTRIENTS: { id: NutrientKey; l: string; unit: string; target: number; limit?: boolean }[] = [
+  { id: 'fiber', l: 'Fibre', unit: 'g', target: 30 },
+  { id: 'sugar', l: 'Sugar', unit: 'g', target: 50, limit: true },
+  { id: 'sodium', l: 'Sodium', unit: 'mg', target: 2300, limit: true },
+  { id: 'potassium', l: 'Potassium', unit: 'mg', target: 3400 },
+  { id: 'calcium', l: 'Calcium', unit: 'mg', target: 1000 },
+  { id: 'iron', l: 'Iron', unit: 'mg', target: 8 },
+  { id: 'vitaminC', l: 'Vitamin C', unit: 'mg', target: 90 },
+];
+
+export const EXERCISE_DB: Exercise[] = [
+  { id: 'str1', name: 'Barbell Squat', type: 'strength', muscle: 'legs', calPerRep: 0.35 },
+  { id: 'str2', name: 'Deadlift', type: 'strength', muscle: 'back', calPerRep: 0.45 },
+  { id: 'str3', name: 'Bench Press', type: 'strength', muscle: 'chest', calPerRep: 0.25 },
+  { id: 'str4', name: 'Overhead Press', type: 'strength', muscle: 'shoulders', calPerRep: 0.20 },
+  { id: 'str5', name: 'Pull Up', type: 'strength', muscle: 'back', calPerRep: 0.30 },
+];
+
+export const MEAL_SLOTS: { id: MealSlot; l: string }[] = [
+  { id: 'breakfast', l: 'Breakfast' },
+  { id: 'lunch', l: 'Lunch' },
+  { id: 'dinner', l: 'Dinner' },
+  { id: 'junk', l: 'Junk' },
+];
+
+export const STUDY_CATEGORIES: { id: StudyCategory; l: string }[] = [
+  { id: 'reading', l: 'Reading' },
+  { id: 'lectures', l: 'Lectures' },
+  { id: 'deepWork', l: 'Deep Work' },
+  { id: 'practice', l: 'Practice' },
+];
+
+export const SCREEN_CATEGORIES: { id: ScreenCategory; l: string }[] = [
+  { id: 'social', l: 'Social' },
+  { id: 'entertainment', l: 'Entertainment' },
+  { id: 'productivity', l: 'Productivity' },
+  { id: 'communication', l: 'Messaging' },
+  { id: 'other', l: 'Other' },
+];
+
+// Focus timer presets in minutes
+export const FOCUS_MODES = [
+  { id: 'pomodoro', l: 'Pomodoro', minutes: 25 },
+  { id: 'deep', l: 'Deep Work', minutes: 90 },
+];
+
+// Quick-add drinks; caffeine in mg, alcohol in UK units (8 g ethanol)
+export const INTAKE_PRESETS: { kind: IntakeKind; l: string; amount: number }[] = [
+  { kind: 'caffeine', l: 'Espresso', amount: 63 },
+  { kind: 'caffeine', l: 'Coffee', amount: 95 },
+  { kind: 'caffeine', l: 'Tea', amount: 47 },
+  { kind: 'caffeine', l: 'Energy Drink', amount: 80 },
+  { kind: 'caffeine', l: 'Cola', amount: 34 },
+  { kind: 'alcohol', l: 'Beer', amount: 2 },
+  { kind: 'alcohol', l: 'Wine', amount: 2.1 },
+  { kind: 'alcohol', l: 'Spirit', amount: 1 },
+];
+
+export const DEFAULT_PROFILE: UserProfile = {
+  name: 'Operator', weight: 78.5, height: 180, age: 28, gender: 'male',
+  activityFactor: 1.2, bmrFormula: 'mifflin',
+};
+
+// Lifestyle multipliers, excluding logged exercise which is added separately
+export const ACTIVITY_LEVELS = [
+  { v: 1.2, l: 'Sedentary (desk job)' },
+  { v: 1.375, l: 'Light (on feet some of the day)' },
+  { v: 1.55, l: 'Moderate (active job)' },
+  { v: 1.725, l: 'Very Active (manual labour)' },
+];
+
+export const BMR_FORMULAS: { id: BmrFormula; l: string }[] = [
+  { id: 'mifflin', l: 'Mifflin-St Jeor' },
+  { id: 'katch', l: 'Katch-McArdle (needs body fat)' },
+  { id: 'harris', l: 'Harris-Benedict (revised)' },
+];
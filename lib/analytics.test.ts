@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE } from '../constants';
+import { analyzeDay, sleepDuration, sleepEfficiency, strengthVolume, studyMinutes, summarizeDay, timeInBed } from './analytics';
+import { defaultDay } from './day';
+import { DEFAULT_SCORING } from './scoring';
+
+const night = (bedtime: string, waketime: string, awakeDuration = 0, naps: { uid: string; start: string; duration: number }[] = []) =>
+  ({ bedtime, waketime, awakeDuration, naps });
+
+const CTX = {
+  profile: DEFAULT_PROFILE,
+  targets: { p: 180, c: 250, f: 70 },
+  hydrationTarget: 3500,
+  params: DEFAULT_SCORING.params,
+};
+
+// A day with something logged in every domain
+const loggedDay = () => {
+  const day = defaultDay();
+  return {
+    ...day,
+    hydration: 1200,
+    training: { ...day.training, cardio: { steps: 4500, runs: [] } },
+    mind: {
+      ...day.mind,
+      screenTime: { total: 145, byCategory: { social: 45, entertainment: 60, productivity: 20, communication: 20, other: 0 } },
+      study: { ...day.mind.study, reading: 30 },
+    },
+    sleep: { ...day.sleep, bedtime: '22:30', waketime: '06:15', awakenings: 2, awakeDuration: 25, qualityRating: 7 },
+  };
+};
+
+describe('timeInBed', () => {
+  it('spans midnight when waketime is earlier on the clock', () => {
+    expect(timeInBed('23:30', '07:15')).toBe(465);
+    expect(timeInBed('00:45', '08:00')).toBe(435);
+  });
+
+  it('treats a same-day window as is', () => {
+    expect(timeInBed('13:00', '14:30')).toBe(90);
+  });
+
+  it('is zero when bedtime equals waketime', () => {
+    expect(timeInBed('22:00', '22:00')).toBe(0);
+  });
+});
+
+describe('sleepDuration', () => {
+  it('subtracts time awake and adds naps across midnight', () => {
+    expect(sleepDuration(night('22:30', '06:15', 25))).toBe(440);
+    expect(sleepDuration(night('23:00', '07:00', 30, [{ uid: 'n', start: '14:00', duration: 20 }]))).toBe(470);
+  });
+});
+
+describe('sleepEfficiency', () => {
+  it('is the share of time in bed spent asleep', () => {
+    expect(sleepEfficiency(night('23:00', '07:00', 48))).toBeCloseTo(90);
+  });
+
+  it('is zero rather than NaN with no time in bed', () => {
+    expect(sleepEfficiency(night('07:00', '07:00'))).toBe(0);
+  });
+});
+
+describe('totals', () => {
+  it('sums strength volume and study minutes', () => {
+    expect(strengthVolume([{ uid: 'a', exerciseId: 'str1', sets: 3, reps: 5, weight: 100 }, { uid: 'b', exerciseId: 'str2', sets: 2, reps: 10, weight: 20 }])).toBe(1900);
+    expect(studyMinutes({ reading: 30, lectures: 15, deepWork: 60, practice: 0 })).toBe(105);
+  });
+});
+
+describe('summarizeDay', () => {
+  it('derives the stored summary from the editable state', () => {
+    const rec = summarizeDay(loggedDay(), []);
+    expect(rec.sleep.durationMinutes).toBe(440);
+    expect(rec.physical.steps).toBe(4500);
+    expect(rec.mind.studyMinutes).toBe(30);
+    expect(rec.mind.screenTime).toBe(145);
+    expect(rec.nutrition.calories).toBe(0);
+    expect(rec.nutrition.hydration).toBe(1200);
+  });
+});
+
+describe('analyzeDay', () => {
+  it('scores a record and models its energy balance', () => {
+    const rec = summarizeDay(loggedDay(), []);
+    const a = analyzeDay(rec, CTX);
+    expect(a.scores.system).toBeGreaterThanOrEqual(0);
+    expect(a.scores.system).toBeLessThanOrEqual(100);
+    expect(a.energy.balance).toBeCloseTo(a.energy.intake - a.energy.tdee);
+    expect(a.raw.sleep).toBe(440);
+  });
+
+  it('returns finite scores for an empty day with zero targets', () => {
+    const rec = summarizeDay(defaultDay(), []);
+    const a = analyzeDay(rec, { ...CTX, targets: { p: 0, c: 0, f: 0 }, hydrationTarget: 0 });
+    Object.values(a.scores).forEach(v => expect(Number.isFinite(v)).toBe(true));
+    expect(a.scores.nutrition).toBe(100);
+  });
+});
+
+describe('defaultDay', () => {
+  it('summarises to nothing logged', () => {
+    const rec = summarizeDay(defaultDay(), []);
+    expect(rec.sleep.durationMinutes).toBe(0);
+    expect(rec.physical.steps).toBe(0);
+    expect(rec.mind.screenTime).toBe(0);
+    expect(rec.mind.studyMinutes).toBe(0);
+    expect(rec.nutrition.hydration).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { DayRecord, DayScores, Ingredient, SleepState, StrengthEntry, StudyCategory, UserProfile, ScoringParams } from '../types';
+import { DayState } from './day';
+import { calculateEnergy } from './energy';
+import { knownNutrients, mealTotals } from './foods';
+import { MacroSet, scoreRecord } from './scoring';
+import { entryVolume } from './training';
+
+/**
+ * ============================================================================
+ * DAY ANALYTICS
+ * ============================================================================
+ *
+ * Pure functions from one day's editable state to its stored summary
+ * (`summarizeDay`) and from a stored record to its scores and energy
+ * balance (`analyzeDay`). The live dashboard and backfilled history go
+ * through the same scoring, so a day scores the same wherever it is shown.
+ */
+
+const clockMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Minutes from bedtime to waketime; a waketime earlier on the clock is the next morning
+export const timeInBed = (bedtime: string, waketime: string) => {
+  const bed = clockMinutes(bedtime);
+  const wake = clockMinutes(waketime);
+  return wake < bed ? wake + 1440 - bed : wake - bed;
+};
+
+type SleepTimes = Pick<SleepState, 'bedtime' | 'waketime' | 'awakeDuration' | 'naps'>;
+
+// Night sleep net of time awake, plus naps
+export const sleepDuration = (sleep: SleepTimes) =>
+  timeInBed(sleep.bedtime, sleep.waketime) - sleep.awakeDuration + sleep.naps.reduce((acc, n) => acc + n.duration, 0);
+
+// Percentage of the night in bed spent asleep (naps included in the numerator)
+export const sleepEfficiency = (sleep: SleepTimes) => {
+  const inBed = timeInBed(sleep.bedtime, sleep.waketime);
+  return inBed > 0 ? (sleepDuration(sleep) / inBed) * 100 : 0;
+};
+
+export const strengthVolume = (sessions: StrengthEntry[]) => sessions.reduce((acc, s) => acc + entryVolume(s), 0);
+
+export const studyMinutes = (study: Record<StudyCategory, number>) => Object.values(study).reduce((acc, m) => acc + m, 0);
+
+// The stored record for a day's state, before scoring
+export const summarizeDay = (day: DayState, foods: Ingredient[]): DayRecord => {
+  const nut = mealTotals(day.meals, foods);
+  return {
+    sleep: {
+      durationMinutes: sleepDuration(day.sleep),
+      efficiency: sleepEfficiency(day.sleep),
+      ...day.sleep,
+    },
+    nutrition: {
+      calories: nut.cal,
+      protein: nut.p,
+      carbs: nut.c,
+      fat: nut.f,
+      hydration: day.hydration,
+      nutrients: knownNutrients(nut),
+      meals: day.meals,
+      intake: day.intake,
+    },
+    physical: {
+      steps: day.training.cardio.steps,
+      strengthVol: strengthVolume(day.training.strength.sessions),
+      sessions: day.training.strength.sessions,
+      runs: day.training.cardio.runs,
+    },
+    mind: {
+      screenTime: day.mind.screenTime.total,
+      studyMinutes: studyMinutes(day.mind.study),
+      study: day.mind.study,
+      screenByCategory: day.mind.screenTime.byCategory,
+      sessions: day.mind.sessions,
+    },
+    body: day.body,
+    score: 0,
+  };
+};
+
+export interface ScoringContext {
+  profile: UserProfile;
+  targets: MacroSet;
+  hydrationTarget: number; // ml
+  params: ScoringParams;
+}
+
+export interface DayAnalysis {
+  scores: DayScores;
+  energy: { intake: number; tdee: number; balance: number; bmr: number; active: number }; // kcal
+  raw: { sleep: number; sleepEfficiency: number; steps: number; vol: number };
+}
+
+export const analyzeDay = (rec: DayRecord, ctx: ScoringContext): DayAnalysis => {
+  const burn = calculateEnergy(ctx.profile, rec.physical.steps, rec.physical.runs || [], rec.physical.sessions || []);
+  return {
+    scores: scoreRecord(rec, ctx.targets, ctx.hydrationTarget, ctx.params),
+    energy: {
+      intake: rec.nutrition.calories,
+      tdee: burn.tdee,
+      balance: rec.nutrition.calories - burn.tdee,
+      bmr: burn.bmr,
+      active: burn.walking + burn.exercise,
+    },
+    raw: {
+      sleep: rec.sleep.durationMinutes,
+      sleepEfficiency: rec.sleep.efficiency,
+      steps: rec.physical.steps,
+      vol: rec.physical.strengthVol,
+    },
+  };
+};
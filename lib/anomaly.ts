@@ -0,0 +1,170 @@
+import { DayHistory } from '../types';
+import { shiftDate } from './day';
+import { Metric, getMetric } from './metrics';
+import { calculateStdDev, mean, welchTTest } from './stats';
+
+/**
+ * ============================================================================
+ * ANOMALY DETECTION
+ * ============================================================================
+ *
+ * Three families of checks run over the calendar series of each metric:
+ *  - spike:  the latest day vs the trailing window (rolling z-score)
+ *  - shift:  the window mean vs the baseline before it (changepoint)
+ *  - streak: consecutive days beyond a target-derived threshold
+ * A firing check is traced back to the day it started so that one episode
+ * keeps a stable id for dismiss/snooze.
+ */
+
+export type Severity = 'info' | 'warning' | 'critical';
+
+export interface Alert {
+  id: string;
+  severity: Severity;
+  metric: string;
+  title: string;
+  detail: string;
+  since: string; // first day of the episode
+}
+
+export interface AlertTargets {
+  protein: number; // g
+  hydration: number; // ml
+  sleep: number; // minutes
+}
+
+// Dismissed ids, and snoozed ids mapped to the day they resurface
+export interface AlertState {
+  dismissed: string[];
+  snoozed: Record<string, string>;
+}
+
+export const EMPTY_ALERT_STATE: AlertState = { dismissed: [], snoozed: {} };
+export const SNOOZE_DAYS = 3;
+
+const WINDOW = 14;
+const BASELINE = 56;
+const MIN_WINDOW = 7;
+const MIN_BASELINE = 14;
+
+const DETECTED = ['sleep', 'efficiency', 'calories', 'protein', 'hydration', 'steps', 'screen', 'study', 'score'];
+
+const STREAK_RULES: { id: string; metric: string; l: string; days: number; severity: Severity; threshold: (t: AlertTargets) => number }[] = [
+  { id: 'protein-low', metric: 'protein', l: 'Protein under target', days: 5, severity: 'warning', threshold: t => t.protein * 0.9 },
+  { id: 'hydration-collapse', metric: 'hydration', l: 'Hydration collapse', days: 3, severity: 'critical', threshold: t => t.hydration * 0.5 },
+  { id: 'sleep-short', metric: 'sleep', l: 'Short sleep streak', days: 4, severity: 'warning', threshold: t => (t.sleep - 60) / 60 },
+];
+
+const SEVERITY_RANK: Record<Severity, number> = { critical: 0, warning: 1, info: 2 };
+
+type Series = (number | undefined)[];
+type Finding = { severity: Severity; direction: 1 | -1; title: string; detail: string };
+
+const format = (v: number, m: Metric) => `${m.unit === 'h' ? v.toFixed(1) : v.toFixed(0)} ${m.unit}`;
+
+const defined = (s: Series, from: number, to: number) =>
+  s.slice(Math.max(0, from), Math.max(0, to + 1)).filter((v): v is number => v !== undefined);
+
+// Metrics with a polarity only alert when moving the wrong way
+const isAdverse = (m: Metric, direction: number) => !m.polarity || direction !== m.polarity;
+
+const spike = (s: Series, i: number, m: Metric): Finding | null => {
+  const v = s[i];
+  const window = defined(s, i - WINDOW, i - 1);
+  if (v === undefined || window.length < MIN_WINDOW) return null;
+  const sd = calculateStdDev(window);
+  if (sd === 0) return null;
+  const z = (v - mean(window)) / sd;
+  const direction = z >= 0 ? 1 : -1;
+  if (Math.abs(z) < 2 || !isAdverse(m, direction)) return null;
+  return {
+    severity: Math.abs(z) >= 3 ? 'warning' : 'info',
+    direction,
+    title: `${m.l} ${direction > 0 ? 'spike' : 'drop'} (${z > 0 ? '+' : ''}${z.toFixed(1)}σ)`,
+    detail: `${format(v, m)} vs ${format(mean(window), m)} ${WINDOW}-day mean`,
+  };
+};
+
+const shift = (s: Series, i: number, m: Metric): Finding | null => {
+  const recent = defined(s, i - WINDOW + 1, i);
+  const base = defined(s, i - WINDOW - BASELINE + 1, i - WINDOW);
+  if (recent.length < MIN_WINDOW || base.length < MIN_BASELINE) return null;
+  const sd = calculateStdDev(base);
+  if (sd === 0) return null;
+  const d = (mean(recent) - mean(base)) / sd;
+  const direction = d >= 0 ? 1 : -1;
+  if (Math.abs(d) < 1 || welchTTest(recent, base).p >= 0.01 || !isAdverse(m, direction)) return null;
+  return {
+    severity: Math.abs(d) >= 2 ? 'critical' : 'warning',
+    direction,
+    title: `${m.l} ${direction > 0 ? 'up' : 'down'} ${Math.abs(d).toFixed(1)}σ`,
+    detail: `${WINDOW}-day mean ${format(mean(recent), m)} vs ${format(mean(base), m)} baseline`,
+  };
+};
+
+// Walk back while the check keeps firing the same way to find the onset
+const onset = (s: Series, i: number, m: Metric, check: typeof spike, direction: number) => {
+  let j = i;
+  while (j > 0 && check(s, j - 1, m)?.direction === direction) j--;
+  return j;
+};
+
+/**
+ * Runs every check as of `asOf` (inclusive). Pass the last completed day so
+ * a half-logged today does not read as a collapse.
+ */
+export const detectAnomalies = (history: DayHistory, targets: AlertTargets, asOf: string): Alert[] => {
+  const first = Object.keys(history).filter(d => d <= asOf).sort()[0];
+  if (!first) return [];
+  const dates: string[] = [];
+  for (let d = first; d <= asOf; d = shiftDate(d, 1)) dates.push(d);
+  const i = dates.length - 1;
+  const seriesOf = (m: Metric): Series => dates.map(d => history[d] && m.get(history[d]));
+
+  const alerts: Alert[] = [];
+
+  DETECTED.map(getMetric).forEach(m => {
+    const s = seriesOf(m);
+    ([['spike', spike], ['shift', shift]] as const).forEach(([rule, check]) => {
+      const f = check(s, i, m);
+      if (!f) return;
+      const since = dates[onset(s, i, m, check, f.direction)];
+      alerts.push({ id: `${rule}:${m.id}:${f.direction}:${since}`, severity: f.severity, metric: m.id, title: f.title, detail: f.detail, since });
+    });
+  });
+
+  STREAK_RULES.forEach(r => {
+    const m = getMetric(r.metric);
+    const s = seriesOf(m);
+    let count = 0;
+    while (count <= i) {
+      const v = s[i - count];
+      if (v === undefined || v >= r.threshold(targets)) break;
+      count++;
+    }
+    if (count < r.days) return;
+    const since = dates[i - count + 1];
+    alerts.push({
+      id: `streak:${r.id}:${since}`,
+      severity: count >= r.days * 2 ? 'critical' : r.severity,
+      metric: m.id,
+      title: `${r.l} ${count} days`,
+      detail: `Below ${format(r.threshold(targets), m)} every day since ${since}`,
+      since,
+    });
+  });
+
+  return alerts.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.since.localeCompare(a.since));
+};
+
+export const visibleAlerts = (alerts: Alert[], state: AlertState, today: string) =>
+  alerts.filter(a => !state.dismissed.includes(a.id) && !(state.snoozed[a.id] > today));
+
+// Drop entries for episodes that ended and snoozes that expired
+export const pruneAlertState = (state: AlertState, alerts: Alert[], today: string): AlertState => {
+  const active = new Set(alerts.map(a => a.id));
+  return {
+    dismissed: state.dismissed.filter(id => active.has(id)),
+    snoozed: Object.fromEntries(Object.entries(state.snoozed).filter(([id, until]) => active.has(id) && until > today)),
+  };
+};
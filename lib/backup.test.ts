@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT, BACKUP_VERSION, EXPORT_DOMAINS, ParsedBackup, domainCsv, parseBackup } from './backup';
+import { DEFAULT_SCORING, backfillScores } from './scoring';
+import { hydrateDay } from './day';
+import { DEFAULT_PROFILE } from '../constants';
+import { DEFAULT_REMINDER_SETTINGS } from './reminders';
+
+const day = (extra: Record<string, any> = {}) => ({
+  sleep: { durationMinutes: 420, efficiency: 90, ...extra.sleep },
+  nutrition: { calories: 2000, protein: 120, hydration: 2500, ...extra.nutrition },
+  physical: { steps: 8000, strengthVol: 0, ...extra.physical },
+  mind: { screenTime: 120, studyMinutes: 60, ...extra.mind },
+  score: 70,
+});
+
+const parse = (history: Record<string, unknown>, meta: Record<string, unknown> = {}) =>
+  parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '', history, meta })) as ParsedBackup;
+
+describe('parseBackup', () => {
+  it('drops scoring settings that do not cover every parameter', () => {
+    expect(parse({}, { scoring: { preset: 'x', params: {} } }).backup.meta.scoring).toBeUndefined();
+    const { sleep, ...rest } = DEFAULT_SCORING.params;
+    expect(parse({}, { scoring: { preset: 'x', params: rest } }).backup.meta.scoring).toBeUndefined();
+    const bad = { ...DEFAULT_SCORING.params, sleep: { ...sleep, target: '480' } };
+    expect(parse({}, { scoring: { preset: 'x', params: bad } }).backup.meta.scoring).toBeUndefined();
+  });
+
+  it('drops scoring settings with a target or tolerance that is not positive', () => {
+    const { sleep, mind } = DEFAULT_SCORING.params;
+    const zero = { ...DEFAULT_SCORING.params, sleep: { ...sleep, tolerance: 0 } };
+    expect(parse({}, { scoring: { preset: 'x', params: zero } }).backup.meta.scoring).toBeUndefined();
+    const negative = { ...DEFAULT_SCORING.params, mind: { ...mind, studyTarget: -30 } };
+    expect(parse({}, { scoring: { preset: 'x', params: negative } }).backup.meta.scoring).toBeUndefined();
+    const unweighted = { ...DEFAULT_SCORING.params, mind: { ...mind, weight: 0 } };
+    expect(parse({}, { scoring: { preset: 'x', params: unweighted } }).backup.meta.scoring?.params).toEqual(unweighted);
+  });
+
+  it('keeps complete scoring settings, which rescore without throwing', () => {
+    const { backup } = parse({ '2024-03-01': day() }, { scoring: DEFAULT_SCORING });
+    expect(backup.meta.scoring).toEqual(DEFAULT_SCORING);
+    expect(() => backfillScores(backup.history, { p: 150, c: 250, f: 70 }, 3000, backup.meta.scoring!.params, true)).not.toThrow();
+  });
+
+  it('strips malformed detail fields but keeps the day', () => {
+    const { backup, skipped } = parse({
+      '2024-03-01': day({
+        sleep: { bedtime: 23, naps: [{ uid: 'n', start: '14:00', duration: 20 }, null] },
+        nutrition: { meals: { breakfast: [{ uid: 'a', id: 'oats', name: 'Oats', amount: 80 }, { uid: 'b' }], lunch: 'soup' }, intake: 'coffee' },
+        physical: { runs: [{ uid: 'r', distance: '5' }], sessions: {} },
+        mind: { sessions: [{ uid: 's', category: 'deepWork', start: '2024-03-01T09:00:00Z', minutes: 50 }], study: { reading: 'a lot' } },
+      }),
+    });
+    expect(skipped).toEqual([]);
+    const r = backup.history['2024-03-01'];
+    expect(r.sleep.bedtime).toBeUndefined();
+    expect(r.sleep.naps).toHaveLength(1);
+    expect(r.nutrition.meals!.breakfast).toHaveLength(1);
+    expect(r.nutrition.meals!.lunch).toEqual([]);
+    expect(r.nutrition.intake).toBeUndefined();
+    expect(r.physical.runs).toEqual([]);
+    expect(r.physical.sessions).toBeUndefined();
+    expect(r.mind.sessions).toHaveLength(1);
+    expect(r.mind.study).toBeUndefined();
+    expect(() => hydrateDay(r)).not.toThrow();
+  });
+
+  it('drops malformed scores, energy and body fields so the day is rescored', () => {
+    const { backup } = parse({
+      '2024-03-01': { ...day(), scores: { sleep: 'high' }, scoringVersion: 2, energy: { intake: '2000' }, body: { weight: 'heavy', waist: 80 } },
+      '2024-03-02': { ...day(), scores: { sleep: 1, nutrition: 2, hydration: 3, physical: 4, mind: 5, system: 6 }, scoringVersion: 2, body: { weight: 80 } },
+    });
+    const bad = backup.history['2024-03-01'];
+    expect(bad.scores).toBeUndefined();
+    expect(bad.scoringVersion).toBeUndefined();
+    expect(bad.energy).toBeUndefined();
+    expect(bad.body).toBeUndefined();
+    expect(backup.history['2024-03-02'].scoringVersion).toBe(2);
+    expect(backup.history['2024-03-02'].body).toEqual({ weight: 80 });
+    EXPORT_DOMAINS.forEach(d => expect(() => domainCsv(backup.history, d.id)).not.toThrow());
+  });
+
+  it('validates each meta document field by field', () => {
+    const [reminder] = DEFAULT_REMINDER_SETTINGS.reminders;
+    const goal = { id: 'g', kind: 'daily', metric: 'steps', op: 'gte', value: 10000, created: '2024-03-01' };
+    const food = { id: 'f', name: 'Skyr', macros: { cal: 0.63, p: 0.11, c: 0.04, f: 0.002 }, servings: [{ l: 'pot', g: 150 }] };
+    const recipe = { id: 'r', name: 'Bowl', ingredients: [{ id: 'f', amount: 150 }], totalGrams: 150, macros: food.macros };
+    const { meta } = parse({}, {
+      profile: { ...DEFAULT_PROFILE, gender: 'x' },
+      recipes: [recipe, { ...recipe, id: 'r2', ingredients: [{ id: 'f' }] }],
+      foods: [food, { ...food, id: 'f2', servings: [{ l: 'pot', g: 0 }] }, { ...food, id: 'f3', macros: { cal: 1 } }],
+      goals: [goal, { ...goal, id: 'g2', metric: 'luck' }, { ...goal, id: 'g3', created: 3 }],
+      alerts: { dismissed: [1], snoozed: {} },
+      reminders: {
+        reminders: [reminder, { ...reminder, id: 'x', title: undefined }, { ...reminder, id: 'y', days: ['mon'] }, { id: 'z', kind: 'fixed', title: 'Z', enabled: true }],
+        lastFired: { [reminder.id]: 5, x: 'soon' },
+      },
+    }).backup;
+    expect(meta.profile).toBeUndefined();
+    expect(meta.recipes!.map(r => r.id)).toEqual(['r']);
+    expect(meta.foods!.map(f => f.id)).toEqual(['f']);
+    expect(meta.goals!.map(g => g.id)).toEqual(['g']);
+    expect(meta.alerts).toBeUndefined();
+    expect(meta.reminders).toEqual({ reminders: [reminder], lastFired: { [reminder.id]: 5 } });
+    expect(parse({}, { profile: DEFAULT_PROFILE, alerts: { dismissed: ['a'], snoozed: { b: '2024-03-08' } } }).backup.meta)
+      .toEqual({ profile: DEFAULT_PROFILE, alerts: { dismissed: ['a'], snoozed: { b: '2024-03-08' } } });
+  });
+});
@@ -0,0 +1,378 @@
+import { DayHistory, DayRecord, Ingredient, Recipe, ScoringParams, ScoringSettings, UserProfile } from '../types';
+import { BMR_FORMULAS, MEAL_SLOTS, NUTRIENTS, SCREEN_CATEGORIES, STUDY_CATEGORIES } from '../constants';
+import { AlertState } from './anomaly';
+import { GOAL_METRICS, Goal } from './goals';
+import { Reminder, ReminderSettings, SMART_RULES } from './reminders';
+import { intakeTotals, sortEvents } from './intake';
+import { DEFAULT_SCORING } from './scoring';
+import { toCsv } from './csv';
+
+/**
+ * ============================================================================
+ * BACKUP, RESTORE & CSV EXPORT
+ * ============================================================================
+ *
+ * A backup is one JSON document holding every day plus the meta documents
+ * (profile, scoring settings, dishes, custom foods, goals, alert state,
+ * reminders).
+ * `version` is bumped whenever the shape changes; older backups are
+ * upgraded on import, newer ones are refused.
+ */
+
+export const BACKUP_FORMAT = 'metrix-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupMeta {
+  profile?: UserProfile;
+  scoring?: ScoringSettings;
+  recipes?: Recipe[];
+  foods?: Ingredient[];
+  goals?: Goal[];
+  alerts?: AlertState;
+  reminders?: ReminderSettings;
+}
+
+export interface BackupData {
+  history: DayHistory;
+  meta: BackupMeta;
+}
+
+export interface Backup extends BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export const createBackup = (data: BackupData): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+});
+
+// --- Validation ---
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const CLOCK = /^\d{2}:\d{2}$/;
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPositive = (v: unknown) => isNum(v) && v > 0;
+const isStr = (v: unknown): v is string => typeof v === 'string';
+const isBool = (v: unknown): v is boolean => typeof v === 'boolean';
+const isClock = (v: unknown) => isStr(v) && CLOCK.test(v);
+const isDate = (v: unknown) => isStr(v) && DATE_KEY.test(v);
+const isOneOf = (values: readonly unknown[]) => (v: unknown) => values.includes(v);
+const isListOf = (v: unknown, valid: (x: unknown) => boolean) => Array.isArray(v) && v.every(valid);
+const isNumRecord = (v: unknown, keys: string[]) => isObject(v) && keys.every(k => isNum(v[k]));
+// Every value a number, as in per-id maps such as nutrients or lastFired
+const isNumMap = (v: unknown) => isObject(v) && Object.values(v).every(isNum);
+// Absent, or valid
+const optional = (v: unknown, valid: (x: unknown) => boolean) => v === undefined || valid(v);
+
+// The summary fields every record has had since the first release
+const isDayRecord = (r: unknown): r is DayRecord => isObject(r)
+  && isObject(r.sleep) && isNum(r.sleep.durationMinutes) && isNum(r.sleep.efficiency)
+  && isObject(r.nutrition) && isNum(r.nutrition.calories) && isNum(r.nutrition.protein) && isNum(r.nutrition.hydration)
+  && isObject(r.physical) && isNum(r.physical.steps) && isNum(r.physical.strengthVol)
+  && isObject(r.mind) && isNum(r.mind.screenTime) && isNum(r.mind.studyMinutes)
+  && isNum(r.score);
+
+const isMacros = (v: unknown) => isNumMap(v) && isNumRecord(v, ['cal', 'p', 'c', 'f']);
+const isMealItem = (x: unknown) => isObject(x) && isStr(x.uid) && isStr(x.id) && isStr(x.name) && isNum(x.amount) && optional(x.macros, isMacros);
+const isIntakeEvent = (x: unknown) => isObject(x) && isStr(x.uid) && isOneOf(['meal', 'caffeine', 'alcohol'])(x.kind) && isClock(x.time) && isNum(x.amount);
+const isNap = (x: unknown) => isObject(x) && isStr(x.uid) && isClock(x.start) && isNum(x.duration);
+const isRun = (x: unknown) => isObject(x) && isStr(x.uid) && isNum(x.distance) && isNum(x.duration);
+const isStrength = (x: unknown) => isObject(x) && isStr(x.uid) && isStr(x.exerciseId) && isNum(x.sets) && isNum(x.reps) && isNum(x.weight);
+const isFocusSession = (x: unknown) => isObject(x) && isStr(x.uid) && STUDY_CATEGORIES.some(c => c.id === x.category) && isStr(x.start) && isNum(x.minutes);
+const isBody = (v: unknown) => isObject(v) && ['weight', 'waist', 'bodyFat'].every(k => optional(v[k], isNum));
+
+// Keep the valid entries of a detail list; a field that is not a list is dropped
+const keepValid = (obj: Record<string, unknown>, key: string, valid: (x: unknown) => boolean) => {
+  const list = obj[key];
+  if (list === undefined) return;
+  if (Array.isArray(list)) obj[key] = list.filter(valid);
+  else delete obj[key];
+};
+
+const dropUnless = (obj: Record<string, unknown>, key: string, valid: (v: unknown) => boolean) => {
+  if (obj[key] !== undefined && !valid(obj[key])) delete obj[key];
+};
+
+/**
+ * Detail fields are optional on a record, so malformed ones are stripped
+ * rather than skipping the day: the editors then fall back to the summary
+ * numbers, as for records that predate per-day editing. Malformed scores
+ * are dropped along with the scoring version, so the day is rescored.
+ */
+const sanitizeDay = (raw: DayRecord): DayRecord => {
+  const sleep: Record<string, unknown> = { ...raw.sleep };
+  const nutrition: Record<string, unknown> = { ...raw.nutrition };
+  const physical: Record<string, unknown> = { ...raw.physical };
+  const mind: Record<string, unknown> = { ...raw.mind };
+  const r: Record<string, unknown> = { ...raw, sleep, nutrition, physical, mind };
+
+  ['bedtime', 'waketime'].forEach(k => dropUnless(sleep, k, isClock));
+  ['awakenings', 'awakeDuration', 'qualityRating'].forEach(k => dropUnless(sleep, k, isNum));
+  keepValid(sleep, 'naps', isNap);
+
+  const meals = nutrition.meals;
+  if (isObject(meals)) {
+    nutrition.meals = Object.fromEntries(MEAL_SLOTS.map(s => {
+      const items = meals[s.id];
+      return [s.id, Array.isArray(items) ? items.filter(isMealItem) : []];
+    }));
+  } else delete nutrition.meals;
+  ['carbs', 'fat'].forEach(k => dropUnless(nutrition, k, isNum));
+  keepValid(nutrition, 'intake', isIntakeEvent);
+  dropUnless(nutrition, 'nutrients', isNumMap);
+
+  keepValid(physical, 'runs', isRun);
+  keepValid(physical, 'sessions', isStrength);
+
+  keepValid(mind, 'sessions', isFocusSession);
+  dropUnless(mind, 'study', v => isNumRecord(v, STUDY_CATEGORIES.map(c => c.id)));
+  dropUnless(mind, 'screenByCategory', v => isNumRecord(v, SCREEN_CATEGORIES.map(c => c.id)));
+
+  dropUnless(r, 'body', isBody);
+  dropUnless(r, 'energy', v => isNumRecord(v, ['intake', 'tdee', 'balance']));
+  dropUnless(r, 'synthetic', isBool);
+  if (!optional(r.scores, v => isNumRecord(v, ['sleep', 'nutrition', 'hydration', 'physical', 'mind', 'system'])) || !optional(r.scoringVersion, isNum)) {
+    delete r.scores;
+    delete r.scoringVersion;
+  }
+  return r as unknown as DayRecord;
+};
+
+// Every domain and field of the scoring engine's parameters must be set.
+// Targets and tolerances are divisors, so they must be positive; weights
+// may be 0, which drops the domain from the system score.
+const isScoringParams = (v: unknown) => isObject(v)
+  && Object.entries(DEFAULT_SCORING.params).every(([domain, fields]) => {
+    const d = v[domain];
+    return isObject(d) && Object.keys(fields).every(k => (k === 'weight' ? isNum(d[k]) && d[k] >= 0 : isPositive(d[k])));
+  });
+
+const isProfile = (v: unknown): v is UserProfile => isObject(v)
+  && isStr(v.name) && isPositive(v.weight) && isPositive(v.height) && isPositive(v.age)
+  && isOneOf(['male', 'female'])(v.gender) && optional(v.bodyFat, isNum)
+  && isPositive(v.activityFactor) && BMR_FORMULAS.some(f => f.id === v.bmrFormula);
+
+const isServing = (x: unknown) => isObject(x) && isStr(x.l) && isPositive(x.g);
+
+const isFood = (x: unknown): x is Ingredient => isObject(x)
+  && isStr(x.id) && isStr(x.name) && isMacros(x.macros)
+  && optional(x.density, isPositive) && optional(x.piece, isPositive)
+  && optional(x.servings, v => isListOf(v, isServing)) && optional(x.custom, isBool);
+
+const isRecipe = (x: unknown): x is Recipe => isObject(x)
+  && isStr(x.id) && isStr(x.name) && isPositive(x.totalGrams) && isMacros(x.macros)
+  && isListOf(x.ingredients, c => isObject(c) && isStr(c.id) && isNum(c.amount));
+
+const isGoal = (x: unknown): x is Goal => isObject(x)
+  && isStr(x.id) && isOneOf(['daily', 'frequency', 'milestone'])(x.kind)
+  && GOAL_METRICS.some(m => m.id === x.metric) && isOneOf(['gte', 'lte'])(x.op) && isNum(x.value)
+  && optional(x.times, isPositive) && optional(x.window, isPositive)
+  && optional(x.deadline, isDate) && isDate(x.created);
+
+const isAlertState = (v: unknown): v is AlertState => isObject(v)
+  && isListOf(v.dismissed, isStr) && isObject(v.snoozed) && Object.values(v.snoozed).every(isDate);
+
+const isWeekday = (d: unknown) => Number.isInteger(d) && isNum(d) && d >= 0 && d <= 6;
+
+// The fields each kind of reminder is scheduled from must be present
+const isReminder = (x: unknown): x is Reminder => {
+  if (!(isObject(x) && isStr(x.id) && isStr(x.title) && isBool(x.enabled) && optional(x.days, v => isListOf(v, isWeekday)))) return false;
+  if (![x.time, x.from, x.to].every(t => optional(t, isClock)) || ![x.every, x.threshold, x.lead].every(n => optional(n, isNum))) return false;
+  if (x.kind === 'fixed') return isClock(x.time);
+  if (x.kind === 'interval') return isPositive(x.every) && isClock(x.from) && isClock(x.to);
+  if (x.kind !== 'smart' || !SMART_RULES.some(r => r.id === x.rule)) return false;
+  return x.rule === 'windDown' ? isNum(x.lead) : isClock(x.time);
+};
+
+// Upgrade steps from (version - 1) to version, applied in order
+const UPGRADES: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export interface ParsedBackup {
+  backup: Backup;
+  skipped: string[]; // dates of invalid records
+}
+
+// Returns the validated backup, or an error message
+export const parseBackup = (text: string): ParsedBackup | string => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return 'Not a valid JSON file.';
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) return 'Not a MetrixOS backup.';
+  const version = parsed.version;
+  if (!isNum(version) || !Number.isInteger(version) || version < 1) return 'Backup has no valid version.';
+  if (version > BACKUP_VERSION) return `Backup version ${version} is newer than this app supports (${BACKUP_VERSION}).`;
+  let raw = parsed;
+  for (let v = version + 1; v <= BACKUP_VERSION; v++) raw = UPGRADES[v](raw);
+  const days = raw.history;
+  if (!isObject(days)) return 'Backup has no history.';
+
+  const history: DayHistory = {};
+  const skipped: string[] = [];
+  Object.entries(days).forEach(([d, rec]) => {
+    if (DATE_KEY.test(d) && isDayRecord(rec)) history[d] = sanitizeDay(rec);
+    else skipped.push(d);
+  });
+
+  const m = isObject(raw.meta) ? raw.meta : {};
+  const meta: BackupMeta = {};
+  if (isProfile(m.profile)) meta.profile = m.profile;
+  if (isObject(m.scoring) && isScoringParams(m.scoring.params)) {
+    meta.scoring = { preset: isStr(m.scoring.preset) ? m.scoring.preset : 'custom', params: m.scoring.params as ScoringParams };
+  }
+  if (Array.isArray(m.recipes)) meta.recipes = m.recipes.filter(isRecipe);
+  if (Array.isArray(m.foods)) meta.foods = m.foods.filter(isFood);
+  if (Array.isArray(m.goals)) meta.goals = m.goals.filter(isGoal);
+  if (isAlertState(m.alerts)) meta.alerts = m.alerts;
+  if (isObject(m.reminders) && Array.isArray(m.reminders.reminders)) {
+    const lastFired = m.reminders.lastFired;
+    meta.reminders = {
+      reminders: m.reminders.reminders.filter(isReminder),
+      lastFired: isObject(lastFired) ? Object.fromEntries(Object.entries(lastFired).filter((e): e is [string, number] => isNum(e[1]))) : {},
+    };
+  }
+
+  return {
+    backup: { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: String(raw.exportedAt ?? ''), history, meta },
+    skipped,
+  };
+};
+
+// --- Restore ---
+
+export const backupSummary = (current: DayHistory, backup: Backup) => {
+  const dates = Object.keys(backup.history).sort();
+  const conflicts = dates.filter(d => current[d]).length;
+  return {
+    days: dates.length,
+    added: dates.length - conflicts,
+    conflicts,
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+  };
+};
+
+const unionBy = <T>(local: T[], incoming: T[], key: (x: T) => string) => {
+  const seen = new Set(local.map(key));
+  return [...local, ...incoming.filter(x => !seen.has(key(x)))];
+};
+
+/**
+ * `replace` discards local data for the backup's. `merge` only adds: days,
+ * dishes, foods, goals and reminders missing locally are taken from the backup,
+ * anything that exists on both sides keeps the local version.
+ */
+export const restoreBackup = (current: BackupData, backup: Backup, mode: RestoreMode): BackupData => {
+  if (mode === 'replace') return { history: backup.history, meta: backup.meta };
+  const local = current.meta;
+  const incoming = backup.meta;
+  return {
+    history: { ...backup.history, ...current.history },
+    meta: {
+      profile: local.profile ?? incoming.profile,
+      scoring: local.scoring ?? incoming.scoring,
+      recipes: unionBy(local.recipes || [], incoming.recipes || [], r => r.id),
+      goals: unionBy(local.goals || [], incoming.goals || [], g => g.id),
+      // Same-named foods would be indistinguishable in search
+      foods: unionBy(local.foods || [], incoming.foods || [], f => f.id)
+        .filter((f, i, all) => all.findIndex(g => g.name.toLowerCase() === f.name.toLowerCase()) === i),
+      alerts: local.alerts && incoming.alerts
+        ? { dismissed: [...new Set([...local.alerts.dismissed, ...incoming.alerts.dismissed])], snoozed: { ...incoming.alerts.snoozed, ...local.alerts.snoozed } }
+        : local.alerts ?? incoming.alerts,
+      reminders: local.reminders && incoming.reminders
+        ? { reminders: unionBy(local.reminders.reminders, incoming.reminders.reminders, r => r.id), lastFired: { ...incoming.reminders.lastFired, ...local.reminders.lastFired } }
+        : local.reminders ?? incoming.reminders,
+    },
+  };
+};
+
+// --- CSV export ---
+
+export type ExportDomain = 'sleep' | 'nutrition' | 'training' | 'mind';
+
+interface Column {
+  h: string;
+  get: (r: DayRecord) => string | number | undefined;
+}
+
+const round = (v: number | undefined, dp = 1) => v === undefined ? undefined : +v.toFixed(dp);
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+const COLUMNS: Record<ExportDomain, Column[]> = {
+  sleep: [
+    { h: 'bedtime', get: r => r.sleep.bedtime },
+    { h: 'waketime', get: r => r.sleep.waketime },
+    { h: 'duration_min', get: r => round(r.sleep.durationMinutes, 0) },
+    { h: 'efficiency_pct', get: r => round(r.sleep.efficiency) },
+    { h: 'awakenings', get: r => r.sleep.awakenings },
+    { h: 'awake_min', get: r => r.sleep.awakeDuration },
+    { h: 'quality_1_10', get: r => r.sleep.qualityRating },
+    { h: 'naps', get: r => r.sleep.naps?.length },
+    { h: 'nap_min', get: r => r.sleep.naps ? sum(r.sleep.naps.map(n => n.duration)) : undefined },
+    { h: 'sleep_score', get: r => round(r.scores?.sleep) },
+  ],
+  nutrition: [
+    { h: 'calories_kcal', get: r => round(r.nutrition.calories, 0) },
+    { h: 'protein_g', get: r => round(r.nutrition.protein) },
+    { h: 'carbs_g', get: r => round(r.nutrition.carbs) },
+    { h: 'fat_g', get: r => round(r.nutrition.fat) },
+    ...NUTRIENTS.map(n => ({ h: `${n.id.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`)}_${n.unit}`, get: (r: DayRecord) => round(r.nutrition.nutrients?.[n.id]) })),
+    { h: 'hydration_ml', get: r => round(r.nutrition.hydration, 0) },
+    { h: 'items_logged', get: r => r.nutrition.meals ? sum(Object.values(r.nutrition.meals).map(m => m.length)) : undefined },
+    { h: 'caffeine_mg', get: r => r.nutrition.intake ? round(intakeTotals(r.nutrition.intake).caffeine, 0) : undefined },
+    { h: 'alcohol_units', get: r => r.nutrition.intake ? round(intakeTotals(r.nutrition.intake).alcohol) : undefined },
+    { h: 'first_meal', get: r => r.nutrition.intake && sortEvents(r.nutrition.intake).find(e => e.kind === 'meal')?.time },
+    { h: 'last_meal', get: r => r.nutrition.intake && sortEvents(r.nutrition.intake).filter(e => e.kind === 'meal').pop()?.time },
+    { h: 'intake_kcal', get: r => round(r.energy?.intake, 0) },
+    { h: 'tdee_kcal', get: r => round(r.energy?.tdee, 0) },
+    { h: 'balance_kcal', get: r => round(r.energy?.balance, 0) },
+    { h: 'nutrition_score', get: r => round(r.scores?.nutrition) },
+    { h: 'hydration_score', get: r => round(r.scores?.hydration) },
+  ],
+  training: [
+    { h: 'steps', get: r => r.physical.steps },
+    { h: 'strength_volume_kg', get: r => round(r.physical.strengthVol, 0) },
+    { h: 'strength_sets', get: r => r.physical.sessions ? sum(r.physical.sessions.map(s => s.sets)) : undefined },
+    { h: 'runs', get: r => r.physical.runs?.length },
+    { h: 'run_km', get: r => r.physical.runs ? round(sum(r.physical.runs.map(x => x.distance)), 2) : undefined },
+    { h: 'run_min', get: r => r.physical.runs ? sum(r.physical.runs.map(x => x.duration)) : undefined },
+    { h: 'weight_kg', get: r => r.body?.weight },
+    { h: 'waist_cm', get: r => r.body?.waist },
+    { h: 'body_fat_pct', get: r => r.body?.bodyFat },
+    { h: 'physical_score', get: r => round(r.scores?.physical) },
+  ],
+  mind: [
+    { h: 'screen_min', get: r => round(r.mind.screenTime, 0) },
+    ...SCREEN_CATEGORIES.map(c => ({ h: `screen_${c.id}_min`, get: (r: DayRecord) => r.mind.screenByCategory?.[c.id] })),
+    { h: 'study_min', get: r => round(r.mind.studyMinutes, 0) },
+    ...STUDY_CATEGORIES.map(c => ({ h: `study_${c.id.replace(/[A-Z]/g, x => `_${x.toLowerCase()}`)}_min`, get: (r: DayRecord) => r.mind.study?.[c.id] })),
+    { h: 'focus_sessions', get: r => r.mind.sessions?.length },
+    { h: 'mind_score', get: r => round(r.scores?.mind) },
+  ],
+};
+
+export const EXPORT_DOMAINS: { id: ExportDomain; l: string }[] = [
+  { id: 'sleep', l: 'Sleep' },
+  { id: 'nutrition', l: 'Nutrition' },
+  { id: 'training', l: 'Training' },
+  { id: 'mind', l: 'Mind' },
+];
+
+// One row per day, oldest first; unknown values are left blank
+export const domainCsv = (history: DayHistory, domain: ExportDomain) => {
+  const cols = COLUMNS[domain];
+  const dates = Object.keys(history).sort();
+  return toCsv([
+    ['date', ...cols.map(c => c.h), 'system_score'],
+    ...dates.map(d => [d, ...cols.map(c => c.get(history[d])), round(history[d].score)]),
+  ]);
+};
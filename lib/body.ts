@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * BODY COMPOSITION TRENDS
+ * ============================================================================
+ */
+
+export interface DatedValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// Approximate energy content of a kilogram of body mass change
+export const KCAL_PER_KG = 7700;
+
+const dayDiff = (a: string, b: string) =>
+  (new Date(`${b}T00:00:00Z`).getTime() - new Date(`${a}T00:00:00Z`).getTime()) / 86400000;
+
+// Exponentially-weighted moving average over irregular weigh-ins. The
+// smoothing factor compounds across missed days so a gap after one reading
+// doesn't let the next one dominate the trend.
+export const ewma = (points: DatedValue[], alpha = 0.1): DatedValue[] => {
+  let trend: number | null = null;
+  let last = '';
+  return points.map(p => {
+    if (trend === null) trend = p.value;
+    else {
+      const a = 1 - Math.pow(1 - alpha, Math.max(1, dayDiff(last, p.date)));
+      trend = trend + a * (p.value - trend);
+    }
+    last = p.date;
+    return { date: p.date, value: trend };
+  });
+};
+
+export interface TdeeEstimate {
+  days: number;
+  expectedChange: number; // kg implied by the logged energy balance
+  actualChange: number; // kg in the smoothed trend
+  modelTdee: number; // mean of the daily modelled TDEE
+  observedTdee: number; // intake minus the energy stored as weight change
+}
+
+// Compare the modelled energy balance with the weight trend over the last
+// `window` days. Needs at least two weeks of intake logs to be meaningful.
+export const estimateTdee = (
+  trend: DatedValue[],
+  energy: { date: string; intake: number; tdee: number }[],
+  window = 28,
+): TdeeEstimate | null => {
+  if (trend.length < 2) return null;
+  const end = trend[trend.length - 1];
+  const start = [...trend].reverse().find(t => dayDiff(t.date, end.date) >= window) || trend[0];
+  const days = dayDiff(start.date, end.date);
+  const logged = energy.filter(e => e.date > start.date && e.date <= end.date && e.intake > 0);
+  if (days < 14 || logged.length < 14) return null;
+
+  const meanIntake = logged.reduce((acc, e) => acc + e.intake, 0) / logged.length;
+  const modelTdee = logged.reduce((acc, e) => acc + e.tdee, 0) / logged.length;
+  const actualChange = end.value - start.value;
+  return {
+    days,
+    expectedChange: ((meanIntake - modelTdee) * days) / KCAL_PER_KG,
+    actualChange,
+    modelTdee,
+    observedTdee: meanIntake - (actualChange * KCAL_PER_KG) / days,
+  };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calendarWeeks, generateSmoothPath, historyPoints, inRange, niceScale, rangeStart, xFraction, yFraction } from './chart';
+import { DayRecord } from '../types';
+
+describe('niceScale', () => {
+  it('rounds bounds outwards to an even step', () => {
+    expect(niceScale(3.2, 9.7)).toEqual({ min: 2, max: 10, ticks: [2, 4, 6, 8, 10] });
+  });
+
+  it('covers data crossing zero', () => {
+    const s = niceScale(-340, 510);
+    expect(s.min).toBeLessThanOrEqual(-340);
+    expect(s.max).toBeGreaterThanOrEqual(510);
+    expect(s.ticks).toContain(0);
+  });
+
+  it('gives flat series a non-empty range', () => {
+    for (const v of [0, -5, 72]) {
+      const s = niceScale(v, v);
+      expect(s.min).toBeLessThan(v);
+      expect(s.max).toBeGreaterThan(v);
+    }
+  });
+});
+
+describe('generateSmoothPath', () => {
+  const ys = (path: string) => [...path.matchAll(/[\d.-]+,([\d.-]+)/g)].map(m => Number(m[1]));
+
+  it('keeps zero-crossing data inside the plot', () => {
+    const path = generateSmoothPath([-10, 5, 10], 300, 60);
+    ys(path).forEach(y => expect(y).toBeGreaterThan(0));
+    ys(path).forEach(y => expect(y).toBeLessThan(60));
+  });
+
+  it('draws a flat series mid-height', () => {
+    ys(generateSmoothPath([0, 0], 300, 60)).forEach(y => expect(y).toBeCloseTo(30));
+  });
+});
+
+describe('date ranges', () => {
+  it('counts fixed ranges back from the end day', () => {
+    expect(rangeStart('2026-10-19', '7d')).toBe('2026-10-13');
+    expect(rangeStart('2026-10-19', 'all', '2026-01-05')).toBe('2026-01-05');
+    expect(rangeStart('2026-10-19', 'all')).toBe('2026-10-13');
+  });
+
+  it('filters points to the range', () => {
+    const pts = ['2026-10-01', '2026-10-13', '2026-10-19', '2026-10-20'].map(date => ({ date, value: 1 }));
+    expect(inRange(pts, '2026-10-19', '7d').map(p => p.date)).toEqual(['2026-10-13', '2026-10-19']);
+    expect(inRange(pts, '2026-10-19', 'all')).toHaveLength(3);
+  });
+
+  it('skips days without a finite value', () => {
+    const rec = (score: number) => ({ score }) as DayRecord;
+    expect(historyPoints({ '2026-10-02': rec(NaN), '2026-10-01': rec(60) }, r => r.score)).toEqual([{ date: '2026-10-01', value: 60 }]);
+  });
+});
+
+describe('positioning', () => {
+  it('puts line ends on the edges and bars in slots', () => {
+    expect(xFraction('2026-10-01', '2026-10-01', '2026-10-11')).toBe(0);
+    expect(xFraction('2026-10-11', '2026-10-01', '2026-10-11')).toBe(1);
+    expect(xFraction('2026-10-01', '2026-10-01', '2026-10-01')).toBe(0.5);
+    expect(xFraction('2026-10-01', '2026-10-01', '2026-10-04', true)).toBe(0.125);
+  });
+
+  it('maps the scale top to 0 and bottom to 1', () => {
+    expect(yFraction(10, { min: 0, max: 10 })).toBe(0);
+    expect(yFraction(0, { min: 0, max: 10 })).toBe(1);
+  });
+
+  it('lays out Monday-first weeks ending with the given day', () => {
+    const weeks = calendarWeeks('2026-10-19', 2); // a Monday
+    expect(weeks[1][0]).toBe('2026-10-19');
+    expect(weeks[1][6]).toBe('2026-10-25');
+    expect(weeks[0][0]).toBe('2026-10-12');
+  });
+});
@@ -0,0 +1,159 @@
+import { DayHistory, DayRecord } from '../types';
+import { shiftDate } from './day';
+
+/**
+ * ============================================================================
+ * CHART GEOMETRY
+ * ============================================================================
+ *
+ * Scales, date ranges and path builders shared by the chart components.
+ * Charts plot dates on a continuous day axis, so gaps in the history show
+ * as gaps in spacing rather than being squeezed out.
+ */
+
+export interface ChartPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string; // hex
+  points: ChartPoint[];
+  area?: boolean; // fill down to the baseline
+}
+
+// A shaded y-range, e.g. the target zone of a metric
+export interface TargetBand {
+  from: number;
+  to: number;
+  label?: string;
+  color: string; // hex
+}
+
+export type ChartRange = '7d' | '30d' | '90d' | 'all';
+
+export const CHART_RANGES: { id: ChartRange; l: string; days: number | null }[] = [
+  { id: '7d', l: '7D', days: 7 },
+  { id: '30d', l: '30D', days: 30 },
+  { id: '90d', l: '90D', days: 90 },
+  { id: 'all', l: 'All', days: null },
+];
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+// First day shown for a range ending on `end`; `all` starts at the earliest point
+export const rangeStart = (end: string, range: ChartRange, earliest?: string) => {
+  const days = CHART_RANGES.find(r => r.id === range)!.days;
+  if (days !== null) return shiftDate(end, -(days - 1));
+  return earliest && earliest < end ? earliest : shiftDate(end, -6);
+};
+
+export const inRange = <T extends { date: string }>(points: T[], end: string, range: ChartRange) => {
+  const start = rangeStart(end, range);
+  return points.filter(p => p.date <= end && (range === 'all' || p.date >= start));
+};
+
+// One point per recorded day with a finite value, oldest first
+export const historyPoints = (history: DayHistory, get: (rec: DayRecord) => number | undefined) =>
+  Object.keys(history).sort().reduce<ChartPoint[]>((acc, date) => {
+    const value = get(history[date]);
+    if (value !== undefined && Number.isFinite(value)) acc.push({ date, value });
+    return acc;
+  }, []);
+
+/**
+ * Round axis bounds and evenly spaced ticks covering [lo, hi]. A flat
+ * series gets a band around its value, so a line of zeros or of negative
+ * numbers still sits inside the plot.
+ */
+export const niceScale = (lo: number, hi: number, count = 4) => {
+  if (!Number.isFinite(lo) || !Number.isFinite(hi)) return { min: 0, max: 1, ticks: [0, 1] };
+  if (lo === hi) {
+    const pad = Math.abs(lo) * 0.1 || 1;
+    lo -= pad;
+    hi += pad;
+  }
+  const rough = (hi - lo) / count;
+  const mag = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * mag).find(s => s >= rough)!;
+  const min = Math.floor(lo / step) * step;
+  const max = Math.ceil(hi / step) * step;
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)) + 1);
+  const ticks: number[] = [];
+  for (let v = min; v <= max + step / 2; v += step) ticks.push(+v.toFixed(decimals));
+  return { min, max, ticks };
+};
+
+/**
+ * Horizontal position (0-1) of a date in [from, to]. Lines put the first
+ * and last day on the edges; bars (`slots`) centre each day in its own slot.
+ */
+export const xFraction = (date: string, from: string, to: string, slots = false) => {
+  const span = daysBetween(from, to);
+  const i = daysBetween(from, date);
+  if (slots) return (i + 0.5) / (span + 1);
+  return span === 0 ? 0.5 : i / span;
+};
+
+// Vertical position (0 top, 1 bottom) of a value on a scale
+export const yFraction = (value: number, scale: { min: number; max: number }) =>
+  1 - (value - scale.min) / (scale.max - scale.min || 1);
+
+// Columns of seven dates, Monday first, with the last column holding `end`
+export const calendarWeeks = (end: string, weeks: number) => {
+  const last = shiftDate(end, (7 - new Date(`${end}T00:00:00Z`).getUTCDay()) % 7);
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => shiftDate(last, -((weeks - 1 - w) * 7 + (6 - d)))));
+};
+
+// Smooth cubic Bézier through the given [x, y] points
+export const smoothPath = (points: number[][]) => {
+  const line = (pointA: number[], pointB: number[]) => {
+    const lengthX = pointB[0] - pointA[0];
+    const lengthY = pointB[1] - pointA[1];
+    return {
+      length: Math.sqrt(Math.pow(lengthX, 2) + Math.pow(lengthY, 2)),
+      angle: Math.atan2(lengthY, lengthX)
+    };
+  };
+
+  const controlPoint = (current: number[], previous: number[], next: number[], reverse?: boolean) => {
+    const p = previous || current;
+    const n = next || current;
+    const smoothing = 0.2;
+    const o = line(p, n);
+    const angle = o.angle + (reverse ? Math.PI : 0);
+    const length = o.length * smoothing;
+    const x = current[0] + Math.cos(angle) * length;
+    const y = current[1] + Math.sin(angle) * length;
+    return [x, y];
+  };
+
+  const bezierCommand = (point: number[], i: number, a: number[][]) => {
+    const [cpsX, cpsY] = controlPoint(a[i - 1], a[i - 2], point);
+    const [cpeX, cpeY] = controlPoint(point, a[i - 1], a[i + 1], true);
+    return `C ${cpsX},${cpsY} ${cpeX},${cpeY} ${point[0]},${point[1]}`;
+  };
+
+  return points.reduce((acc, point, i, a) => i === 0
+    ? `M ${point[0]},${point[1]}`
+    : `${acc} ${bezierCommand(point, i, a)}`
+  , "");
+};
+
+// Generate a smooth SVG path from evenly spaced values. Pass `bounds` to plot
+// several series on one shared vertical scale; otherwise the data range is
+// padded by 10% of its span, which works for negative and zero-crossing data.
+export const generateSmoothPath = (data: number[], width: number, height: number, bounds?: [number, number]) => {
+  if (data.length < 2) return "";
+  const lo = Math.min(...data);
+  const hi = Math.max(...data);
+  const pad = (hi - lo) * 0.1 || Math.abs(hi) * 0.1 || 1;
+  const [min, max] = bounds ?? [lo - pad, hi + pad];
+  const range = max - min || 1;
+
+  return smoothPath(data.map((d, i) => [(i / (data.length - 1)) * width, height - ((d - min) / range) * height]));
+};
@@ -0,0 +1,94 @@
+import { DayHistory, DayScores } from '../types';
+import { shiftDate } from './day';
+import { mean } from './stats';
+
+/**
+ * ============================================================================
+ * COACH CONTEXT
+ * ============================================================================
+ *
+ * A compact, model-agnostic summary of the active day and the week around it.
+ * Every coach provider reads this instead of the raw history so prompts stay
+ * small and the offline provider can reason over the same numbers.
+ */
+
+export type Domain = Exclude<keyof DayScores, 'system'>;
+
+export const DOMAINS: Domain[] = ['sleep', 'nutrition', 'hydration', 'physical', 'mind'];
+
+export interface CoachDay {
+  date: string;
+  score: number;
+  weakest: Domain;
+  sleepHours: number;
+  calories: number;
+  protein: number;
+  hydration: number;
+  steps: number;
+  screen: number;
+  study: number;
+}
+
+export interface CoachContext {
+  date: string;
+  today: { scores: DayScores; tdee: number; balance: number };
+  week: {
+    days: CoachDay[]; // oldest first, up to and including `date`
+    meanScore: number;
+    prevMeanScore: number | null; // the 7 days before
+    domainMeans: Record<Domain, number>;
+  };
+  alerts: string[];
+}
+
+const WEEK = 7;
+
+const weakestDomain = (scores: DayScores) => DOMAINS.reduce((lo, d) => scores[d] < scores[lo] ? d : lo, DOMAINS[0]);
+
+export const buildCoachContext = (
+  history: DayHistory,
+  date: string,
+  today: { scores: DayScores; tdee: number; balance: number },
+  alerts: string[],
+): CoachContext => {
+  const range = (from: number, to: number) => {
+    const out: string[] = [];
+    for (let i = from; i <= to; i++) out.push(shiftDate(date, -i));
+    return out.reverse().filter(d => history[d]);
+  };
+
+  const days: CoachDay[] = range(0, WEEK - 1).map(d => {
+    const r = history[d];
+    const scores = d === date ? today.scores : r.scores;
+    return {
+      date: d,
+      score: d === date ? today.scores.system : r.score,
+      weakest: scores ? weakestDomain(scores) : 'sleep',
+      sleepHours: +(r.sleep.durationMinutes / 60).toFixed(1),
+      calories: Math.round(r.nutrition.calories),
+      protein: Math.round(r.nutrition.protein),
+      hydration: Math.round(r.nutrition.hydration),
+      steps: r.physical.steps,
+      screen: r.mind.screenTime,
+      study: r.mind.studyMinutes,
+    };
+  });
+
+  const scored = range(0, WEEK - 1).map(d => d === date ? today.scores : history[d].scores).filter((s): s is DayScores => !!s);
+  const prev = range(WEEK, WEEK * 2 - 1).map(d => history[d].score);
+
+  return {
+    date,
+    today,
+    week: {
+      days,
+      meanScore: mean(days.map(d => d.score)),
+      prevMeanScore: prev.length ? mean(prev) : null,
+      domainMeans: Object.fromEntries(DOMAINS.map(d => [d, mean(scored.map(s => s[d]))])) as Record<Domain, number>,
+    },
+    alerts,
+  };
+};
+
+// Rounded JSON for the prompt; a week of data stays well under 2k tokens
+export const serializeContext = (ctx: CoachContext) => JSON.stringify(ctx, (_k, v) => typeof v === 'number' ? Math.round(v * 10) / 10 : v);
@@ -0,0 +1,93 @@
+import { BodyEntry, DayRecord, IntakeEvent, MealItem, MealSlot, MindState, SleepState, TrainingState } from '../types';
+
+/**
+ * Per-day editable state, hydrated from a stored history record.
+ * Older records only carry summary metrics, so their detail fields are
+ * reconstructed to reproduce the stored totals as closely as possible.
+ */
+export interface DayState {
+  meals: Record<MealSlot, MealItem[]>;
+  intake: IntakeEvent[]; // timed meals, caffeine and alcohol
+  hydration: number; // ml
+  training: TrainingState;
+  mind: MindState;
+  sleep: SleepState;
+  body: BodyEntry;
+}
+
+export const todayStr = () => new Date().toISOString().split('T')[0];
+
+export const shiftDate = (dateStr: string, days: number) => {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const addMinutes = (hhmm: string, minutes: number) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  const total = (((h * 60 + m + Math.round(minutes)) % 1440) + 1440) % 1440;
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+export const emptyMeals = (): Record<MealSlot, MealItem[]> => ({ breakfast: [], lunch: [], dinner: [], junk: [] });
+
+// A day without a record starts empty: nothing logged is nothing done, and
+// the first edit writes the whole state to history
+export const defaultDay = (): DayState => ({
+  meals: emptyMeals(),
+  intake: [],
+  hydration: 0,
+  training: {
+    cardio: { steps: 0, runs: [] },
+    strength: { sessions: [] },
+  },
+  mind: {
+    screenTime: { total: 0, byCategory: { social: 0, entertainment: 0, productivity: 0, communication: 0, other: 0 } },
+    study: { reading: 0, lectures: 0, deepWork: 0, practice: 0 },
+    sessions: [],
+  },
+  // Bedtime equal to waketime is no night in bed
+  sleep: {
+    bedtime: '23:00', waketime: '23:00',
+    awakenings: 0, awakeDuration: 0, qualityRating: 0,
+    naps: [],
+  },
+  body: {},
+});
+
+export const hydrateDay = (rec: DayRecord | undefined): DayState => {
+  const base = defaultDay();
+  if (!rec) return base;
+
+  const sleep: SleepState = rec.sleep?.bedtime
+    ? { ...base.sleep, ...rec.sleep, naps: rec.sleep.naps || [] }
+    : {
+        ...base.sleep,
+        waketime: addMinutes(base.sleep.bedtime, rec.sleep?.durationMinutes ?? 0),
+        awakenings: 0,
+        awakeDuration: 0,
+      };
+
+  const screenTotal = Math.round(rec.mind?.screenTime ?? 0);
+  const studyTotal = Math.round(rec.mind?.studyMinutes ?? 0);
+
+  return {
+    meals: { ...emptyMeals(), ...(rec.nutrition?.meals || {}) },
+    intake: rec.nutrition?.intake || [],
+    hydration: Math.round(rec.nutrition?.hydration ?? 0),
+    training: {
+      cardio: { steps: Math.round(rec.physical?.steps ?? 0), runs: rec.physical?.runs || [] },
+      strength: { sessions: rec.physical?.sessions || [] },
+    },
+    mind: {
+      screenTime: {
+        total: screenTotal,
+        byCategory: rec.mind?.screenByCategory || { social: 0, entertainment: 0, productivity: 0, communication: 0, other: screenTotal },
+      },
+      study: rec.mind?.study || { reading: studyTotal, lectures: 0, deepWork: 0, practice: 0 },
+      sessions: rec.mind?.sessions || [],
+    },
+    sleep,
+    body: rec.body || {},
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_PROFILES, generateDemoHistory } from './demo';
+
+describe('generateDemoHistory', () => {
+  it('gives the same history for the same seed', () => {
+    DEMO_PROFILES.forEach(p => {
+      expect(generateDemoHistory(p.id, 7, 60, '2024-03-31')).toEqual(generateDemoHistory(p.id, 7, 60, '2024-03-31'));
+    });
+  });
+
+  it('gives a different history for a different seed', () => {
+    expect(generateDemoHistory('balanced', 7, 60, '2024-03-31')).not.toEqual(generateDemoHistory('balanced', 8, 60, '2024-03-31'));
+  });
+
+  it('covers the requested days, all marked synthetic', () => {
+    const history = generateDemoHistory('athlete', 42, 30, '2024-03-31');
+    const dates = Object.keys(history).sort();
+    expect(dates).toHaveLength(30);
+    expect(dates[dates.length - 1]).toBe('2024-03-31');
+    expect(Object.values(history).every(r => r.synthetic)).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+import { DayHistory, DayRecord } from '../types';
+import { shiftDate } from './day';
+
+/**
+ * ============================================================================
+ * DEMO DATA
+ * ============================================================================
+ *
+ * Deterministic synthetic history for trying the app and for reproducible
+ * analytics: the same profile, seed, length and end date always produce the
+ * same days. Records are tagged `synthetic` and live in their own store, so
+ * they never mix with real entries.
+ *
+ * The generator is a small causal model rather than independent noise:
+ * screen time pushes bedtime later, short nights cost next-day steps and
+ * add calories, weekends shift sleep and study. That gives the correlation
+ * explorer and anomaly checks realistic structure to find.
+ */
+
+export interface DemoProfile {
+  id: string;
+  name: string;
+  description: string;
+  sleep: { bedtime: number; bedtimeSd: number; inBed: number; inBedSd: number; efficiency: number }; // minutes after 18:00, minutes, %
+  nutrition: { calories: number; protein: number; carbs: number; fat: number; hydration: number }; // kcal, g, ml
+  physical: { steps: number; stepsSd: number; liftDays: number[]; volume: number }; // liftDays: 0 = Sunday
+  mind: { screen: number; screenSd: number; study: number; weekendStudy: number }; // minutes, weekend factor
+  weight: { start: number; trend: number }; // kg, kg per week
+}
+
+export interface DemoSettings {
+  enabled: boolean;
+  profile: string;
+  seed: number;
+  days: number;
+}
+
+export const DEFAULT_DEMO: DemoSettings = { enabled: false, profile: 'balanced', seed: 42, days: 270 };
+
+export const DEMO_LENGTHS = [90, 180, 270, 365];
+
+export const DEMO_PROFILES: DemoProfile[] = [
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Regular sleep, moderate activity, lifts three times a week.',
+    sleep: { bedtime: 300, bedtimeSd: 30, inBed: 480, inBedSd: 35, efficiency: 90 },
+    nutrition: { calories: 2300, protein: 150, carbs: 260, fat: 75, hydration: 2800 },
+    physical: { steps: 9000, stepsSd: 2200, liftDays: [1, 3, 5], volume: 7000 },
+    mind: { screen: 150, screenSd: 45, study: 60, weekendStudy: 0.4 },
+    weight: { start: 78, trend: -0.05 },
+  },
+  {
+    id: 'night-owl',
+    name: 'Night Owl',
+    description: 'Late, irregular bedtimes driven by heavy screen use; short sleep.',
+    sleep: { bedtime: 375, bedtimeSd: 55, inBed: 420, inBedSd: 50, efficiency: 84 },
+    nutrition: { calories: 2500, protein: 110, carbs: 300, fat: 95, hydration: 2000 },
+    physical: { steps: 6000, stepsSd: 2500, liftDays: [2], volume: 4000 },
+    mind: { screen: 270, screenSd: 70, study: 40, weekendStudy: 0.5 },
+    weight: { start: 82, trend: 0.08 },
+  },
+  {
+    id: 'athlete',
+    name: 'Athlete',
+    description: 'High training load and protein, long consistent sleep.',
+    sleep: { bedtime: 270, bedtimeSd: 20, inBed: 525, inBedSd: 25, efficiency: 93 },
+    nutrition: { calories: 3100, protein: 200, carbs: 380, fat: 90, hydration: 3800 },
+    physical: { steps: 13000, stepsSd: 3000, liftDays: [1, 2, 4, 5, 6], volume: 12000 },
+    mind: { screen: 110, screenSd: 35, study: 30, weekendStudy: 0.5 },
+    weight: { start: 84, trend: 0.03 },
+  },
+  {
+    id: 'student',
+    name: 'Student',
+    description: 'Long study blocks in term, erratic sleep before deadlines.',
+    sleep: { bedtime: 345, bedtimeSd: 60, inBed: 450, inBedSd: 60, efficiency: 87 },
+    nutrition: { calories: 2100, protein: 95, carbs: 270, fat: 70, hydration: 2200 },
+    physical: { steps: 7500, stepsSd: 2500, liftDays: [3, 6], volume: 5000 },
+    mind: { screen: 200, screenSd: 60, study: 150, weekendStudy: 0.7 },
+    weight: { start: 68, trend: 0 },
+  },
+];
+
+export const getDemoProfile = (id: string) => DEMO_PROFILES.find(p => p.id === id) || DEMO_PROFILES[0];
+
+// mulberry32: tiny 32-bit PRNG, plenty for synthetic data
+export const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal via Box-Muller
+const gaussian = (rand: () => number) => () => {
+  const u = 1 - rand();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+const hhmm = (minutesAfter18: number) => {
+  const total = ((Math.round(minutesAfter18) + 18 * 60) % 1440 + 1440) % 1440;
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * `days` consecutive days ending on `endDate`. Returned records carry
+ * summary metrics and sleep detail; scores are left to backfillScores.
+ */
+export const generateDemoHistory = (profileId: string, seed: number, days: number, endDate: string): DayHistory => {
+  const p = getDemoProfile(profileId);
+  const rand = mulberry32(seed);
+  const z = gaussian(rand);
+  const history: DayHistory = {};
+
+  let prevSleep = p.sleep.inBed * p.sleep.efficiency / 100;
+  let mood = 0; // AR(1) latent "good week / bad week" state
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = shiftDate(endDate, -i);
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const weekend = weekday === 0 || weekday === 6;
+    const elapsedWeeks = (days - 1 - i) / 7;
+    mood = 0.8 * mood + 0.6 * z();
+
+    // Mind: screen time drives tonight's bedtime
+    const screen = clamp(p.mind.screen * (weekend ? 1.25 : 1) + p.mind.screenSd * (z() - 0.3 * mood), 10, 720);
+    const study = clamp(p.mind.study * (weekend ? p.mind.weekendStudy : 1) * (1 + 0.35 * z() + 0.1 * mood), 0, 600);
+
+    // Sleep: later bedtimes are only partly compensated by later waking
+    const bedDelay = p.sleep.bedtimeSd * z() + 0.3 * (screen - p.mind.screen) + (weekend ? 45 : 0);
+    const inBed = clamp(p.sleep.inBed - 0.6 * bedDelay + (weekend ? 50 : 0) + p.sleep.inBedSd * 0.5 * z(), 180, 720);
+    const efficiency = clamp(p.sleep.efficiency + 3 * z() + mood, 60, 99);
+    const asleep = inBed * efficiency / 100;
+    const awake = Math.round(inBed - asleep);
+    const bedtime = p.sleep.bedtime + bedDelay;
+
+    // A short night yesterday costs steps and adds calories today
+    const debt = (p.sleep.inBed * p.sleep.efficiency / 100 - prevSleep) / 60; // hours
+    const steps = clamp(p.physical.steps + p.physical.stepsSd * z() - 700 * debt + 400 * mood, 500, 40000);
+    const lifted = p.physical.liftDays.includes(weekday) && rand() > 0.1;
+    const volume = lifted ? clamp(p.physical.volume * (1 + 0.2 * z()), 0, 50000) : 0;
+
+    const appetite = 1 + 0.06 * z() + 0.04 * debt + (weekend ? 0.08 : 0);
+    const calories = p.nutrition.calories * appetite;
+    const hydration = clamp(p.nutrition.hydration * (1 + 0.15 * z()) + 0.05 * (steps - p.physical.steps), 500, 7000);
+
+    const record: DayRecord = {
+      sleep: {
+        durationMinutes: Math.round(asleep),
+        efficiency: +efficiency.toFixed(1),
+        bedtime: hhmm(bedtime),
+        waketime: hhmm(bedtime + inBed),
+        awakenings: Math.max(0, Math.round(awake / 12 + z())),
+        awakeDuration: awake,
+        qualityRating: Math.round(clamp(5 + (efficiency - 85) / 3 + (asleep - 420) / 60, 1, 10)),
+        naps: [],
+      },
+      nutrition: {
+        calories: Math.round(calories),
+        protein: Math.round(p.nutrition.protein * (1 + 0.12 * z()) + (lifted ? 15 : 0)),
+        carbs: Math.round(p.nutrition.carbs * appetite * (1 + 0.08 * z())),
+        fat: Math.round(p.nutrition.fat * appetite * (1 + 0.1 * z())),
+        hydration: Math.round(hydration / 50) * 50,
+      },
+      physical: { steps: Math.round(steps), strengthVol: Math.round(volume / 10) * 10 },
+      mind: { screenTime: Math.round(screen), studyMinutes: Math.round(study) },
+      score: 0,
+      synthetic: true,
+    };
+    if (rand() < 0.7) {
+      record.body = { weight: +(p.weight.start + p.weight.trend * elapsedWeeks + 0.4 * z()).toFixed(1) };
+    }
+    history[date] = record;
+    prevSleep = asleep;
+  }
+  return history;
+};
+
+/**
+ * Records written by the old first-run seeder. They predate the synthetic
+ * tag but are recognisable: summary metrics only, and fractional step
+ * counts, which no real entry has ever had.
+ */
+export const isLegacySeed = (rec: DayRecord) => !rec.synthetic
+  && !rec.nutrition.meals && rec.sleep.bedtime === undefined
+  && !Number.isInteger(rec.physical.steps);
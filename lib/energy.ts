@@ -0,0 +1,50 @@
+import { EXERCISE_DB } from '../constants';
+import { RunEntry, StrengthEntry, UserProfile } from '../types';
+
+/**
+ * ============================================================================
+ * ENERGY EXPENDITURE
+ * ============================================================================
+ */
+
+// Resting metabolic rate in kcal/day. Katch-McArdle needs a body-fat
+// estimate and falls back to Mifflin-St Jeor without one.
+export const calculateBmr = (profile: UserProfile) => {
+  const { weight, height, age, gender } = profile;
+  const male = gender === 'male';
+  switch (profile.bmrFormula) {
+    case 'katch':
+      if (profile.bodyFat != null && profile.bodyFat > 0) {
+        const leanMass = weight * (1 - profile.bodyFat / 100);
+        return 370 + 21.6 * leanMass;
+      }
+      break;
+    case 'harris':
+      // Roza & Shizgal (1984) revision
+      return male
+        ? 88.362 + (13.397 * weight) + (4.799 * height) - (5.677 * age)
+        : 447.593 + (9.247 * weight) + (3.098 * height) - (4.330 * age);
+  }
+  return (10 * weight) + (6.25 * height) - (5 * age) + (male ? 5 : -161);
+};
+
+// Walking cost scales with body mass: ~0.5 kcal per kg per 1000 steps
+export const stepBurn = (steps: number, weight: number) => steps * weight * 0.0005;
+
+// Running costs ~1 kcal per kg per km regardless of pace
+export const runBurn = (runs: RunEntry[], weight: number) =>
+  runs.reduce((acc, r) => acc + r.distance * weight, 0);
+
+export const strengthBurn = (sessions: StrengthEntry[]) =>
+  sessions.reduce((acc, s) => {
+    const ex = EXERCISE_DB.find(e => e.id === s.exerciseId);
+    return acc + (ex ? ex.calPerRep * s.sets * s.reps : 0);
+  }, 0);
+
+export const calculateEnergy = (profile: UserProfile, steps: number, runs: RunEntry[], sessions: StrengthEntry[]) => {
+  const bmr = calculateBmr(profile);
+  const baseline = bmr * profile.activityFactor;
+  const walking = stepBurn(steps, profile.weight);
+  const exercise = runBurn(runs, profile.weight) + strengthBurn(sessions);
+  return { bmr, baseline, walking, exercise, tdee: baseline + walking + exercise };
+};
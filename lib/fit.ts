@@ -0,0 +1,133 @@
+/**
+ * ============================================================================
+ * FIT DECODER (activity summaries only)
+ * ============================================================================
+ *
+ * Reads the binary Garmin FIT container far enough to pull `session`
+ * messages out of an activity file. Everything else is skipped by size,
+ * so unknown and developer fields do not need to be understood. When a
+ * file has no session message, one is derived from its `record` stream.
+ */
+
+export interface FitSession {
+  start: number; // epoch ms
+  duration: number; // seconds, timer time when known
+  distance: number; // metres
+  sport?: number; // FIT sport enum, 1 = running
+}
+
+const FIT_EPOCH = Date.UTC(1989, 11, 31);
+
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+
+// Field numbers within the messages above
+const F_TIMESTAMP = 253;
+const F_SESSION_START = 2;
+const F_SESSION_SPORT = 5;
+const F_SESSION_ELAPSED = 7;
+const F_SESSION_TIMER = 8;
+const F_SESSION_DISTANCE = 9;
+const F_RECORD_DISTANCE = 5;
+
+export const FIT_SPORT_RUNNING = 1;
+
+interface FieldDef {
+  num: number;
+  size: number;
+}
+
+interface MessageDef {
+  global: number;
+  littleEndian: boolean;
+  fields: FieldDef[];
+  devSize: number; // bytes of developer fields, skipped
+}
+
+export const isFit = (buf: ArrayBuffer) =>
+  buf.byteLength >= 12 && new TextDecoder().decode(new Uint8Array(buf, 8, 4)) === '.FIT';
+
+// Unsigned value of a 1, 2 or 4 byte field; all-ones is FIT's "invalid"
+const readUint = (view: DataView, offset: number, size: number, le: boolean) => {
+  const v = size === 1 ? view.getUint8(offset)
+    : size === 2 ? view.getUint16(offset, le)
+    : size === 4 ? view.getUint32(offset, le)
+    : undefined;
+  return v === undefined || v === 2 ** (size * 8) - 1 ? undefined : v;
+};
+
+// Throws on a file that is not FIT or is cut short
+export const decodeFit = (buf: ArrayBuffer): FitSession[] => {
+  if (!isFit(buf)) throw new Error('not a FIT file');
+  const view = new DataView(buf);
+  const headerSize = view.getUint8(0);
+  const end = Math.min(buf.byteLength, headerSize + view.getUint32(4, true));
+  const defs = new Map<number, MessageDef>();
+  const sessions: FitSession[] = [];
+  const records: { t: number; d: number }[] = [];
+  let lastTimestamp = 0; // FIT seconds, for compressed timestamp headers
+
+  let pos = headerSize;
+  while (pos < end) {
+    const header = view.getUint8(pos++);
+
+    if (header & 0x40 && !(header & 0x80)) {
+      const local = header & 0x0f;
+      const littleEndian = view.getUint8(pos + 1) === 0;
+      const global = view.getUint16(pos + 2, littleEndian);
+      const count = view.getUint8(pos + 4);
+      pos += 5;
+      const fields: FieldDef[] = [];
+      for (let i = 0; i < count; i++, pos += 3) fields.push({ num: view.getUint8(pos), size: view.getUint8(pos + 1) });
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = view.getUint8(pos++);
+        for (let i = 0; i < devCount; i++, pos += 3) devSize += view.getUint8(pos + 1);
+      }
+      defs.set(local, { global, littleEndian, fields, devSize });
+      continue;
+    }
+
+    // Data message, with a normal or compressed timestamp header
+    const compressed = (header & 0x80) !== 0;
+    const local = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+    const def = defs.get(local);
+    if (!def) throw new Error(`undefined local message ${local}`);
+    const values: Record<number, number | undefined> = {};
+    def.fields.forEach(f => {
+      values[f.num] = readUint(view, pos, f.size, def.littleEndian);
+      pos += f.size;
+    });
+    pos += def.devSize;
+    if (pos > end) throw new Error('truncated file');
+
+    if (compressed) {
+      const offset = header & 0x1f;
+      lastTimestamp += (offset - (lastTimestamp & 0x1f) + 32) % 32;
+      values[F_TIMESTAMP] = lastTimestamp;
+    } else if (values[F_TIMESTAMP] !== undefined) {
+      lastTimestamp = values[F_TIMESTAMP]!;
+    }
+
+    if (def.global === MESG_SESSION) {
+      const start = values[F_SESSION_START] ?? values[F_TIMESTAMP];
+      const time = values[F_SESSION_TIMER] ?? values[F_SESSION_ELAPSED];
+      if (start === undefined || time === undefined) continue;
+      sessions.push({
+        start: FIT_EPOCH + start * 1000,
+        duration: time / 1000,
+        distance: (values[F_SESSION_DISTANCE] ?? 0) / 100,
+        sport: values[F_SESSION_SPORT],
+      });
+    } else if (def.global === MESG_RECORD && values[F_TIMESTAMP] !== undefined && values[F_RECORD_DISTANCE] !== undefined) {
+      records.push({ t: values[F_TIMESTAMP]!, d: values[F_RECORD_DISTANCE]! / 100 });
+    }
+  }
+
+  if (sessions.length === 0 && records.length > 1) {
+    const first = records[0];
+    const last = records[records.length - 1];
+    sessions.push({ start: FIT_EPOCH + first.t * 1000, duration: last.t - first.t, distance: last.d - first.d });
+  }
+  return sessions;
+};
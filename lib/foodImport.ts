@@ -0,0 +1,171 @@
+import { Ingredient, Macros, Serving } from '../types';
+import { createId } from './id';
+import { parseCsv } from './csv';
+
+/**
+ * ============================================================================
+ * FOOD IMPORT (CSV / JSON)
+ * ============================================================================
+ *
+ * All nutrient values in imported files are per 100 g, as printed on labels
+ * and in USDA FoodData Central; they are stored per gram. See the "Food
+ * import" section of the README for the accepted formats.
+ */
+
+export interface FoodImportResult {
+  foods: Ingredient[];
+  errors: string[];
+}
+
+type Field = keyof Macros | 'name' | 'density' | 'serving' | 'servingG';
+
+// Normalised header (lowercase alphanumerics) -> field
+const CSV_ALIASES: Record<string, Field> = {};
+const alias = (field: Field, names: string[]) => names.forEach(n => { CSV_ALIASES[n.toLowerCase().replace(/[^a-z0-9]/g, '')] = field; });
+alias('name', ['name', 'description', 'food']);
+alias('cal', ['kcal', 'calories', 'energy', 'energy_kcal', 'Energy (KCAL)']);
+alias('p', ['protein', 'protein_g', 'Protein (G)']);
+alias('c', ['carbs', 'carbohydrate', 'carbs_g', 'Carbohydrate, by difference (G)']);
+alias('f', ['fat', 'fat_g', 'Total lipid (fat) (G)']);
+alias('fiber', ['fiber', 'fibre', 'fiber_g', 'Fiber, total dietary (G)']);
+alias('sugar', ['sugar', 'sugars', 'sugar_g', 'Sugars, total including NLEA (G)', 'Total Sugars (G)']);
+alias('sodium', ['sodium', 'sodium_mg', 'Sodium, Na (MG)']);
+alias('potassium', ['potassium', 'potassium_mg', 'Potassium, K (MG)']);
+alias('calcium', ['calcium', 'calcium_mg', 'Calcium, Ca (MG)']);
+alias('iron', ['iron', 'iron_mg', 'Iron, Fe (MG)']);
+alias('vitaminC', ['vitamin_c', 'vitamin_c_mg', 'vitaminc', 'Vitamin C, total ascorbic acid (MG)']);
+alias('density', ['density', 'density_g_per_ml', 'g_per_ml']);
+alias('serving', ['serving', 'serving_name', 'serving_label']);
+alias('servingG', ['serving_g', 'serving_grams', 'serving_size_g']);
+
+// FoodData Central nutrient numbers
+const FDC_NUTRIENTS: Record<string, keyof Macros> = {
+  '208': 'cal', '957': 'cal', '958': 'cal', '203': 'p', '205': 'c', '204': 'f', '291': 'fiber',
+  '269': 'sugar', '269.3': 'sugar', '307': 'sodium', '306': 'potassium', '301': 'calcium', '303': 'iron', '401': 'vitaminC',
+};
+
+const REQUIRED: (keyof Macros)[] = ['cal', 'p', 'c', 'f'];
+const MACRO_FIELDS = new Set<string>([...REQUIRED, 'fiber', 'sugar', 'sodium', 'potassium', 'calcium', 'iron', 'vitaminC']);
+
+// Validate and convert one food given per 100 g; returns an error message when invalid
+export const foodFromPer100g = (name: string, per100g: Partial<Record<keyof Macros, number>>, extra: { density?: number; servings?: Serving[] }): Ingredient | string => {
+  if (!name.trim()) return 'missing name';
+  const missing = REQUIRED.filter(k => per100g[k] === undefined || !Number.isFinite(per100g[k]));
+  if (missing.length) return `${name}: missing ${missing.join(', ')}`;
+  const macros = {} as Macros;
+  (Object.keys(per100g) as (keyof Macros)[]).forEach(k => {
+    const v = per100g[k];
+    if (v !== undefined && Number.isFinite(v)) macros[k] = +(v / 100).toPrecision(6);
+  });
+  return {
+    id: `food_${createId()}`,
+    name: name.trim(),
+    macros,
+    custom: true,
+    ...(extra.density ? { density: extra.density } : {}),
+    ...(extra.servings?.length ? { servings: extra.servings } : {}),
+  };
+};
+
+const collect = (results: (Ingredient | string)[]): FoodImportResult => ({
+  foods: results.filter((r): r is Ingredient => typeof r !== 'string'),
+  errors: results.filter((r): r is string => typeof r === 'string'),
+});
+
+export const parseFoodCsv = (text: string): FoodImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { foods: [], errors: ['empty file'] };
+  const fields = header.map(h => CSV_ALIASES[h.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+  if (!fields.includes('name')) return { foods: [], errors: ['no "name" column'] };
+
+  return collect(rows.map((row, i) => {
+    const per100g: Partial<Record<keyof Macros, number>> = {};
+    let name = '';
+    let serving = '';
+    let servingG = NaN;
+    let density: number | undefined;
+    row.forEach((cell, j) => {
+      const field = fields[j];
+      const value = cell.trim();
+      if (!field || value === '') return;
+      if (field === 'name') name = value;
+      else if (field === 'serving') serving = value;
+      else if (field === 'servingG') servingG = Number(value);
+      else if (field === 'density') density = Number(value) || undefined;
+      else per100g[field] = Number(value);
+    });
+    const food = foodFromPer100g(name, per100g, { density, servings: serving && servingG > 0 ? [{ l: serving, g: servingG }] : [] });
+    return typeof food === 'string' ? `row ${i + 2}: ${food}` : food;
+  }));
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const records = (v: unknown) => (Array.isArray(v) ? v : []).filter(isRecord);
+// `v[key]` when v is an object, for optional nested FDC fields
+const field = (v: unknown, key: string) => (isRecord(v) ? v[key] : undefined);
+
+// A FoodData Central food (Foundation, SR Legacy, Survey or Branded)
+const fromFdc = (item: Record<string, unknown>): Ingredient | string => {
+  const per100g: Partial<Record<keyof Macros, number>> = {};
+  records(item.foodNutrients).forEach(n => {
+    const number = String(field(n.nutrient, 'number') ?? n.nutrientNumber ?? n.number ?? '');
+    const key = FDC_NUTRIENTS[number];
+    const amount = Number(n.amount ?? n.value);
+    const unit = String(field(n.nutrient, 'unitName') ?? n.unitName ?? '').toLowerCase();
+    // Energy is also reported in kJ under the same name
+    if (key && Number.isFinite(amount) && !(key === 'cal' && unit === 'kj') && per100g[key] === undefined) per100g[key] = amount;
+  });
+  const servings: Serving[] = records(item.foodPortions)
+    .filter(p => Number(p.gramWeight) > 0)
+    .map(p => {
+      const measure = field(p.measureUnit, 'name');
+      return {
+        l: [p.amount, measure !== 'undetermined' ? measure : '', p.modifier || p.portionDescription].filter(Boolean).join(' ').trim() || 'portion',
+        g: Number(p.gramWeight),
+      };
+    });
+  const servingSize = Number(item.servingSize);
+  if (servingSize > 0 && String(item.servingSizeUnit).toLowerCase() === 'g') {
+    servings.push({ l: String(item.householdServingFullText || 'serving'), g: servingSize });
+  }
+  return foodFromPer100g(String(item.description ?? ''), per100g, { servings });
+};
+
+// The native format: { name, per100g: { kcal, protein, ... }, servings?, density? }
+const fromNative = (item: unknown): Ingredient | string => {
+  if (!isRecord(item)) return 'not a food object';
+  const src = isRecord(item.per100g) ? item.per100g : {};
+  const per100g: Partial<Record<keyof Macros, number>> = {};
+  Object.keys(src).forEach(k => {
+    const field = CSV_ALIASES[k.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (field && MACRO_FIELDS.has(field)) per100g[field as keyof Macros] = Number(src[k]);
+  });
+  const servings: Serving[] = Array.isArray(item.servings)
+    ? item.servings
+        .filter((s: unknown): s is Record<string, unknown> => isRecord(s) && !!s.l && Number(s.g) > 0)
+        .map(s => ({ l: String(s.l), g: Number(s.g) }))
+    : [];
+  return foodFromPer100g(String(item.name ?? ''), per100g, { density: Number(item.density) || undefined, servings });
+};
+
+export const parseFoodJson = (text: string): FoodImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { foods: [], errors: ['invalid JSON'] };
+  }
+  if (!isRecord(data) && !Array.isArray(data)) return { foods: [], errors: ['no foods found'] };
+  const items: unknown[] = Array.isArray(data) ? data
+    : [data.FoundationFoods, data.SRLegacyFoods, data.SurveyFoods, data.BrandedFoods, data.foods].filter(Array.isArray).flat();
+  if (!items.length) return { foods: [], errors: ['no foods found'] };
+  return collect(items.map((item, i) => {
+    const food = isRecord(item) && Array.isArray(item.foodNutrients) ? fromFdc(item) : fromNative(item);
+    return typeof food === 'string' ? `item ${i + 1}: ${food}` : food;
+  }));
+};
+
+export const parseFoodFile = (name: string, text: string) =>
+  name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{') || text.trimStart().startsWith('[')
+    ? parseFoodJson(text)
+    : parseFoodCsv(text);
@@ -0,0 +1,77 @@
+import { DayHistory, Ingredient, Macros, MealItem, MealSlot, NutrientKey } from '../types';
+import { NUTRIENTS } from '../constants';
+import { shiftDate } from './day';
+
+/**
+ * ============================================================================
+ * FOOD DATABASE
+ * ============================================================================
+ *
+ * Built-in ingredients plus the user's custom and imported foods, and the
+ * nutrient arithmetic shared by meal totals and composed dishes.
+ */
+
+export type NutrientTotals = Required<Macros>;
+
+export const NUTRIENT_KEYS: NutrientKey[] = NUTRIENTS.map(n => n.id);
+
+export const emptyTotals = (): NutrientTotals => ({
+  cal: 0, p: 0, c: 0, f: 0, fiber: 0, sugar: 0, sodium: 0, potassium: 0, calcium: 0, iron: 0, vitaminC: 0,
+});
+
+// Add `grams` of a per-gram density into running totals; unknown nutrients count as zero
+export const addNutrients = (totals: NutrientTotals, macros: Macros, grams: number) => {
+  (Object.keys(totals) as (keyof NutrientTotals)[]).forEach(k => { totals[k] += (macros[k] ?? 0) * grams; });
+  return totals;
+};
+
+export const itemMacros = (item: MealItem, foods: Ingredient[]) => item.macros || foods.find(f => f.id === item.id)?.macros;
+
+export const mealTotals = (meals: Record<MealSlot, MealItem[]>, foods: Ingredient[]) => {
+  const totals = emptyTotals();
+  (Object.keys(meals) as MealSlot[]).forEach(slot => meals[slot].forEach(item => {
+    const macros = itemMacros(item, foods);
+    if (macros) addNutrients(totals, macros, item.amount);
+  }));
+  return totals;
+};
+
+// Only the extra nutrients that some component actually reports
+export const knownNutrients = (macros: Macros) => {
+  const out: Partial<Record<NutrientKey, number>> = {};
+  NUTRIENT_KEYS.forEach(k => { if (macros[k] !== undefined) out[k] = macros[k]; });
+  return out;
+};
+
+/**
+ * Foods logged within `days` before `date`: most recent first, and most
+ * often logged first.
+ */
+export const foodUsage = (history: DayHistory, date: string, days = 30) => {
+  const stats: Record<string, { count: number; last: string }> = {};
+  for (let i = 0; i < days; i++) {
+    const d = shiftDate(date, -i);
+    const meals = history[d]?.nutrition.meals;
+    if (!meals) continue;
+    (Object.keys(meals) as MealSlot[]).forEach(slot => meals[slot].forEach(item => {
+      const s = stats[item.id] || (stats[item.id] = { count: 0, last: d });
+      s.count++;
+      if (d > s.last) s.last = d;
+    }));
+  }
+  const ids = Object.keys(stats);
+  return {
+    recent: [...ids].sort((a, b) => stats[b].last.localeCompare(stats[a].last) || stats[b].count - stats[a].count),
+    frequent: [...ids].sort((a, b) => stats[b].count - stats[a].count),
+  };
+};
+
+// Custom foods replace same-named ones (keeping their id so old logs resolve)
+export const mergeCustomFoods = (existing: Ingredient[], incoming: Ingredient[]) => {
+  const byName = new Map(existing.map(f => [f.name.toLowerCase(), f]));
+  incoming.forEach(f => {
+    const prev = byName.get(f.name.toLowerCase());
+    byName.set(f.name.toLowerCase(), prev ? { ...f, id: prev.id } : f);
+  });
+  return [...byName.values()];
+};
@@ -0,0 +1,183 @@
+import { DayHistory, DayRecord } from '../types';
+import { EXERCISE_DB } from '../constants';
+import { shiftDate } from './day';
+import { getMetric } from './metrics';
+
+/**
+ * ============================================================================
+ * GOALS & STREAKS
+ * ============================================================================
+ *
+ * Three kinds of goal, all evaluated against stored history:
+ *  - daily:     the condition holds every day ("10k steps daily")
+ *  - frequency: it holds on `times` of the last `window` days ("sleep ≥7h
+ *               on 5 of 7 nights")
+ *  - milestone: a value is reached by a deadline ("squat 140 kg by March")
+ * The day being logged never breaks a streak: until it meets the goal, the
+ * streak is counted up to yesterday.
+ */
+
+export type GoalKind = 'daily' | 'frequency' | 'milestone';
+export type GoalOp = 'gte' | 'lte';
+
+export interface Goal {
+  id: string;
+  kind: GoalKind;
+  metric: string; // GOAL_METRICS id
+  op: GoalOp;
+  value: number;
+  times?: number; // frequency
+  window?: number; // frequency, days
+  deadline?: string; // milestone, YYYY-MM-DD
+  created: string; // YYYY-MM-DD
+}
+
+export interface GoalMetric {
+  id: string;
+  l: string;
+  unit: string;
+  get: (rec: DayRecord) => number | undefined;
+}
+
+// Heaviest working set of one exercise that day
+const topSet = (exerciseId: string) => (rec: DayRecord) => {
+  const sets = (rec.physical.sessions || []).filter(s => s.exerciseId === exerciseId && s.reps > 0);
+  return sets.length ? Math.max(...sets.map(s => s.weight)) : undefined;
+};
+
+export const GOAL_METRICS: GoalMetric[] = [
+  ...['sleep', 'efficiency', 'steps', 'strengthVol', 'calories', 'protein', 'hydration', 'study', 'screen', 'score']
+    .map(id => getMetric(id))
+    .map(m => ({ id: m.id, l: m.l, unit: m.unit, get: m.get })),
+  { id: 'weight', l: 'Body Weight', unit: 'kg', get: r => r.body?.weight },
+  ...EXERCISE_DB.map(ex => ({ id: `lift:${ex.id}`, l: ex.name, unit: 'kg', get: topSet(ex.id) })),
+];
+
+export const getGoalMetric = (id: string) => GOAL_METRICS.find(m => m.id === id) || GOAL_METRICS[0];
+
+export const TIMELINE_DAYS = 28;
+
+export interface GoalStatus {
+  goal: Goal;
+  label: string;
+  progress: number; // 0-1
+  met: boolean; // currently satisfied
+  streak: number; // days (daily) or consecutive windows (frequency)
+  best: number;
+  detail: string;
+  timeline: { date: string; hit: boolean | null }[]; // null: no data that day
+}
+
+const fmt = (v: number) => Number.isInteger(v) ? v.toLocaleString() : v.toFixed(1);
+
+export const goalLabel = (goal: Goal) => {
+  const m = getGoalMetric(goal.metric);
+  const cond = `${m.l} ${goal.op === 'gte' ? '≥' : '≤'} ${fmt(goal.value)} ${m.unit}`;
+  if (goal.kind === 'frequency') return `${cond} on ${goal.times} of ${goal.window} days`;
+  if (goal.kind === 'milestone') return `${cond} by ${goal.deadline}`;
+  return `${cond} daily`;
+};
+
+const valueOn = (goal: Goal, history: DayHistory, date: string) => {
+  const rec = history[date];
+  const v = rec ? getGoalMetric(goal.metric).get(rec) : undefined;
+  return v !== undefined && Number.isFinite(v) ? v : undefined;
+};
+
+const hitOn = (goal: Goal, history: DayHistory, date: string): boolean | null => {
+  const v = valueOn(goal, history, date);
+  if (v === undefined) return null;
+  return goal.op === 'gte' ? v >= goal.value : v <= goal.value;
+};
+
+// Runs of consecutive true values, newest first; `skipFirst` ignores an unmet open period
+const streaks = (hits: boolean[], skipFirst: boolean) => {
+  const from = skipFirst && !hits[0] ? 1 : 0;
+  let current = 0;
+  while (from + current < hits.length && hits[from + current]) current++;
+  let best = 0;
+  let run = 0;
+  hits.forEach(h => { run = h ? run + 1 : 0; best = Math.max(best, run); });
+  return { current, best };
+};
+
+// Days from `created` (or the first recorded day, if later) through asOf, newest first
+const trackedDays = (goal: Goal, history: DayHistory, asOf: string) => {
+  const first = Object.keys(history).sort()[0];
+  const start = first && first > goal.created ? first : goal.created;
+  const days: string[] = [];
+  for (let d = asOf; d >= start; d = shiftDate(d, -1)) days.push(d);
+  return days;
+};
+
+const evaluateMilestone = (goal: Goal, history: DayHistory, asOf: string) => {
+  const m = getGoalMetric(goal.metric);
+  const better = (a: number, b: number) => goal.op === 'gte' ? a > b : a < b;
+  const dates = Object.keys(history).filter(d => d <= asOf).sort();
+  const values = dates.map(d => ({ date: d, v: m.get(history[d]) })).filter((x): x is { date: string; v: number } => x.v !== undefined);
+
+  // Baseline: the last value before the goal was set, else the first one after
+  const before = values.filter(x => x.date < goal.created);
+  const baseline = before.length ? before[before.length - 1].v : values[0]?.v;
+  const since = values.filter(x => x.date >= goal.created);
+  const best = since.reduce<number | undefined>((b, x) => b === undefined || better(x.v, b) ? x.v : b, undefined);
+
+  const met = best !== undefined && (goal.op === 'gte' ? best >= goal.value : best <= goal.value);
+  const span = goal.value - (baseline ?? 0);
+  const progress = met ? 1 : best === undefined || baseline === undefined || span === 0 ? 0 : Math.max(0, Math.min(1, (best - baseline) / span));
+  const left = goal.deadline ? Math.round((Date.parse(`${goal.deadline}T00:00:00Z`) - Date.parse(`${asOf}T00:00:00Z`)) / 86_400_000) : null;
+  const when = met ? 'achieved' : left === null ? '' : left < 0 ? `${-left} days overdue` : `${left} days left`;
+  return {
+    progress,
+    met,
+    detail: `${best === undefined ? '–' : fmt(best)} / ${fmt(goal.value)} ${m.unit}${when ? ` • ${when}` : ''}`,
+  };
+};
+
+export const evaluateGoal = (goal: Goal, history: DayHistory, asOf: string): GoalStatus => {
+  const timeline = Array.from({ length: TIMELINE_DAYS }, (_, i) => {
+    const date = shiftDate(asOf, i - TIMELINE_DAYS + 1);
+    return { date, hit: date < goal.created ? null : hitOn(goal, history, date) };
+  });
+  const base = { goal, label: goalLabel(goal), timeline };
+
+  if (goal.kind === 'milestone') return { ...base, ...evaluateMilestone(goal, history, asOf), streak: 0, best: 0 };
+
+  const days = trackedDays(goal, history, asOf);
+  const hits = days.map(d => hitOn(goal, history, d) === true);
+
+  if (goal.kind === 'daily') {
+    const { current, best } = streaks(hits, true);
+    const today = valueOn(goal, history, asOf);
+    const m = getGoalMetric(goal.metric);
+    // Share of the way to the target today; "at most" goals only lose ground past it
+    const progress = today === undefined ? 0
+      : goal.op === 'gte' ? (goal.value > 0 ? Math.min(1, today / goal.value) : 1)
+      : today <= goal.value ? 1 : goal.value / today;
+    return {
+      ...base,
+      progress,
+      met: hits[0] ?? false,
+      streak: current,
+      best,
+      detail: `${today === undefined ? '–' : fmt(today)} / ${fmt(goal.value)} ${m.unit} today`,
+    };
+  }
+
+  // Frequency: consecutive windows ending on asOf, asOf - window, ...
+  const window = Math.max(1, goal.window ?? 7);
+  const times = Math.max(1, Math.min(window, goal.times ?? window));
+  const count = (from: number) => hits.slice(from, from + window).filter(Boolean).length;
+  const windows: boolean[] = [];
+  for (let i = 0; i + window <= hits.length || i === 0; i += window) windows.push(count(i) >= times);
+  const { current, best } = streaks(windows, true);
+  const done = count(0);
+  return {
+    ...base,
+    progress: Math.min(1, done / times),
+    met: done >= times,
+    streak: current,
+    best,
+    detail: `${done}/${times} in the last ${window} days`,
+  };
+};
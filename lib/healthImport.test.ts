@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { DayHistory, DayRecord, RunEntry } from '../types';
+import { HealthData, combineHealthData, emptyHealthData, parseHealthFile, planHealthImport } from './healthImport';
+
+// Recordings fall within 10:00-11:00 UTC, the same date from UTC-10 to UTC+13
+const T0 = Date.UTC(2024, 2, 9, 10, 0);
+const iso = (ms: number) => new Date(ms).toISOString();
+const nanos = (ms: number) => `${ms}000000`;
+
+const textFile = (name: string, text: string) => parseHealthFile(name, new TextEncoder().encode(text).buffer as ArrayBuffer);
+
+// FIT file holding one session message per entry: start, sport, timer, distance
+const fitFile = (sessions: { start: number; sport: number; seconds: number; metres: number }[]) => {
+  const def = [0x40, 0, 0, 18, 0, 4, 2, 4, 0x86, 5, 1, 0, 8, 4, 0x86, 9, 4, 0x86];
+  const dataSize = def.length + sessions.length * 14;
+  const view = new DataView(new ArrayBuffer(12 + dataSize));
+  view.setUint8(0, 12);
+  view.setUint32(4, dataSize, true);
+  '.FIT'.split('').forEach((c, i) => view.setUint8(8 + i, c.charCodeAt(0)));
+  def.forEach((b, i) => view.setUint8(12 + i, b));
+  sessions.forEach((s, i) => {
+    const at = 12 + def.length + i * 14;
+    view.setUint8(at, 0);
+    view.setUint32(at + 1, (s.start - Date.UTC(1989, 11, 31)) / 1000, true);
+    view.setUint8(at + 5, s.sport);
+    view.setUint32(at + 6, s.seconds * 1000, true);
+    view.setUint32(at + 10, s.metres * 100, true);
+  });
+  return parseHealthFile('activity.fit', view.buffer);
+};
+
+describe('parseHealthFile', () => {
+  it('reads GPX tracks, skipping ones that are not runs', () => {
+    const trk = (type: string) => `<trk><type>${type}</type><trkseg>
+      <trkpt lat="52.0" lon="13.0"><time>${iso(T0)}</time></trkpt>
+      <trkpt lat="52.009" lon="13.0"><time>${iso(T0 + 300_000)}</time></trkpt>
+    </trkseg></trk>`;
+    const f = textFile('morning.gpx', `<?xml version="1.0"?><gpx version="1.1">${trk('running')}${trk('cycling')}</gpx>`);
+    expect(f.format).toBe('gpx');
+    expect(f.data.runs).toEqual([{ date: '2024-03-09', start: iso(T0), distance: 1, duration: 5, source: 'gpx' }]);
+    expect(f.ignored).toBe(1);
+  });
+
+  it('reads TCX lap totals rather than trackpoint distances', () => {
+    const act = (sport: string) => `<Activity Sport="${sport}"><Id>${iso(T0)}</Id>
+      <Lap StartTime="${iso(T0)}"><TotalTimeSeconds>1800</TotalTimeSeconds><DistanceMeters>5000</DistanceMeters>
+        <Track><Trackpoint><DistanceMeters>4990</DistanceMeters></Trackpoint></Track></Lap></Activity>`;
+    const f = textFile('run.tcx', `<TrainingCenterDatabase><Activities>${act('Running')}${act('Biking')}</Activities></TrainingCenterDatabase>`);
+    expect(f.format).toBe('tcx');
+    expect(f.data.runs).toEqual([{ date: '2024-03-09', start: iso(T0), distance: 5, duration: 30, source: 'tcx' }]);
+    expect(f.ignored).toBe(1);
+  });
+
+  it('reads FIT sessions, skipping other sports', () => {
+    const f = fitFile([
+      { start: T0, sport: 1, seconds: 2400, metres: 8000 },
+      { start: T0 + 7_200_000, sport: 2, seconds: 3600, metres: 30000 },
+    ]);
+    expect(f.format).toBe('fit');
+    expect(f.data.runs).toEqual([{ date: '2024-03-09', start: iso(T0), distance: 8, duration: 40, source: 'fit' }]);
+    expect(f.ignored).toBe(1);
+  });
+
+  it('reads Apple Health steps, weight, sleep and running workouts', () => {
+    const record = (type: string, source: string, start: string, end: string, extra: string) =>
+      `<Record type="${type}" sourceName="${source}" startDate="2024-03-${start} +0100" endDate="2024-03-${end} +0100" ${extra}/>`;
+    const sleep = (value: string, start: string, end: string) => record('HKCategoryTypeIdentifierSleepAnalysis', 'Watch', start, end, `value="HKCategoryValueSleepAnalysis${value}"`);
+    const xml = `<?xml version="1.0"?><!DOCTYPE HealthData><HealthData locale="en_US">
+      ${record('HKQuantityTypeIdentifierStepCount', 'Phone', '09 09:00:00', '09 10:00:00', 'unit="count" value="3000"')}
+      ${record('HKQuantityTypeIdentifierStepCount', 'Phone', '09 12:00:00', '09 13:00:00', 'unit="count" value="4000"')}
+      ${record('HKQuantityTypeIdentifierStepCount', 'Watch', '09 09:00:00', '09 13:00:00', 'unit="count" value="5000"')}
+      ${record('HKQuantityTypeIdentifierBodyMass', 'Scale', '09 07:30:00', '09 07:30:00', 'unit="lb" value="176.4"')}
+      ${sleep('InBed', '08 23:00:00', '09 07:00:00')}
+      ${sleep('AsleepCore', '08 23:15:00', '09 03:00:00')}
+      ${sleep('Awake', '09 03:00:00', '09 03:05:00')}
+      ${sleep('AsleepREM', '09 03:05:00', '09 06:45:00')}
+      <Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="30" durationUnit="min" totalDistance="5" totalDistanceUnit="km" startDate="2024-03-09 08:00:00 +0100" endDate="2024-03-09 08:30:00 +0100"/>
+      <Workout workoutActivityType="HKWorkoutActivityTypeCycling" duration="60" durationUnit="min" startDate="2024-03-09 17:00:00 +0100" endDate="2024-03-09 18:00:00 +0100"/>
+    </HealthData>`;
+    const f = textFile('export.xml', xml);
+    expect(f.format).toBe('apple');
+    expect(f.data.steps).toEqual({ '2024-03-09': 7000 });
+    expect(f.data.weight).toEqual({ '2024-03-09': 80 });
+    expect(f.data.sleep).toEqual({ '2024-03-09': { bedtime: '23:00', waketime: '07:00', asleep: 445, awakenings: 1, staged: true } });
+    expect(f.data.runs).toEqual([{ date: '2024-03-09', start: '2024-03-09T07:00:00.000Z', distance: 5, duration: 30, source: 'apple' }]);
+  });
+
+  it('reads Google Fit Takeout and REST API JSON', () => {
+    const takeout = textFile('steps.json', JSON.stringify({
+      'Data Source': 'derived:com.google.step_count.delta:phone',
+      'Data Points': [
+        { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos(T0), endTimeNanos: nanos(T0 + 60_000), fitValue: [{ value: { intVal: 4000 } }], originDataSourceId: '' },
+        { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos(T0 + 1_800_000), endTimeNanos: nanos(T0 + 1_860_000), fitValue: [{ value: { intVal: 2500 } }], originDataSourceId: '' },
+      ],
+    }));
+    expect(takeout.format).toBe('googlefit');
+    expect(takeout.data.steps).toEqual({ '2024-03-09': 6500 });
+
+    const rest = textFile('aggregate.json', JSON.stringify({
+      bucket: [{ dataset: [{ dataSourceId: 'derived:com.google.weight:scale', point: [
+        { dataTypeName: 'com.google.weight', startTimeNanos: nanos(T0), endTimeNanos: nanos(T0), value: [{ fpVal: 80.46 }] },
+      ] }] }],
+    }));
+    expect(rest.data.weight).toEqual({ '2024-03-09': 80.5 });
+  });
+});
+
+describe('malformed input', () => {
+  it('reports unrecognised and unreadable files instead of throwing', () => {
+    expect(textFile('notes.txt', 'hello').error).toMatch(/Unrecognised file/);
+    expect(textFile('fit.json', '{ "bucket": [').error).toMatch(/Could not read Google Fit file/);
+    // A data message before any definition
+    const broken = new Uint8Array([12, 0, 0, 0, 1, 0, 0, 0, ...'.FIT'.split('').map(c => c.charCodeAt(0)), 0x00]);
+    expect(parseHealthFile('broken.fit', broken.buffer).error).toMatch(/Could not read FIT Activity file/);
+  });
+
+  it('skips Google Fit points that are not objects or carry no value', () => {
+    const f = textFile('odd.json', JSON.stringify({ 'Data Points': [
+      null, 5, 'x',
+      { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos(T0), endTimeNanos: nanos(T0) },
+      { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos(T0), endTimeNanos: nanos(T0), value: ['x'] },
+      { dataTypeName: 'com.google.step_count.delta', startTimeNanos: 'soon', endTimeNanos: nanos(T0), value: [{ intVal: 10 }] },
+      { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos(T0), endTimeNanos: nanos(T0), value: [{ intVal: 900 }] },
+    ] }));
+    expect(f.error).toBeUndefined();
+    expect(f.data.steps).toEqual({ '2024-03-09': 900 });
+    expect(f.ignored).toBe(1);
+  });
+
+  it('ignores GPX tracks with fewer than two timed points', () => {
+    const f = textFile('short.gpx', `<gpx><trk><trkseg><trkpt lat="52" lon="13"><time>${iso(T0)}</time></trkpt><trkpt lat="x" lon="13"></trkpt></trkseg></trk></gpx>`);
+    expect(f.data.runs).toEqual([]);
+    expect(f.ignored).toBe(1);
+  });
+});
+
+describe('run deduplication', () => {
+  const run = (startMs: number, distance: number, duration: number): HealthData['runs'][number] =>
+    ({ date: '2024-03-09', start: iso(startMs), distance, duration, source: 'gpx' });
+
+  const day = (runs: RunEntry[]): DayRecord => ({
+    sleep: { durationMinutes: 0, efficiency: 0 },
+    nutrition: { calories: 0, protein: 0, hydration: 0 },
+    physical: { steps: 0, strengthVol: 0, runs },
+    mind: { screenTime: 0, studyMinutes: 0 },
+    score: 0,
+  });
+
+  it('keeps one copy of a run found in several files', () => {
+    const a = { ...emptyHealthData(), runs: [run(T0, 5, 30)] };
+    const b = { ...emptyHealthData(), runs: [run(T0 + 60_000, 5.02, 30.5), run(T0 + 3_600_000, 3, 20)] };
+    expect(combineHealthData([a, b]).runs.map(r => r.start)).toEqual([iso(T0), iso(T0 + 3_600_000)]);
+  });
+
+  it('skips runs the day already has, by start time or by distance and duration', () => {
+    const history: DayHistory = {
+      '2024-03-09': day([
+        { uid: 'imported', distance: 5, duration: 30, start: iso(T0 + 90_000) },
+        { uid: 'manual', distance: 10, duration: 60 },
+      ]),
+    };
+    const data = { ...emptyHealthData(), runs: [run(T0, 5, 30), run(T0 + 7_200_000, 10.1, 60.5), run(T0 + 18_000_000, 3, 20)] };
+    const plan = planHealthImport(history, data, ['runs']);
+    expect(plan.duplicates).toBe(2);
+    expect(plan.records['2024-03-09'].physical.runs!.map(r => r.uid)).toEqual(['imported', 'manual', expect.any(String)]);
+    expect(plan.records['2024-03-09'].physical.runs![2]).toMatchObject({ distance: 3, duration: 20, source: 'gpx' });
+  });
+});
@@ -0,0 +1,568 @@
+import { DayHistory, DayRecord, RunEntry } from '../types';
+import { createId } from './id';
+import { FIT_SPORT_RUNNING, decodeFit, isFit } from './fit';
+
+/**
+ * ============================================================================
+ * HEALTH & WEARABLE IMPORT
+ * ============================================================================
+ *
+ * Parses offline exports into per-day values:
+ *  - runs from GPX tracks, TCX activities and FIT activity files
+ *  - steps, sleep, weight and running workouts from Apple Health export.xml
+ *  - steps, sleep and weight from Google Fit JSON (Takeout or REST API)
+ * `planHealthImport` turns the parsed data into updated DayRecords plus a
+ * human-readable change list for the preview. Nothing is stored here.
+ *
+ * Dates follow the wall clock of the recording: Apple Health timestamps
+ * carry their own UTC offset, everything else uses the device's timezone.
+ */
+
+export type HealthFormat = 'gpx' | 'tcx' | 'fit' | 'apple' | 'googlefit';
+export type HealthDomain = 'runs' | 'steps' | 'sleep' | 'weight';
+
+export const HEALTH_FORMATS: Record<HealthFormat, string> = {
+  gpx: 'GPX Track',
+  tcx: 'TCX Activity',
+  fit: 'FIT Activity',
+  apple: 'Apple Health',
+  googlefit: 'Google Fit',
+};
+
+export const HEALTH_DOMAINS: { id: HealthDomain; l: string }[] = [
+  { id: 'runs', l: 'Runs' },
+  { id: 'steps', l: 'Steps' },
+  { id: 'sleep', l: 'Sleep' },
+  { id: 'weight', l: 'Weight' },
+];
+
+export interface ImportedRun {
+  date: string; // YYYY-MM-DD, local to the recording
+  start: string; // ISO timestamp
+  distance: number; // km
+  duration: number; // minutes
+  source: HealthFormat;
+}
+
+export interface ImportedSleep {
+  bedtime: string; // HH:MM
+  waketime: string; // HH:MM
+  asleep: number; // minutes
+  awakenings: number;
+  staged: boolean; // asleep time was measured, not inferred from time in bed
+}
+
+export interface HealthData {
+  runs: ImportedRun[];
+  steps: Record<string, number>;
+  sleep: Record<string, ImportedSleep>; // keyed by the morning the night ends
+  weight: Record<string, number>; // kg
+}
+
+export interface ParsedHealthFile {
+  name: string;
+  format: HealthFormat | null;
+  data: HealthData;
+  ignored: number; // activities that are not runs, unusable records
+  error?: string;
+}
+
+export const emptyHealthData = (): HealthData => ({ runs: [], steps: {}, sleep: {}, weight: {} });
+
+// --- Time ---
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Device UTC offset in minutes at that instant
+const deviceOffset = (ms: number) => -new Date(ms).getTimezoneOffset();
+
+// Wall-clock date and HH:MM of an instant at a UTC offset
+const wall = (ms: number, offset: number) => {
+  const iso = new Date(ms + offset * 60_000).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+// Apple Health: "2024-03-09 23:41:05 +0100"
+const parseAppleDate = (s: string | undefined) => {
+  const m = s?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-])(\d{2})(\d{2})$/);
+  if (!m) return null;
+  const offset = (m[3] === '-' ? -1 : 1) * (Number(m[4]) * 60 + Number(m[5]));
+  return { ms: Date.parse(`${m[1]}T${m[2]}Z`) - offset * 60_000, offset };
+};
+
+// --- XML scanning ---
+
+// export.xml can be hundreds of megabytes, so tags are scanned with regexes
+// rather than built into a DOM.
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const unescapeXml = (s: string) => s.replace(/&(amp|lt|gt|quot|apos);/g, (_, e) => ENTITIES[e]);
+
+const attrs = (tag: string) => {
+  const out: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) out[m[1]] = unescapeXml(m[2]);
+  return out;
+};
+
+const elementText = (xml: string, name: string) => xml.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1]?.trim();
+
+// --- Runs ---
+
+const RUNNING = /run/i;
+
+const toRun = (startMs: number, distanceM: number, seconds: number, source: HealthFormat): ImportedRun | null => {
+  if (!Number.isFinite(startMs) || !(distanceM > 0) || !(seconds > 0)) return null;
+  return {
+    date: wall(startMs, deviceOffset(startMs)).date,
+    start: new Date(startMs).toISOString(),
+    distance: +(distanceM / 1000).toFixed(2),
+    duration: +(seconds / 60).toFixed(1),
+    source,
+  };
+};
+
+// Great-circle distance in metres
+const haversine = (a: [number, number], b: [number, number]) => {
+  const rad = Math.PI / 180;
+  const dLat = (b[0] - a[0]) * rad;
+  const dLon = (b[1] - a[1]) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * rad) * Math.cos(b[0] * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+};
+
+// One run per <trk>; tracks typed as anything but running are ignored
+export const parseGpx = (xml: string) => {
+  const runs: ImportedRun[] = [];
+  let ignored = 0;
+  for (const trk of xml.matchAll(/<trk>([\s\S]*?)<\/trk>/g)) {
+    const type = elementText(trk[1], 'type');
+    if (type && !RUNNING.test(type)) { ignored++; continue; }
+    const points = [...trk[1].matchAll(/<trkpt\s([^>]*)>([\s\S]*?)<\/trkpt>/g)].map(p => {
+      const a = attrs(p[1]);
+      return { pos: [Number(a.lat), Number(a.lon)] as [number, number], t: Date.parse(elementText(p[2], 'time') ?? '') };
+    }).filter(p => p.pos.every(Number.isFinite) && Number.isFinite(p.t));
+    if (points.length < 2) { ignored++; continue; }
+    const distance = points.slice(1).reduce((sum, p, i) => sum + haversine(points[i].pos, p.pos), 0);
+    const run = toRun(points[0].t, distance, (points[points.length - 1].t - points[0].t) / 1000, 'gpx');
+    if (run) runs.push(run); else ignored++;
+  }
+  return { runs, ignored };
+};
+
+// Lap totals, ignoring the per-trackpoint cumulative distances
+export const parseTcx = (xml: string) => {
+  const runs: ImportedRun[] = [];
+  let ignored = 0;
+  for (const act of xml.matchAll(/<Activity\s([^>]*)>([\s\S]*?)<\/Activity>/g)) {
+    if (!RUNNING.test(attrs(act[1]).Sport ?? '')) { ignored++; continue; }
+    let seconds = 0;
+    let metres = 0;
+    for (const lap of act[2].matchAll(/<Lap\s[^>]*>([\s\S]*?)<\/Lap>/g)) {
+      const summary = lap[1].replace(/<Track>[\s\S]*?<\/Track>/g, '');
+      seconds += Number(elementText(summary, 'TotalTimeSeconds') ?? 0);
+      metres += Number(elementText(summary, 'DistanceMeters') ?? 0);
+    }
+    const run = toRun(Date.parse(elementText(act[2], 'Id') ?? ''), metres, seconds, 'tcx');
+    if (run) runs.push(run); else ignored++;
+  }
+  return { runs, ignored };
+};
+
+export const parseFit = (buf: ArrayBuffer) => {
+  const runs: ImportedRun[] = [];
+  let ignored = 0;
+  decodeFit(buf).forEach(s => {
+    const run = s.sport === undefined || s.sport === FIT_SPORT_RUNNING ? toRun(s.start, s.distance, s.duration, 'fit') : null;
+    if (run) runs.push(run); else ignored++;
+  });
+  return { runs, ignored };
+};
+
+// --- Sleep ---
+
+type SleepStage = 'asleep' | 'awake' | 'inBed';
+
+interface SleepSegment {
+  start: number; // epoch ms
+  end: number;
+  offset: number; // minutes east of UTC
+  stage: SleepStage;
+}
+
+const NIGHT_GAP = 2 * 3_600_000; // segments further apart belong to different sleeps
+const MIN_NIGHT = 3 * 60; // minutes; shorter sleeps are naps and are not imported
+
+// Total length of a set of possibly overlapping intervals
+const unionMinutes = (segments: SleepSegment[]) => {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let cursor = -Infinity;
+  sorted.forEach(s => {
+    const from = Math.max(s.start, cursor);
+    if (s.end > from) total += s.end - from;
+    cursor = Math.max(cursor, s.end);
+  });
+  return total / 60_000;
+};
+
+// Groups one source's segments into nights, keyed by wake date
+const nightsFrom = (segments: SleepSegment[]) => {
+  const nights: Record<string, ImportedSleep> = {};
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const clusters: SleepSegment[][] = [];
+  sorted.forEach(s => {
+    const current = clusters[clusters.length - 1];
+    const end = current ? Math.max(...current.map(c => c.end)) : -Infinity;
+    if (current && s.start - end <= NIGHT_GAP) current.push(s);
+    else clusters.push([s]);
+  });
+  clusters.forEach(c => {
+    const start = Math.min(...c.map(s => s.start));
+    const last = c.reduce((a, b) => b.end > a.end ? b : a);
+    const asleepSegments = c.filter(s => s.stage === 'asleep');
+    // Sources that only record time in bed count all of it as sleep
+    const asleep = asleepSegments.length ? unionMinutes(asleepSegments) : unionMinutes(c);
+    if (asleep < MIN_NIGHT) return;
+    const bed = wall(start, c[0].offset);
+    const wake = wall(last.end, last.offset);
+    nights[wake.date] = {
+      bedtime: bed.time,
+      waketime: wake.time,
+      asleep: Math.round(asleep),
+      awakenings: c.filter(s => s.stage === 'awake').length,
+      staged: asleepSegments.length > 0,
+    };
+  });
+  return nights;
+};
+
+// A phone's time-in-bed log loses to a wearable's sleep stages for the same night
+const betterNight = (a: ImportedSleep, b: ImportedSleep | undefined) =>
+  !b || (a.staged !== b.staged ? a.staged : a.asleep > b.asleep);
+
+const bestNights = (bySource: Map<string, SleepSegment[]>) => {
+  const out: Record<string, ImportedSleep> = {};
+  bySource.forEach(segments => {
+    const nights = nightsFrom(segments);
+    Object.keys(nights).forEach(d => { if (betterNight(nights[d], out[d])) out[d] = nights[d]; });
+  });
+  return out;
+};
+
+// Steps from several sources overlap (phone and watch count the same walk),
+// so a day takes the largest single-source total instead of the sum.
+const bestTotals = (bySource: Map<string, Record<string, number>>) => {
+  const out: Record<string, number> = {};
+  bySource.forEach(days => Object.keys(days).forEach(d => { out[d] = Math.max(out[d] ?? 0, Math.round(days[d])); }));
+  return out;
+};
+
+const addTo = <T>(map: Map<string, T>, key: string, init: () => T) => {
+  if (!map.has(key)) map.set(key, init());
+  return map.get(key)!;
+};
+
+// --- Apple Health ---
+
+const APPLE_SLEEP: Record<string, SleepStage> = {
+  HKCategoryValueSleepAnalysisInBed: 'inBed',
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+  HKCategoryValueSleepAnalysisAsleep: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepCore: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'asleep',
+};
+
+const TO_KG: Record<string, number> = { kg: 1, lb: 0.45359237, g: 0.001, st: 6.35029318 };
+const TO_M: Record<string, number> = { km: 1000, m: 1, mi: 1609.344, yd: 0.9144, ft: 0.3048 };
+const TO_S: Record<string, number> = { min: 60, s: 1, sec: 1, h: 3600, hr: 3600 };
+
+export const parseAppleHealth = (xml: string): { data: HealthData; ignored: number } => {
+  const data = emptyHealthData();
+  const steps = new Map<string, Record<string, number>>();
+  const sleep = new Map<string, SleepSegment[]>();
+  const weighIns: Record<string, { ms: number; kg: number }> = {};
+  let ignored = 0;
+
+  for (const m of xml.matchAll(/<Record\s[^>]*?(?:StepCount|BodyMass"|SleepAnalysis)[^>]*>/g)) {
+    const a = attrs(m[0]);
+    const start = parseAppleDate(a.startDate);
+    const end = parseAppleDate(a.endDate);
+    if (!start || !end) { ignored++; continue; }
+    const source = a.sourceName ?? '';
+    if (a.type === 'HKQuantityTypeIdentifierStepCount') {
+      const days = addTo(steps, source, () => ({}));
+      const date = a.startDate.slice(0, 10);
+      days[date] = (days[date] ?? 0) + (Number(a.value) || 0);
+    } else if (a.type === 'HKQuantityTypeIdentifierBodyMass') {
+      const kg = Number(a.value) * (TO_KG[a.unit] ?? NaN);
+      const date = a.startDate.slice(0, 10);
+      if (!(kg > 0)) ignored++;
+      else if (!weighIns[date] || start.ms > weighIns[date].ms) weighIns[date] = { ms: start.ms, kg: +kg.toFixed(1) };
+    } else if (a.type === 'HKCategoryTypeIdentifierSleepAnalysis' && APPLE_SLEEP[a.value]) {
+      addTo(sleep, source, () => []).push({ start: start.ms, end: end.ms, offset: start.offset, stage: APPLE_SLEEP[a.value] });
+    }
+  }
+
+  // Distance is an attribute on older exports, a WorkoutStatistics child on newer ones
+  for (const m of xml.matchAll(/<Workout\s([^>]*?)(?:\/>|>([\s\S]*?)<\/Workout>)/g)) {
+    const a = attrs(m[1]);
+    if (!/Running/.test(a.workoutActivityType ?? '')) continue;
+    const start = parseAppleDate(a.startDate);
+    const stat = [...(m[2] ?? '').matchAll(/<WorkoutStatistics\s[^>]*>/g)].map(s => attrs(s[0])).find(s => s.type === 'HKQuantityTypeIdentifierDistanceWalkingRunning');
+    const metres = a.totalDistance ? Number(a.totalDistance) * (TO_M[a.totalDistanceUnit] ?? NaN) : Number(stat?.sum) * (TO_M[stat?.unit ?? ''] ?? NaN);
+    const seconds = Number(a.duration) * (TO_S[a.durationUnit] ?? NaN);
+    const run = start && toRun(start.ms, metres, seconds, 'apple');
+    if (!run) { ignored++; continue; }
+    data.runs.push({ ...run, date: a.startDate.slice(0, 10) });
+  }
+
+  data.steps = bestTotals(steps);
+  data.sleep = bestNights(sleep);
+  Object.keys(weighIns).forEach(d => { data.weight[d] = weighIns[d].kg; });
+  return { data, ignored };
+};
+
+// --- Google Fit ---
+
+const GOOGLE_SLEEP: Record<number, SleepStage> = { 1: 'awake', 2: 'asleep', 3: 'inBed', 4: 'asleep', 5: 'asleep', 6: 'asleep' };
+
+interface FitPoint {
+  type: string;
+  start: number; // epoch ms
+  end: number;
+  value: { intVal?: number; fpVal?: number };
+  source: string;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const firstOf = (v: unknown) => (Array.isArray(v) ? v[0] : undefined);
+const numberOr = (v: unknown) => (typeof v === 'number' ? v : undefined);
+
+// Takeout files list "Data Points" with fitValue; the REST API returns
+// `point` arrays, nested in buckets for aggregate queries.
+const collectPoints = (raw: unknown, out: FitPoint[] = [], source = '') => {
+  if (Array.isArray(raw)) { raw.forEach(r => collectPoints(r, out, source)); return out; }
+  if (!isRecord(raw)) return out;
+  const src = String(raw['Data Source'] ?? raw.dataSourceId ?? source);
+  const points = raw['Data Points'] ?? raw.point;
+  if (Array.isArray(points)) {
+    points.filter(isRecord).forEach(p => {
+      const fitValue = firstOf(p.fitValue);
+      const value = isRecord(fitValue) ? fitValue.value : firstOf(p.value);
+      if (typeof p.dataTypeName !== 'string' || !p.dataTypeName || !isRecord(value)) return;
+      out.push({
+        type: p.dataTypeName,
+        start: Number(p.startTimeNanos) / 1e6,
+        end: Number(p.endTimeNanos) / 1e6,
+        value: { intVal: numberOr(value.intVal), fpVal: numberOr(value.fpVal) },
+        source: typeof p.originDataSourceId === 'string' && p.originDataSourceId ? p.originDataSourceId : src,
+      });
+    });
+  }
+  ['bucket', 'dataset'].forEach(k => { if (raw[k]) collectPoints(raw[k], out, src); });
+  return out;
+};
+
+export const parseGoogleFit = (text: string): { data: HealthData; ignored: number } => {
+  const data = emptyHealthData();
+  const steps = new Map<string, Record<string, number>>();
+  const sleep = new Map<string, SleepSegment[]>();
+  const weighIns: Record<string, { ms: number; kg: number }> = {};
+  let ignored = 0;
+
+  collectPoints(JSON.parse(text)).forEach(p => {
+    if (!Number.isFinite(p.start) || !Number.isFinite(p.end)) { ignored++; return; }
+    const offset = deviceOffset(p.start);
+    const date = wall(p.start, offset).date;
+    if (p.type === 'com.google.step_count.delta') {
+      const days = addTo(steps, p.source, () => ({}));
+      days[date] = (days[date] ?? 0) + (p.value.intVal ?? 0);
+    } else if (p.type === 'com.google.weight') {
+      const kg = p.value.fpVal;
+      if (!(kg && kg > 0)) ignored++;
+      else if (!weighIns[date] || p.start > weighIns[date].ms) weighIns[date] = { ms: p.start, kg: +kg.toFixed(1) };
+    } else if (p.type === 'com.google.sleep.segment' && GOOGLE_SLEEP[p.value.intVal ?? 0]) {
+      addTo(sleep, p.source, () => []).push({ start: p.start, end: p.end, offset, stage: GOOGLE_SLEEP[p.value.intVal!] });
+    }
+  });
+
+  data.steps = bestTotals(steps);
+  data.sleep = bestNights(sleep);
+  Object.keys(weighIns).forEach(d => { data.weight[d] = weighIns[d].kg; });
+  return { data, ignored };
+};
+
+// --- Files ---
+
+export const detectHealthFormat = (name: string, buf: ArrayBuffer): HealthFormat | null => {
+  if (isFit(buf)) return 'fit';
+  const head = new TextDecoder().decode(buf.slice(0, 4096));
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<TrainingCenterDatabase[\s>]/.test(head)) return 'tcx';
+  if (/<HealthData[\s>]|<!DOCTYPE HealthData/.test(head)) return 'apple';
+  if (/^\s*[[{]/.test(head) || /\.json$/i.test(name)) return 'googlefit';
+  return null;
+};
+
+export const parseHealthFile = (name: string, buf: ArrayBuffer): ParsedHealthFile => {
+  const format = detectHealthFormat(name, buf);
+  const base = { name, format, data: emptyHealthData(), ignored: 0 };
+  if (!format) return { ...base, error: 'Unrecognised file. Use GPX, TCX, FIT, Apple Health export.xml or Google Fit JSON.' };
+  try {
+    if (format === 'fit') {
+      const { runs, ignored } = parseFit(buf);
+      return { ...base, data: { ...base.data, runs }, ignored };
+    }
+    const text = new TextDecoder().decode(buf);
+    if (format === 'gpx' || format === 'tcx') {
+      const { runs, ignored } = format === 'gpx' ? parseGpx(text) : parseTcx(text);
+      return { ...base, data: { ...base.data, runs }, ignored };
+    }
+    return { ...base, ...(format === 'apple' ? parseAppleHealth(text) : parseGoogleFit(text)) };
+  } catch (err) {
+    return { ...base, error: `Could not read ${HEALTH_FORMATS[format]} file: ${err instanceof Error ? err.message : String(err)}` };
+  }
+};
+
+// --- Merge ---
+
+const RUN_MATCH_MS = 2 * 60_000; // same run recorded by two devices or exported twice
+const RUN_MATCH_RATIO = 0.02; // tolerance for manually logged runs without a start time
+
+const sameRun = (a: RunEntry, b: ImportedRun) => a.start
+  ? Math.abs(Date.parse(a.start) - Date.parse(b.start)) <= RUN_MATCH_MS
+  : Math.abs(a.distance - b.distance) <= a.distance * RUN_MATCH_RATIO && Math.abs(a.duration - b.duration) <= a.duration * RUN_MATCH_RATIO;
+
+// Several files combined: runs deduplicated, the richer value kept per day
+export const combineHealthData = (files: HealthData[]): HealthData => {
+  const out = emptyHealthData();
+  files.forEach(f => {
+    f.runs.forEach(r => {
+      if (!out.runs.some(x => Math.abs(Date.parse(x.start) - Date.parse(r.start)) <= RUN_MATCH_MS)) out.runs.push(r);
+    });
+    Object.keys(f.steps).forEach(d => { out.steps[d] = Math.max(out.steps[d] ?? 0, f.steps[d]); });
+    Object.keys(f.sleep).forEach(d => { if (betterNight(f.sleep[d], out.sleep[d])) out.sleep[d] = f.sleep[d]; });
+    Object.keys(f.weight).forEach(d => { out.weight[d] ??= f.weight[d]; });
+  });
+  out.runs.sort((a, b) => a.start.localeCompare(b.start));
+  return out;
+};
+
+export interface DayChange {
+  date: string;
+  isNew: boolean; // no record existed for the day
+  changes: string[];
+}
+
+export interface HealthImportPlan {
+  records: DayHistory; // updated records, to be rescored and saved
+  days: DayChange[];
+  duplicates: number; // runs already in history
+  unchanged: number; // imported values equal to the stored ones
+}
+
+// A day with nothing logged but the imported values
+const blankRecord = (): DayRecord => ({
+  sleep: { durationMinutes: 0, efficiency: 0 },
+  nutrition: { calories: 0, protein: 0, hydration: 0 },
+  physical: { steps: 0, strengthVol: 0 },
+  mind: { screenTime: 0, studyMinutes: 0 },
+  score: 0,
+});
+
+const clockMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const fmtHours = (min: number) => `${Math.floor(min / 60)}h${pad(Math.round(min % 60))}`;
+
+/**
+ * Imported values overwrite the stored ones for the chosen domains; runs are
+ * appended unless the day already has the same run. Sleep keeps the stored
+ * naps and quality rating, and its summary fields are derived the same way
+ * the sleep editor derives them.
+ */
+export const planHealthImport = (history: DayHistory, data: HealthData, domains: HealthDomain[]): HealthImportPlan => {
+  const records: DayHistory = {};
+  const changes: Record<string, string[]> = {};
+  let duplicates = 0;
+  let unchanged = 0;
+
+  const edit = (date: string, change: string, fn: (rec: DayRecord) => DayRecord) => {
+    records[date] = fn(records[date] ?? history[date] ?? blankRecord());
+    (changes[date] ??= []).push(change);
+  };
+
+  if (domains.includes('runs')) {
+    data.runs.forEach(r => {
+      const existing = (records[r.date] ?? history[r.date])?.physical.runs || [];
+      if (existing.some(x => sameRun(x, r))) { duplicates++; return; }
+      const run: RunEntry = { uid: createId(), distance: r.distance, duration: r.duration, start: r.start, source: r.source };
+      edit(r.date, `Run ${r.distance.toFixed(2)} km in ${Math.round(r.duration)} min`, rec => ({
+        ...rec,
+        physical: { ...rec.physical, runs: [...(rec.physical.runs || []), run] },
+      }));
+    });
+  }
+
+  if (domains.includes('steps')) {
+    Object.keys(data.steps).forEach(d => {
+      const old = history[d]?.physical.steps;
+      if (old === data.steps[d]) { unchanged++; return; }
+      edit(d, `Steps ${old === undefined ? '' : `${old.toLocaleString('en-US')} → `}${data.steps[d].toLocaleString('en-US')}`, rec => ({
+        ...rec,
+        physical: { ...rec.physical, steps: data.steps[d] },
+      }));
+    });
+  }
+
+  if (domains.includes('sleep')) {
+    Object.keys(data.sleep).forEach(d => {
+      const s = data.sleep[d];
+      const old = history[d]?.sleep;
+      const inBed = (clockMinutes(s.waketime) - clockMinutes(s.bedtime) + 1440) % 1440;
+      const napMinutes = (old?.naps || []).reduce((sum, n) => sum + n.duration, 0);
+      const duration = Math.min(s.asleep, inBed) + napMinutes;
+      if (old?.bedtime === s.bedtime && old.waketime === s.waketime && Math.round(old.durationMinutes) === duration) { unchanged++; return; }
+      edit(d, `Sleep ${s.bedtime}–${s.waketime}, ${fmtHours(s.asleep)} asleep`, rec => ({
+        ...rec,
+        sleep: {
+          ...rec.sleep,
+          bedtime: s.bedtime,
+          waketime: s.waketime,
+          awakenings: s.awakenings,
+          awakeDuration: Math.max(0, inBed - s.asleep),
+          naps: rec.sleep.naps || [],
+          durationMinutes: duration,
+          efficiency: inBed > 0 ? (duration / inBed) * 100 : 0,
+        },
+      }));
+    });
+  }
+
+  if (domains.includes('weight')) {
+    Object.keys(data.weight).forEach(d => {
+      const old = history[d]?.body?.weight;
+      if (old === data.weight[d]) { unchanged++; return; }
+      edit(d, `Weight ${old === undefined ? '' : `${old} → `}${data.weight[d]} kg`, rec => ({
+        ...rec,
+        body: { ...rec.body, weight: data.weight[d] },
+      }));
+    });
+  }
+
+  // Dropping the scoring version makes backfillScores rescore the day
+  Object.keys(records).forEach(d => {
+    const { scoringVersion, ...rec } = records[d];
+    records[d] = rec;
+  });
+
+  return {
+    records,
+    days: Object.keys(changes).sort().reverse().map(date => ({ date, isNew: !history[date], changes: changes[date] })),
+    duplicates,
+    unchanged,
+  };
+};
@@ -0,0 +1,2 @@
+// Short collision-resistant id for locally created entries
+export const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { IntakeEvent } from '../types';
+import { CAFFEINE_HALF_LIFE, bedtimeMinutes, caffeineAt, caffeineAtBedtime, currentFast, eatingWindow, intakeTotals, lastMealToBed, overnightFast } from './intake';
+import { getMetric, pairSeries } from './metrics';
+import { summarizeDay } from './analytics';
+import { defaultDay } from './day';
+
+const ev = (kind: IntakeEvent['kind'], time: string, amount = 0): IntakeEvent => ({ uid: `${kind}${time}`, kind, time, amount });
+
+describe('caffeine model', () => {
+  it('halves every half-life', () => {
+    const events = [ev('caffeine', '08:00', 200)];
+    expect(caffeineAt(events, 8 * 60)).toBe(200);
+    expect(caffeineAt(events, 8 * 60 + CAFFEINE_HALF_LIFE)).toBeCloseTo(100);
+    expect(caffeineAt(events, 8 * 60 + 2 * CAFFEINE_HALF_LIFE)).toBeCloseTo(50);
+  });
+
+  it('ignores doses after the time asked about', () => {
+    expect(caffeineAt([ev('caffeine', '15:00', 100)], 14 * 60)).toBe(0);
+  });
+
+  it('reads a bedtime before noon as after midnight', () => {
+    expect(bedtimeMinutes('23:00')).toBe(23 * 60);
+    expect(bedtimeMinutes('00:30')).toBe(24 * 60 + 30);
+    expect(caffeineAtBedtime([ev('caffeine', '19:30', 100)], '00:30')).toBeCloseTo(50);
+  });
+});
+
+describe('meal timing', () => {
+  const day = [ev('meal', '08:00'), ev('caffeine', '09:00', 95), ev('meal', '19:30'), ev('alcohol', '20:00', 2.1), ev('meal', '12:30')];
+
+  it('sums caffeine and alcohol', () => {
+    expect(intakeTotals(day)).toEqual({ caffeine: 95, alcohol: 2.1 });
+  });
+
+  it('measures the eating window and the gap to bed', () => {
+    expect(eatingWindow(day)).toBe(11.5 * 60);
+    expect(lastMealToBed(day, '23:00')).toBe(3.5 * 60);
+    expect(eatingWindow([ev('caffeine', '09:00', 95)])).toBeUndefined();
+  });
+
+  it('measures the overnight fast into the next day', () => {
+    expect(overnightFast(day, [ev('meal', '07:30')])).toBe(12 * 60);
+    expect(overnightFast(day, [])).toBeUndefined();
+  });
+
+  it('counts a running fast from yesterday until the first meal', () => {
+    expect(currentFast([], day, '06:00')).toBe(10.5 * 60);
+    expect(currentFast([ev('meal', '09:00')], day, '10:15')).toBe(75);
+    expect(currentFast([], [], '10:00')).toBeUndefined();
+  });
+});
+
+describe('intake metrics', () => {
+  it('pair day-d intake with the night stored on day d+1', () => {
+    const d1 = summarizeDay({ ...defaultDay(), intake: [ev('caffeine', '16:00', 200)], sleep: { ...defaultDay().sleep, bedtime: '22:30' } }, []);
+    const d2 = summarizeDay({ ...defaultDay(), intake: [], sleep: { ...defaultDay().sleep, bedtime: '23:30' } }, []);
+    const metric = getMetric('caffeineAtBed');
+    // Bedtime comes from the next record; without one, the day's own is used
+    expect(metric.get(d1, d2)).toBeCloseTo(200 * 0.5 ** (7.5 * 60 / CAFFEINE_HALF_LIFE));
+    expect(metric.get(d1)).toBeCloseTo(200 * 0.5 ** (6.5 * 60 / CAFFEINE_HALF_LIFE));
+
+    const { xs, ys } = pairSeries({ '2026-10-01': d1, '2026-10-02': d2 }, ['2026-10-01', '2026-10-02'], getMetric('caffeine'), getMetric('sleep'), 1);
+    expect(xs).toEqual([200]);
+    expect(ys).toEqual([d2.sleep.durationMinutes / 60]);
+  });
+
+  it('is unknown on days logged before intake timing', () => {
+    const old = summarizeDay(defaultDay(), []);
+    delete old.nutrition.intake;
+    expect(getMetric('caffeine').get(old)).toBeUndefined();
+  });
+});
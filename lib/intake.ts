@@ -0,0 +1,83 @@
+import { DayRecord, IntakeEvent } from '../types';
+
+/**
+ * ============================================================================
+ * INTAKE TIMING
+ * ============================================================================
+ *
+ * Timed meals, caffeine and alcohol for one day, and what they imply for
+ * the night after it. Event times are clock times on the day logged. A
+ * bedtime before noon is read as after midnight, so it lies past 24:00 on
+ * the same axis. A sleep record belongs to the morning it ends, so the
+ * night after day d is the one stored on day d + 1.
+ */
+
+export const CAFFEINE_HALF_LIFE = 5 * 60; // minutes, typical adult
+export const CAFFEINE_SLEEP_LIMIT = 50; // mg at bedtime worth flagging
+
+const clockMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const bedtimeMinutes = (bedtime: string) => {
+  const m = clockMinutes(bedtime);
+  return m < 720 ? m + 1440 : m;
+};
+
+export const nowClock = (d = new Date()) =>
+  `${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
+
+export const sortEvents = (events: IntakeEvent[]) => [...events].sort((a, b) => a.time.localeCompare(b.time));
+
+export const intakeTotals = (events: IntakeEvent[]) => ({
+  caffeine: events.filter(e => e.kind === 'caffeine').reduce((acc, e) => acc + e.amount, 0),
+  alcohol: events.filter(e => e.kind === 'alcohol').reduce((acc, e) => acc + e.amount, 0),
+});
+
+// Meal times in minutes after midnight, earliest first
+const mealMinutes = (events: IntakeEvent[]) => events.filter(e => e.kind === 'meal').map(e => clockMinutes(e.time)).sort((a, b) => a - b);
+
+/**
+ * Caffeine still circulating at `minute` (minutes after midnight, may pass
+ * 1440), with every dose absorbed at once and cleared exponentially.
+ */
+export const caffeineAt = (events: IntakeEvent[], minute: number) => events
+  .filter(e => e.kind === 'caffeine' && clockMinutes(e.time) <= minute)
+  .reduce((acc, e) => acc + e.amount * 0.5 ** ((minute - clockMinutes(e.time)) / CAFFEINE_HALF_LIFE), 0);
+
+export const caffeineAtBedtime = (events: IntakeEvent[], bedtime: string) => caffeineAt(events, bedtimeMinutes(bedtime));
+
+// Minutes from the first to the last meal, undefined without meals
+export const eatingWindow = (events: IntakeEvent[]) => {
+  const meals = mealMinutes(events);
+  return meals.length ? meals[meals.length - 1] - meals[0] : undefined;
+};
+
+export const lastMealToBed = (events: IntakeEvent[], bedtime: string) => {
+  const meals = mealMinutes(events);
+  return meals.length ? bedtimeMinutes(bedtime) - meals[meals.length - 1] : undefined;
+};
+
+// Minutes from the last meal of one day to the first meal of the next
+export const overnightFast = (events: IntakeEvent[], nextEvents: IntakeEvent[]) => {
+  const today = mealMinutes(events);
+  const tomorrow = mealMinutes(nextEvents);
+  return today.length && tomorrow.length ? 1440 - today[today.length - 1] + tomorrow[0] : undefined;
+};
+
+/**
+ * Fast running at `now` (clock time): since the last meal today, or since
+ * yesterday's last meal when nothing has been eaten yet. Undefined when no
+ * meal to count from is logged.
+ */
+export const currentFast = (events: IntakeEvent[], previous: IntakeEvent[], now: string) => {
+  const at = clockMinutes(now);
+  const today = mealMinutes(events).filter(m => m <= at);
+  if (today.length) return at - today[today.length - 1];
+  const before = mealMinutes(previous);
+  return before.length ? 1440 - before[before.length - 1] + at : undefined;
+};
+
+// Bedtime of the night after `rec`: the next record's, else this day's as the habitual one
+export const nightBedtime = (rec: DayRecord, next?: DayRecord) => next?.sleep.bedtime ?? rec.sleep.bedtime;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { FoodCandidate, parseMealText } from './mealParser';
+
+const food = (id: string, name: string, extra: Partial<FoodCandidate> = {}): FoodCandidate => ({
+  id, name, macros: { cal: 100, p: 10, c: 10, f: 1 }, composed: false, ...extra,
+});
+
+const foods = [
+  food('chicken', 'Chicken Breast', { piece: 175 }),
+  food('rice', 'White Rice'),
+  food('milk', 'Milk', { density: 1.03 }),
+];
+
+const parseOne = (text: string) => {
+  const [item] = parseMealText(text, foods);
+  return { foodId: item.foodId, grams: item.grams, note: item.note };
+};
+
+describe('parseMealText', () => {
+  it('reads leading quantities with and without a unit', () => {
+    expect(parseOne('200g rice')).toEqual({ foodId: 'rice', grams: 200, note: undefined });
+    expect(parseOne('2 chicken breasts')).toEqual({ foodId: 'chicken', grams: 350, note: undefined });
+  });
+
+  it('reads trailing quantities with a unit', () => {
+    expect(parseOne('rice 200 g')).toEqual({ foodId: 'rice', grams: 200, note: undefined });
+    expect(parseOne('rice 1.5kg')).toEqual({ foodId: 'rice', grams: 1500, note: undefined });
+    expect(parseOne('milk 250 ml')).toEqual({ foodId: 'milk', grams: 258, note: undefined });
+  });
+
+  it('reads trailing quantities without a unit', () => {
+    expect(parseOne('chicken 2')).toEqual({ foodId: 'chicken', grams: 350, note: undefined });
+    expect(parseOne('rice 150')).toEqual({ foodId: 'rice', grams: 150, note: 'read as grams' });
+  });
+});
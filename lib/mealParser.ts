@@ -0,0 +1,203 @@
+import { Ingredient } from '../types';
+import { createId } from './id';
+
+/**
+ * ============================================================================
+ * NATURAL-LANGUAGE MEAL PARSER
+ * ============================================================================
+ *
+ * Turns "200g chicken breast, 150g rice, a tablespoon of olive oil" into
+ * gram amounts matched against the food list. Parsers share one interface so
+ * the deterministic rule-based one can stand in for a model-backed one.
+ */
+
+// Anything loggable: raw ingredients and saved dishes alike
+export interface FoodCandidate extends Ingredient {
+  composed: boolean;
+}
+
+export interface ParsedItem {
+  uid: string;
+  text: string; // source fragment
+  foodId: string | null; // null when nothing matched
+  grams: number;
+  confidence: number; // 0-1
+  note?: string; // assumption made while converting
+}
+
+export interface MealParser {
+  id: string;
+  label: string;
+  parse: (text: string, foods: FoodCandidate[]) => Promise<ParsedItem[]>;
+}
+
+type UnitKind = 'mass' | 'volume' | 'piece';
+
+// Grams for mass units, millilitres for volume units
+const UNITS: Record<string, { kind: UnitKind; factor: number }> = {};
+const defineUnit = (names: string[], kind: UnitKind, factor: number) => names.forEach(n => { UNITS[n] = { kind, factor }; });
+defineUnit(['g', 'gr', 'gram', 'grams'], 'mass', 1);
+defineUnit(['kg', 'kilo', 'kilos', 'kilogram', 'kilograms'], 'mass', 1000);
+defineUnit(['oz', 'ounce', 'ounces'], 'mass', 28.35);
+defineUnit(['lb', 'lbs', 'pound', 'pounds'], 'mass', 453.6);
+defineUnit(['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'], 'volume', 1);
+defineUnit(['l', 'liter', 'liters', 'litre', 'litres'], 'volume', 1000);
+defineUnit(['tsp', 'teaspoon', 'teaspoons'], 'volume', 5);
+defineUnit(['tbsp', 'tbs', 'tablespoon', 'tablespoons'], 'volume', 15);
+defineUnit(['cup', 'cups'], 'volume', 240);
+defineUnit(['piece', 'pieces', 'pc', 'pcs', 'whole', 'slice', 'slices', 'scoop', 'scoops', 'serving', 'servings'], 'piece', 1);
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  half: 0.5, quarter: 0.25, couple: 2,
+};
+const UNICODE_FRACTIONS: Record<string, string> = { '½': ' 1/2', '¼': ' 1/4', '¾': ' 3/4', '⅓': ' 1/3', '⅔': ' 2/3' };
+const FILLER = new Set(['of', 'the', 'some', 'fresh', 'plain', 'about', 'around', 'roughly']);
+
+const DEFAULT_SERVING = 100; // g, when neither a unit nor a piece weight is known
+const MATCH_THRESHOLD = 0.5;
+
+// --- Fuzzy name matching ---
+
+const singular = (w: string) => w.length > 3 && w.endsWith('ies') ? `${w.slice(0, -3)}y`
+  : w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w;
+
+const tokens = (s: string) => s.toLowerCase()
+  .replace(/\(.*?\)/g, ' ')
+  .replace(/[^a-z0-9 ]/g, ' ')
+  .split(/\s+/)
+  .filter(w => w && !FILLER.has(w))
+  .map(singular);
+
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+};
+
+const tokenSimilarity = (q: string, n: string) => {
+  if (q === n) return 1;
+  if (q.length >= 3 && n.startsWith(q)) return 0.9;
+  const len = Math.max(q.length, n.length);
+  const allowed = len >= 7 ? 2 : len >= 4 ? 1 : 0;
+  return editDistance(q, n) <= allowed ? 0.8 : 0;
+};
+
+// Weighted recall of the query words, plus how much of the name they cover
+export const matchScore = (query: string, name: string) => {
+  const q = tokens(query);
+  const n = tokens(name);
+  if (!q.length || !n.length) return 0;
+  const best = q.map(qt => Math.max(...n.map(nt => tokenSimilarity(qt, nt))));
+  const recall = best.reduce((a, b) => a + b, 0) / q.length;
+  const covered = n.filter(nt => q.some(qt => tokenSimilarity(qt, nt) > 0)).length / n.length;
+  return 0.7 * recall + 0.3 * covered;
+};
+
+export const matchFood = (query: string, foods: FoodCandidate[]) => {
+  let best: { food: FoodCandidate; score: number } | null = null;
+  foods.forEach(food => {
+    const score = matchScore(query, food.name);
+    if (score >= MATCH_THRESHOLD && (!best || score > best.score)) best = { food, score };
+  });
+  return best as { food: FoodCandidate; score: number } | null;
+};
+
+// --- Quantity & unit extraction ---
+
+const parseNumber = (s: string): number | null => {
+  const parts = s.trim().split(/\s+/);
+  let total = 0;
+  for (const p of parts) {
+    if (p in NUMBER_WORDS) total += NUMBER_WORDS[p];
+    else if (/^\d+\/\d+$/.test(p)) {
+      const [a, b] = p.split('/').map(Number);
+      if (!b) return null;
+      total += a / b;
+    } else if (/^\d+(\.\d+)?$/.test(p)) total += Number(p);
+    else return null;
+  }
+  return total;
+};
+
+const QTY = String.raw`(?:\d+(?:\.\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|half|quarter|couple)`;
+const UNIT = String.raw`([a-z]+)\.?`;
+const LEADING = new RegExp(String.raw`^(${QTY})\b(?:\s*(?:a\s+)?${UNIT})?\s+(?:of\s+)?(.+)$`);
+const TRAILING = new RegExp(String.raw`^(.+?)\s+(${QTY})\s*(?:${UNIT})?$`);
+
+interface Portion {
+  name: string;
+  qty: number | null;
+  unit: string | null;
+}
+
+const splitPortion = (fragment: string): Portion => {
+  const s = fragment.toLowerCase().replace(/[½¼¾⅓⅔]/g, c => UNICODE_FRACTIONS[c]).replace(/\s+/g, ' ').trim();
+  // "200g" without a space, "1.5kg"
+  const glued = s.replace(/^(\d+(?:\.\d+)?)([a-z]+)\b/, '$1 $2');
+
+  const lead = glued.match(LEADING);
+  if (lead) {
+    const qty = parseNumber(lead[1]);
+    const unit = lead[2] && UNITS[lead[2]] ? lead[2] : null;
+    // An unrecognised "unit" is the first word of the name ("2 eggs")
+    const name = unit || !lead[2] ? lead[3] : `${lead[2]} ${lead[3]}`;
+    if (qty !== null) return { name, qty, unit };
+  }
+  const trail = glued.match(TRAILING);
+  if (trail) {
+    const qty = parseNumber(trail[2]);
+    const unit = trail[3] && UNITS[trail[3]] ? trail[3] : null;
+    if (qty !== null && (unit || !trail[3])) return { name: trail[1], qty, unit };
+  }
+  return { name: glued, qty: null, unit: null };
+};
+
+// Grams for a portion of `food`, with a note when a default was assumed
+export const toGrams = (qty: number | null, unit: string | null, food: FoodCandidate | null): { grams: number; note?: string } => {
+  const n = qty ?? 1;
+  const u = unit ? UNITS[unit] : null;
+  if (u?.kind === 'mass') return { grams: n * u.factor };
+  if (u?.kind === 'volume') {
+    if (food?.density) return { grams: n * u.factor * food.density };
+    return { grams: n * u.factor, note: 'assumed 1 g/ml' };
+  }
+  // Pieces, or a bare count ("2 chicken breasts")
+  if (food?.piece) return { grams: n * food.piece };
+  if (food?.servings?.length) return { grams: n * food.servings[0].g, note: `${n} × ${food.servings[0].l}` };
+  if (!u && qty !== null && qty >= 10) return { grams: qty, note: 'read as grams' };
+  return { grams: n * DEFAULT_SERVING, note: `assumed ${DEFAULT_SERVING} g per ${unit ?? 'serving'}` };
+};
+
+export const splitMealText = (text: string) => text
+  .split(/,|;|\n|\+|\band\b|\bwith\b/i)
+  .map(s => s.trim())
+  .filter(Boolean);
+
+export const parseMealText = (text: string, foods: FoodCandidate[]): ParsedItem[] => splitMealText(text).map(fragment => {
+  const portion = splitPortion(fragment);
+  const match = matchFood(portion.name, foods);
+  const { grams, note } = toGrams(portion.qty, portion.unit, match?.food ?? null);
+  return {
+    uid: createId(),
+    text: fragment,
+    foodId: match?.food.id ?? null,
+    grams: Math.round(grams),
+    confidence: match ? match.score * (note ? 0.8 : 1) : 0,
+    note,
+  };
+});
+
+export const ruleBasedParser: MealParser = {
+  id: 'rules',
+  label: 'Offline',
+  parse: async (text, foods) => parseMealText(text, foods),
+};
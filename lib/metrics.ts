@@ -0,0 +1,72 @@
+import { DayHistory, DayRecord } from '../types';
+import { shiftDate } from './day';
+import { caffeineAtBedtime, eatingWindow, intakeTotals, lastMealToBed, nightBedtime, overnightFast } from './intake';
+
+/**
+ * ============================================================================
+ * METRIC CATALOG
+ * ============================================================================
+ *
+ * Every numeric series the analysis views can pull out of a DayRecord.
+ * `get` returns undefined when a day has no value for the metric. Metrics
+ * about the night after a day also read the next day's record, which holds
+ * that night's sleep.
+ */
+
+export interface Metric {
+  id: string;
+  l: string;
+  short: string; // matrix header
+  unit: string;
+  polarity?: 1 | -1; // 1 when higher is better, -1 when lower is better
+  get: (rec: DayRecord, next?: DayRecord) => number | undefined;
+}
+
+const hours = (min: number | undefined) => min === undefined ? undefined : min / 60;
+
+export const METRICS: Metric[] = [
+  { id: 'calories', l: 'Calories', short: 'KCAL', unit: 'kcal', get: r => r.nutrition.calories },
+  { id: 'protein', l: 'Protein', short: 'PRO', unit: 'g', polarity: 1, get: r => r.nutrition.protein },
+  { id: 'hydration', l: 'Hydration', short: 'H2O', unit: 'ml', polarity: 1, get: r => r.nutrition.hydration },
+  { id: 'steps', l: 'Steps', short: 'STEP', unit: 'steps', polarity: 1, get: r => r.physical.steps },
+  { id: 'strengthVol', l: 'Strength Volume', short: 'VOL', unit: 'kg', get: r => r.physical.strengthVol },
+  { id: 'study', l: 'Study', short: 'STDY', unit: 'min', polarity: 1, get: r => r.mind.studyMinutes },
+  { id: 'screen', l: 'Screen Time', short: 'SCRN', unit: 'min', polarity: -1, get: r => r.mind.screenTime },
+  { id: 'caffeine', l: 'Caffeine', short: 'CAF', unit: 'mg', get: r => r.nutrition.intake ? intakeTotals(r.nutrition.intake).caffeine : undefined },
+  { id: 'caffeineAtBed', l: 'Caffeine at Bedtime', short: 'CAF-B', unit: 'mg', polarity: -1, get: (r, next) => r.nutrition.intake && nightBedtime(r, next) ? caffeineAtBedtime(r.nutrition.intake, nightBedtime(r, next)!) : undefined },
+  { id: 'alcohol', l: 'Alcohol', short: 'ALC', unit: 'units', polarity: -1, get: r => r.nutrition.intake ? intakeTotals(r.nutrition.intake).alcohol : undefined },
+  { id: 'lastMeal', l: 'Last Meal to Bed', short: 'MEAL-B', unit: 'h', get: (r, next) => r.nutrition.intake && nightBedtime(r, next) ? hours(lastMealToBed(r.nutrition.intake, nightBedtime(r, next)!)) : undefined },
+  { id: 'eatingWindow', l: 'Eating Window', short: 'EAT', unit: 'h', get: r => r.nutrition.intake ? hours(eatingWindow(r.nutrition.intake)) : undefined },
+  { id: 'fast', l: 'Overnight Fast', short: 'FAST', unit: 'h', get: (r, next) => r.nutrition.intake && next?.nutrition.intake ? hours(overnightFast(r.nutrition.intake, next.nutrition.intake)) : undefined },
+  { id: 'sleep', l: 'Sleep Duration', short: 'SLP', unit: 'h', polarity: 1, get: r => r.sleep.durationMinutes / 60 },
+  { id: 'efficiency', l: 'Sleep Efficiency', short: 'EFF', unit: '%', polarity: 1, get: r => r.sleep.efficiency },
+  { id: 'score', l: 'System Score', short: 'SYS', unit: 'pts', polarity: 1, get: r => r.score },
+  { id: 'sleepScore', l: 'Sleep Score', short: 'S-SLP', unit: 'pts', polarity: 1, get: r => r.scores?.sleep },
+  { id: 'nutritionScore', l: 'Nutrition Score', short: 'S-NUT', unit: 'pts', polarity: 1, get: r => r.scores?.nutrition },
+  { id: 'hydrationScore', l: 'Hydration Score', short: 'S-H2O', unit: 'pts', polarity: 1, get: r => r.scores?.hydration },
+  { id: 'physicalScore', l: 'Physical Score', short: 'S-PHY', unit: 'pts', polarity: 1, get: r => r.scores?.physical },
+  { id: 'mindScore', l: 'Mind Score', short: 'S-MND', unit: 'pts', polarity: 1, get: r => r.scores?.mind },
+];
+
+export const getMetric = (id: string) => METRICS.find(m => m.id === id)!;
+
+/**
+ * Paired observations of `x` on day d and `y` on day d + lag, for every d
+ * among the `dates` given. A sleep record belongs to the morning it ends,
+ * so "today's screen time vs tonight's sleep" is lag 1.
+ */
+export const pairSeries = (history: DayHistory, dates: string[], x: Metric, y: Metric, lag = 0) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  dates.forEach(d => {
+    const a = history[d];
+    const b = history[lag === 0 ? d : shiftDate(d, lag)];
+    if (!a || !b) return;
+    const xv = x.get(a, history[shiftDate(d, 1)]);
+    const yv = y.get(b, history[shiftDate(d, lag + 1)]);
+    if (xv === undefined || yv === undefined || !Number.isFinite(xv) || !Number.isFinite(yv)) return;
+    xs.push(xv);
+    ys.push(yv);
+  });
+  return { xs, ys };
+};
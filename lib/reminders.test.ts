@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder, ReminderContext, ReminderSettings, dueReminders, lockedSchedule, markFired, mergeLastFired, reminderSchedule } from './reminders';
+
+// 2024-03-06 is a Wednesday
+const at = (hhmm: string, day = 6) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return new Date(2024, 2, day, h, m);
+};
+
+const ctx: ReminderContext = { hydration: 1000, hydrationTarget: 3000, mealsLogged: 1, bedtime: '23:00' };
+
+const settings = (reminders: Reminder[], lastFired: Record<string, number> = {}): ReminderSettings => ({ reminders, lastFired });
+const due = (r: Reminder, now: Date, c = ctx, lastFired = {}) => dueReminders(settings([r], lastFired), now, c).map(x => x.id);
+
+const fixed: Reminder = { id: 'f', kind: 'fixed', title: 'Breakfast', enabled: true, time: '08:30' };
+
+describe('fixed reminders', () => {
+  it('fires from its time until the grace period runs out', () => {
+    expect(due(fixed, at('08:29'))).toEqual([]);
+    expect(due(fixed, at('08:30'))).toEqual(['f']);
+    expect(due(fixed, at('09:30'))).toEqual(['f']);
+    expect(due(fixed, at('09:31'))).toEqual([]);
+  });
+
+  it('fires once per occurrence', () => {
+    const s = markFired(settings([fixed]), ['f'], at('08:31'));
+    expect(dueReminders(s, at('08:45'), ctx)).toEqual([]);
+    expect(dueReminders(s, at('08:30', 7), ctx).map(r => r.id)).toEqual(['f']);
+  });
+
+  it('skips disabled reminders and days not selected', () => {
+    expect(due({ ...fixed, enabled: false }, at('08:30'))).toEqual([]);
+    expect(due({ ...fixed, days: [1, 2] }, at('08:30'))).toEqual([]);
+    expect(due({ ...fixed, days: [3] }, at('08:30'))).toEqual(['f']);
+  });
+});
+
+describe('interval reminders', () => {
+  const water: Reminder = { id: 'w', kind: 'interval', title: 'Water', enabled: true, every: 90, from: '09:00', to: '18:00' };
+
+  it('fires on each slot inside the window', () => {
+    expect(due(water, at('08:59'))).toEqual([]);
+    expect(due(water, at('09:00'))).toEqual(['w']);
+    const fired = { w: at('09:00').getTime() };
+    expect(due(water, at('10:29'), ctx, fired)).toEqual([]);
+    expect(due(water, at('10:30'), ctx, fired)).toEqual(['w']);
+    expect(due(water, at('18:01'), ctx, fired)).toEqual([]);
+  });
+});
+
+describe('smart reminders', () => {
+  const hydration: Reminder = { id: 'h', kind: 'smart', rule: 'hydration', title: 'Drink', enabled: true, time: '14:00', threshold: 50 };
+
+  it('fires only while hydration is behind the threshold', () => {
+    expect(due(hydration, at('13:59'))).toEqual([]);
+    expect(due(hydration, at('14:00'))).toEqual(['h']);
+    expect(due(hydration, at('14:00'), { ...ctx, hydration: 1500 })).toEqual([]);
+  });
+
+  it('still fires later that day if the app opens late, but not the next morning', () => {
+    expect(due(hydration, at('19:00'))).toEqual(['h']);
+    expect(due(hydration, at('09:00', 7))).toEqual([]);
+  });
+
+  it('fires for no meals only when nothing is logged', () => {
+    const meals: Reminder = { id: 'm', kind: 'smart', rule: 'meals', title: 'Log', enabled: true, time: '13:00' };
+    expect(due(meals, at('13:00'))).toEqual([]);
+    expect(due(meals, at('13:00'), { ...ctx, mealsLogged: 0 })).toEqual(['m']);
+  });
+
+  it('winds down before a bedtime past midnight', () => {
+    const wind: Reminder = { id: 'd', kind: 'smart', rule: 'windDown', title: 'Wind down', enabled: true, lead: 45 };
+    const late = { ...ctx, bedtime: '00:30' };
+    expect(due(wind, at('23:44'), late)).toEqual([]);
+    expect(due(wind, at('23:45'), late)).toEqual(['d']);
+    expect(due(wind, at('00:10', 7), late)).toEqual(['d']);
+  });
+});
+
+describe('reminderSchedule', () => {
+  it('describes the schedule and selected days', () => {
+    expect(reminderSchedule(fixed)).toBe('At 08:30');
+    expect(reminderSchedule({ ...fixed, days: [5, 1] })).toBe('At 08:30 • Mon Fri');
+  });
+});
+
+describe('locked schedule', () => {
+  const smart: Reminder = { id: 's', kind: 'smart', rule: 'meals', title: 'Log', enabled: true, time: '13:00' };
+
+  it('keeps only enabled timed reminders, without titles', () => {
+    const s = lockedSchedule(settings([fixed, smart, { ...fixed, id: 'off', enabled: false }], { f: 1, s: 2 }));
+    expect(s.reminders).toHaveLength(1);
+    expect(s.reminders[0]).toMatchObject({ id: 'f', kind: 'fixed', time: '08:30', title: '' });
+    expect(s.lastFired).toEqual({ f: 1 });
+  });
+
+  it('merges firing times, keeping the later one', () => {
+    expect(mergeLastFired(settings([fixed], { f: 5, s: 2 }), { f: 9, x: 1 }).lastFired).toEqual({ f: 9, s: 2, x: 1 });
+  });
+});
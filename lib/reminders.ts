@@ -0,0 +1,178 @@
+/**
+ * ============================================================================
+ * REMINDERS
+ * ============================================================================
+ *
+ * User-configured nudges, checked by the app about once a minute:
+ *  - fixed:    at a clock time ("log breakfast at 08:30")
+ *  - interval: every N minutes inside a daily window ("water every 90 min,
+ *              09:00-18:00")
+ *  - smart:    at a clock time only if a condition holds on today's log
+ *              ("hydration < 50% of target by 14:00"), or relative to the
+ *              planned bedtime (wind-down)
+ * Each reminder fires at most once per occurrence. Occurrences missed while
+ * the app was closed are dropped after a grace period, so opening the app
+ * in the evening does not replay the whole day.
+ *
+ * Fixed and interval reminders also fire while the vault is locked, from a
+ * copy stored outside it (lockedSchedule). Smart ones need today's log and
+ * only fire while it is open.
+ */
+
+export type ReminderKind = 'fixed' | 'interval' | 'smart';
+export type SmartRule = 'hydration' | 'meals' | 'windDown';
+
+export interface Reminder {
+  id: string;
+  kind: ReminderKind;
+  title: string;
+  enabled: boolean;
+  days?: number[]; // weekdays, 0 = Sunday; every day when absent
+  time?: string; // HH:MM, fixed and smart (hydration, meals)
+  every?: number; // minutes, interval
+  from?: string; // HH:MM, interval window
+  to?: string; // HH:MM, interval window
+  rule?: SmartRule;
+  threshold?: number; // % of hydration target
+  lead?: number; // minutes before bedtime, windDown
+}
+
+export interface ReminderSettings {
+  reminders: Reminder[];
+  lastFired: Record<string, number>; // reminder id -> epoch ms
+}
+
+// Today's log, as far as the smart rules need it
+export interface ReminderContext {
+  hydration: number; // ml
+  hydrationTarget: number; // ml
+  mealsLogged: number; // food items and meal events
+  bedtime: string; // HH:MM, tonight's planned
+}
+
+export const GRACE_MINUTES = 60;
+
+export const SMART_RULES: { id: SmartRule; l: string }[] = [
+  { id: 'hydration', l: 'Hydration behind' },
+  { id: 'meals', l: 'No meals logged' },
+  { id: 'windDown', l: 'Wind down before bed' },
+];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminders: [
+    { id: 'rem_hydration', kind: 'smart', rule: 'hydration', title: 'Drink some water', enabled: false, time: '14:00', threshold: 50 },
+    { id: 'rem_meals', kind: 'smart', rule: 'meals', title: 'Log your meals', enabled: false, time: '13:00' },
+    { id: 'rem_winddown', kind: 'smart', rule: 'windDown', title: 'Time to wind down', enabled: false, lead: 45 },
+    { id: 'rem_water', kind: 'interval', title: 'Water break', enabled: false, every: 90, from: '09:00', to: '18:00' },
+  ],
+  lastFired: {},
+};
+
+const clockMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Local timestamp of a minute-of-day on the same calendar day as `now`
+const atMinute = (now: Date, minute: number) => {
+  const d = new Date(now);
+  d.setHours(0, minute, 0, 0);
+  return d.getTime();
+};
+
+const onDay = (r: Reminder, t: number) => !r.days || r.days.includes(new Date(t).getDay());
+
+// Clock time a smart reminder is checked at
+const smartMinute = (r: Reminder, ctx: ReminderContext) =>
+  r.rule === 'windDown' ? clockMinutes(ctx.bedtime) - (r.lead ?? 0) : clockMinutes(r.time ?? '00:00');
+
+/**
+ * The latest occurrence at or before `now` that may still fire, as epoch
+ * ms, or null. A reminder whose time is just before midnight still counts
+ * shortly after it.
+ */
+const occurrence = (r: Reminder, now: Date, ctx: ReminderContext): { at: number; grace: number } | null => {
+  const t = now.getTime();
+  const fixedAt = (minute: number) => {
+    const today = atMinute(now, ((minute % 1440) + 1440) % 1440);
+    return today <= t ? today : today - 86_400_000;
+  };
+
+  if (r.kind === 'interval') {
+    if (!r.every || r.every <= 0 || !r.from || !r.to) return null;
+    const m = now.getHours() * 60 + now.getMinutes();
+    const from = clockMinutes(r.from);
+    if (m < from || m > clockMinutes(r.to)) return null;
+    return { at: atMinute(now, from + Math.floor((m - from) / r.every) * r.every), grace: r.every };
+  }
+  if (r.kind === 'smart' && r.rule !== 'windDown') {
+    // Conditions describe today's log, so there is no carry-over from yesterday
+    const at = atMinute(now, smartMinute(r, ctx));
+    return at <= t ? { at, grace: 1440 } : null;
+  }
+  const minute = r.kind === 'fixed' ? clockMinutes(r.time ?? '00:00') : smartMinute(r, ctx);
+  return { at: fixedAt(minute), grace: GRACE_MINUTES };
+};
+
+const conditionHolds = (r: Reminder, ctx: ReminderContext) => {
+  if (r.kind !== 'smart') return true;
+  if (r.rule === 'hydration') return ctx.hydrationTarget > 0 && ctx.hydration < ctx.hydrationTarget * (r.threshold ?? 50) / 100;
+  if (r.rule === 'meals') return ctx.mealsLogged === 0;
+  return true;
+};
+
+// Enabled reminders with an occurrence due now that has not fired yet
+export const dueReminders = (settings: ReminderSettings, now: Date, ctx: ReminderContext) =>
+  settings.reminders.filter(r => {
+    if (!r.enabled) return false;
+    const o = occurrence(r, now, ctx);
+    if (!o || !onDay(r, o.at)) return false;
+    if ((settings.lastFired[r.id] ?? 0) >= o.at) return false;
+    if (now.getTime() - o.at > o.grace * 60_000) return false;
+    return conditionHolds(r, ctx);
+  });
+
+export const markFired = (settings: ReminderSettings, ids: string[], now: Date): ReminderSettings => ({
+  ...settings,
+  lastFired: { ...settings.lastFired, ...Object.fromEntries(ids.map(id => [id, now.getTime()])) },
+});
+
+/**
+ * What may be stored unencrypted: fixed and interval timing only. Titles
+ * are the user's own words, so they stay in the vault.
+ */
+export const lockedSchedule = (settings: ReminderSettings): ReminderSettings => {
+  const reminders = settings.reminders
+    .filter(r => r.enabled && r.kind !== 'smart')
+    .map(({ id, kind, days, time, every, from, to }) => ({ id, kind, title: '', enabled: true, days, time, every, from, to }));
+  return {
+    reminders,
+    lastFired: Object.fromEntries(reminders.filter(r => r.id in settings.lastFired).map(r => [r.id, settings.lastFired[r.id]])),
+  };
+};
+
+// Take the later firing time per reminder, e.g. from the locked schedule copy
+export const mergeLastFired = (settings: ReminderSettings, fired: Record<string, number>): ReminderSettings => ({
+  ...settings,
+  lastFired: Object.fromEntries([...new Set([...Object.keys(settings.lastFired), ...Object.keys(fired)])]
+    .map(id => [id, Math.max(settings.lastFired[id] ?? 0, fired[id] ?? 0)])),
+});
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const reminderSchedule = (r: Reminder) => {
+  const days = r.days && r.days.length < 7 ? ` • ${[...r.days].sort().map(d => DAY_NAMES[d]).join(' ')}` : '';
+  if (r.kind === 'interval') return `Every ${r.every} min, ${r.from}–${r.to}${days}`;
+  if (r.kind === 'fixed') return `At ${r.time}${days}`;
+  if (r.rule === 'windDown') return `${r.lead} min before bedtime${days}`;
+  if (r.rule === 'meals') return `If nothing is logged by ${r.time}${days}`;
+  return `If hydration < ${r.threshold}% of target by ${r.time}${days}`;
+};
+
+// Notification text, with today's numbers for the smart rules
+export const reminderBody = (r: Reminder, ctx: ReminderContext) => {
+  if (r.kind !== 'smart') return reminderSchedule(r);
+  if (r.rule === 'hydration') return `${ctx.hydration} of ${ctx.hydrationTarget} ml so far (${Math.round((ctx.hydration / ctx.hydrationTarget) * 100)}%).`;
+  if (r.rule === 'meals') return 'Nothing logged yet today.';
+  return `Bedtime ${ctx.bedtime} is ${r.lead} min away.`;
+};
@@ -0,0 +1,187 @@
+import { DayHistory } from '../types';
+import { shiftDate } from './day';
+import { Metric, getMetric } from './metrics';
+import { calculateStdDev, mean, median } from './stats';
+import { weekStart } from './training';
+
+/**
+ * ============================================================================
+ * PERIOD REPORTS
+ * ============================================================================
+ *
+ * Aggregates history by ISO week (Monday start) or calendar month and
+ * compares each period with the one before it. `reportHtml` renders a
+ * self-contained document with its own print stylesheet for sharing.
+ */
+
+export type PeriodKind = 'week' | 'month';
+
+export const REPORT_METRICS = ['score', 'sleep', 'efficiency', 'calories', 'protein', 'hydration', 'steps', 'strengthVol', 'study', 'screen'];
+
+export interface SummaryStats {
+  n: number;
+  mean: number;
+  median: number;
+  sd: number;
+  min: number;
+  max: number;
+}
+
+export interface MetricReport {
+  metric: Metric;
+  current: SummaryStats | null;
+  previous: SummaryStats | null;
+  delta: number | null; // mean change vs previous period
+  deltaPct: number | null;
+}
+
+export interface Report {
+  kind: PeriodKind;
+  start: string;
+  end: string;
+  label: string;
+  previousLabel: string;
+  days: number; // recorded days in the period
+  length: number; // calendar days in the period
+  metrics: MetricReport[];
+  distribution: number[]; // system score counts in 10-point bins, 0-9 ... 90-100
+  best: { date: string; score: number }[];
+  worst: { date: string; score: number }[];
+}
+
+export const periodStart = (date: string, kind: PeriodKind) => kind === 'week' ? weekStart(date) : `${date.slice(0, 7)}-01`;
+
+export const shiftPeriod = (start: string, kind: PeriodKind, n: number) => {
+  if (kind === 'week') return shiftDate(start, 7 * n);
+  const d = new Date(`${start}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + n);
+  return d.toISOString().split('T')[0];
+};
+
+export const periodEnd = (start: string, kind: PeriodKind) => shiftDate(shiftPeriod(start, kind, 1), -1);
+
+// ISO 8601 week: a week belongs to the year its Thursday falls in
+export const isoWeek = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 3 - (d.getUTCDay() + 6) % 7);
+  const year = d.getUTCFullYear();
+  return { year, week: 1 + Math.floor((d.getTime() - Date.UTC(year, 0, 1)) / 604_800_000) };
+};
+
+export const periodLabel = (start: string, kind: PeriodKind) => {
+  if (kind === 'week') {
+    const { year, week } = isoWeek(start);
+    return `${year}-W${week.toString().padStart(2, '0')}`;
+  }
+  return new Date(`${start}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+// Starts of every period with at least one recorded day, newest first
+export const listPeriods = (history: DayHistory, kind: PeriodKind) =>
+  [...new Set(Object.keys(history).map(d => periodStart(d, kind)))].sort().reverse();
+
+const summarize = (values: number[]): SummaryStats | null => values.length === 0 ? null : {
+  n: values.length,
+  mean: mean(values),
+  median: median(values),
+  sd: calculateStdDev(values),
+  min: Math.min(...values),
+  max: Math.max(...values),
+};
+
+const datesIn = (history: DayHistory, start: string, end: string) => Object.keys(history).filter(d => d >= start && d <= end).sort();
+
+const values = (history: DayHistory, dates: string[], metric: Metric) => dates
+  .map(d => metric.get(history[d]))
+  .filter((v): v is number => v !== undefined && Number.isFinite(v));
+
+export const buildReport = (history: DayHistory, kind: PeriodKind, start: string): Report => {
+  const end = periodEnd(start, kind);
+  const prevStart = shiftPeriod(start, kind, -1);
+  const dates = datesIn(history, start, end);
+  const prevDates = datesIn(history, prevStart, shiftDate(start, -1));
+
+  const metrics = REPORT_METRICS.map(id => {
+    const metric = getMetric(id);
+    const current = summarize(values(history, dates, metric));
+    const previous = summarize(values(history, prevDates, metric));
+    const delta = current && previous ? current.mean - previous.mean : null;
+    return {
+      metric,
+      current,
+      previous,
+      delta,
+      deltaPct: delta !== null && previous && previous.mean !== 0 ? delta / Math.abs(previous.mean) * 100 : null,
+    };
+  });
+
+  const scored = dates.map(date => ({ date, score: history[date].score })).filter(d => Number.isFinite(d.score));
+  const distribution = Array.from({ length: 10 }, () => 0);
+  scored.forEach(d => { distribution[Math.min(9, Math.max(0, Math.floor(d.score / 10)))]++; });
+  const ranked = [...scored].sort((a, b) => b.score - a.score);
+  const top = Math.min(3, Math.floor(ranked.length / 2));
+
+  return {
+    kind,
+    start,
+    end,
+    label: periodLabel(start, kind),
+    previousLabel: periodLabel(prevStart, kind),
+    days: dates.length,
+    length: Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000) + 1,
+    metrics,
+    distribution,
+    best: ranked.slice(0, top),
+    worst: ranked.slice(ranked.length - top).reverse(),
+  };
+};
+
+// --- Shareable HTML ---
+
+const esc = (s: string) => s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+export const formatStat = (v: number, metric: Metric) => {
+  const abs = Math.abs(v);
+  return abs >= 100 ? Math.round(v).toLocaleString('en-US') : v.toFixed(metric.unit === 'h' || abs < 10 ? 1 : 0);
+};
+
+export const formatDelta = (m: MetricReport) => m.delta === null ? '–'
+  : `${m.delta >= 0 ? '+' : '−'}${formatStat(Math.abs(m.delta), m.metric)}${m.deltaPct !== null ? ` (${m.deltaPct >= 0 ? '+' : '−'}${Math.abs(m.deltaPct).toFixed(0)}%)` : ''}`;
+
+export const reportHtml = (report: Report) => {
+  const rows = report.metrics.map(m => {
+    const c = m.current;
+    const cell = (v: number | undefined) => `<td>${v === undefined ? '–' : formatStat(v, m.metric)}</td>`;
+    const good = m.delta === null || !m.metric.polarity ? '' : m.delta * m.metric.polarity >= 0 ? 'up' : 'down';
+    return `<tr><th>${esc(m.metric.l)} <small>${esc(m.metric.unit)}</small></th>${cell(c?.mean)}${cell(c?.median)}${cell(c?.sd)}<td>${c ? `${formatStat(c.min, m.metric)}–${formatStat(c.max, m.metric)}` : '–'}</td><td class="${good}">${formatDelta(m)}</td></tr>`;
+  }).join('');
+  const maxBin = Math.max(1, ...report.distribution);
+  const bins = report.distribution.map((n, i) => `<div class="bin"><div class="bar" style="height:${(n / maxBin) * 100}%"></div><span>${i * 10}</span></div>`).join('');
+  const dayList = (days: { date: string; score: number }[]) => days.map(d => `<li>${d.date} <b>${d.score.toFixed(0)}</b></li>`).join('') || '<li>–</li>';
+
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8">
+<title>MetrixOS report ${esc(report.label)}</title>
+<style>
+  body { font: 13px/1.4 -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0; } h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .08em; color: #555; margin: 24px 0 8px; }
+  .sub { color: #666; margin-top: 4px; }
+  table { border-collapse: collapse; width: 100%; font-variant-numeric: tabular-nums; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: right; } th:first-child { text-align: left; font-weight: 600; }
+  thead th { font-size: 11px; color: #666; text-transform: uppercase; }
+  small { color: #888; font-weight: normal; } .up { color: #0a7a3d; } .down { color: #b42318; }
+  .dist { display: flex; gap: 4px; align-items: flex-end; height: 90px; }
+  .bin { flex: 1; height: 100%; display: flex; flex-direction: column; justify-content: flex-end; text-align: center; font-size: 10px; color: #666; }
+  .bar { background: #4f46e5; min-height: 1px; }
+  .cols { display: flex; gap: 48px; } ul { padding-left: 18px; margin: 0; }
+  @media print { body { margin: 12mm; } @page { size: A4; margin: 10mm; } h2 { break-after: avoid; } table, .dist { break-inside: avoid; } }
+</style></head><body>
+<h1>MetrixOS Report · ${esc(report.label)}</h1>
+<div class="sub">${report.start} – ${report.end} · ${report.days} of ${report.length} days logged · compared with ${esc(report.previousLabel)}</div>
+<h2>Metrics</h2>
+<table><thead><tr><th>Metric</th><th>Mean</th><th>Median</th><th>SD</th><th>Range</th><th>Δ Mean</th></tr></thead><tbody>${rows}</tbody></table>
+<h2>System score distribution</h2>
+<div class="dist">${bins}</div>
+<div class="cols"><div><h2>Best days</h2><ul>${dayList(report.best)}</ul></div><div><h2>Worst days</h2><ul>${dayList(report.worst)}</ul></div></div>
+</body></html>`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCORING, calculateMacroAdherence, computeScores } from './scoring';
+
+describe('calculateMacroAdherence', () => {
+  const target = { p: 150, c: 200, f: 60 };
+
+  it('is 100 on target and falls off with distance', () => {
+    expect(calculateMacroAdherence(target, target)).toBe(100);
+    expect(calculateMacroAdherence({ p: 120, c: 200, f: 60 }, target)).toBeLessThan(100);
+    expect(calculateMacroAdherence({ p: 0, c: 0, f: 0 }, target)).toBe(0);
+  });
+
+  it('never goes below zero', () => {
+    expect(calculateMacroAdherence({ p: 900, c: 900, f: 900 }, target)).toBe(0);
+  });
+
+  it('handles zero targets without NaN', () => {
+    const zero = { p: 0, c: 0, f: 0 };
+    expect(calculateMacroAdherence(zero, zero)).toBe(100);
+    expect(calculateMacroAdherence({ p: 10, c: 0, f: 0 }, zero)).toBe(0);
+  });
+
+  it('handles zero tolerance without NaN', () => {
+    expect(calculateMacroAdherence(target, target, 0)).toBe(100);
+    expect(calculateMacroAdherence({ p: 151, c: 200, f: 60 }, target, 0)).toBe(0);
+  });
+});
+
+describe('computeScores', () => {
+  const inputs = {
+    sleepMinutes: 480,
+    macros: { p: 180, c: 250, f: 70 },
+    macroTargets: { p: 180, c: 250, f: 70 },
+    hydration: 3500,
+    hydrationTarget: 3500,
+    steps: 10000,
+    strengthVol: 10000,
+    screenTime: 60,
+    studyMinutes: 60,
+  };
+
+  it('keeps every score within 0-100', () => {
+    const s = computeScores(inputs, DEFAULT_SCORING.params);
+    Object.values(s).forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('treats a zero hydration target as met', () => {
+    expect(computeScores({ ...inputs, hydration: 0, hydrationTarget: 0 }, DEFAULT_SCORING.params).hydration).toBe(100);
+  });
+});
@@ -0,0 +1,161 @@
+import { DayHistory, DayRecord, DayScores, ScoringParams, ScoringSettings } from '../types';
+
+/**
+ * ============================================================================
+ * SCORING ENGINE
+ * ============================================================================
+ *
+ * Every domain maps raw daily metrics to 0-100; the system score is the
+ * weight-normalised mean. Parameters come from a named preset or the
+ * user's own edits.
+ */
+
+// Bump when the formulas below change so stored days get re-scored
+export const SCORING_VERSION = 2;
+
+export type MacroSet = { p: number, c: number, f: number };
+
+export const SCORING_PRESETS: { id: string; name: string; description: string; params: ScoringParams }[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: '8h sleep, 10k steps, 2h screen allowance.',
+    params: {
+      sleep: { target: 480, tolerance: 90, weight: 0.3 },
+      nutrition: { tolerance: 100, weight: 0.25 },
+      hydration: { tolerance: 20, weight: 0.1 },
+      physical: { stepsTarget: 10000, volumeTarget: 10000, weight: 0.2 },
+      mind: { screenLimit: 120, screenTolerance: 60, studyTarget: 60, weight: 0.15 },
+    },
+  },
+  {
+    id: 'shift',
+    name: 'Shift Worker',
+    description: 'Shorter, split sleep with a wider tolerance; heavier screen exposure at work.',
+    params: {
+      sleep: { target: 420, tolerance: 120, weight: 0.3 },
+      nutrition: { tolerance: 100, weight: 0.25 },
+      hydration: { tolerance: 20, weight: 0.15 },
+      physical: { stepsTarget: 8000, volumeTarget: 6000, weight: 0.15 },
+      mind: { screenLimit: 240, screenTolerance: 90, studyTarget: 30, weight: 0.15 },
+    },
+  },
+  {
+    id: 'endurance',
+    name: 'Endurance',
+    description: 'Extra recovery sleep and high daily movement, low lifting volume.',
+    params: {
+      sleep: { target: 540, tolerance: 75, weight: 0.3 },
+      nutrition: { tolerance: 80, weight: 0.2 },
+      hydration: { tolerance: 40, weight: 0.15 },
+      physical: { stepsTarget: 18000, volumeTarget: 4000, weight: 0.25 },
+      mind: { screenLimit: 120, screenTolerance: 60, studyTarget: 30, weight: 0.1 },
+    },
+  },
+  {
+    id: 'strength',
+    name: 'Strength',
+    description: 'High lifting volume with moderate step counts.',
+    params: {
+      sleep: { target: 510, tolerance: 90, weight: 0.3 },
+      nutrition: { tolerance: 70, weight: 0.3 },
+      hydration: { tolerance: 20, weight: 0.1 },
+      physical: { stepsTarget: 7000, volumeTarget: 15000, weight: 0.2 },
+      mind: { screenLimit: 120, screenTolerance: 60, studyTarget: 60, weight: 0.1 },
+    },
+  },
+];
+
+export const DEFAULT_SCORING: ScoringSettings = { preset: 'standard', params: SCORING_PRESETS[0].params };
+
+// Euclidean Distance for Macro Adherence (3D space: P, C, F)
+export const calculateMacroAdherence = (current: MacroSet, target: MacroSet, tolerance = 1) => {
+  const maxDist = Math.sqrt(target.p**2 + target.c**2 + target.f**2) * tolerance; // Origin to target distance
+  const dist = Math.sqrt(
+    Math.pow(current.p - target.p, 2) +
+    Math.pow(current.c - target.c, 2) +
+    Math.pow(current.f - target.f, 2)
+  );
+  // With no target (or no tolerance) only an exact match scores
+  if (maxDist === 0) return dist === 0 ? 100 : 0;
+  // Score 100 at 0 distance, 0 at maxDist (simplified)
+  return Math.max(0, 100 * (1 - (dist / maxDist)));
+};
+
+export interface ScoreInputs {
+  sleepMinutes: number;
+  macros: MacroSet;
+  macroTargets: MacroSet;
+  hydration: number;
+  hydrationTarget: number;
+  steps: number;
+  strengthVol: number;
+  screenTime: number;
+  studyMinutes: number;
+}
+
+export const computeScores = (i: ScoreInputs, params: ScoringParams): DayScores => {
+  // Sleep: Gaussian around the target duration
+  const sleep = 100 * Math.exp(-0.5 * Math.pow((i.sleepMinutes - params.sleep.target) / params.sleep.tolerance, 2));
+
+  // Nutrition: Euclidean Adherence
+  const nutrition = calculateMacroAdherence(i.macros, i.macroTargets, params.nutrition.tolerance / 100);
+
+  // Hydration: Linear to target, decay past the overshoot tolerance
+  const hydroRatio = i.hydrationTarget > 0 ? i.hydration / i.hydrationTarget : 1;
+  const hydration = hydroRatio <= 1
+    ? hydroRatio * 100
+    : Math.max(0, 100 - Math.max(0, hydroRatio - 1 - params.hydration.tolerance / 100) * 50);
+
+  // Physical: Steps and volume each contribute half
+  const physical = Math.min(100, (i.steps / params.physical.stepsTarget * 50) + (i.strengthVol / params.physical.volumeTarget * 50));
+
+  // Mind: Study reward vs Screen penalty around a 70 baseline
+  const screenPenalty = Math.max(0, i.screenTime - params.mind.screenLimit) / params.mind.screenTolerance * 30;
+  const studyReward = i.studyMinutes / params.mind.studyTarget * 30;
+  const mind = Math.min(100, Math.max(0, 70 + studyReward - screenPenalty));
+
+  // System Status (Weighted)
+  const w = params;
+  const totalWeight = w.sleep.weight + w.nutrition.weight + w.hydration.weight + w.physical.weight + w.mind.weight || 1;
+  const system = ((sleep * w.sleep.weight) + (nutrition * w.nutrition.weight) + (physical * w.physical.weight)
+    + (mind * w.mind.weight) + (hydration * w.hydration.weight)) / totalWeight;
+
+  return { sleep, nutrition, hydration, physical, mind, system };
+};
+
+// Records saved before carbs/fat were tracked: split the non-protein
+// calories 55/45 between carbohydrate and fat
+export const recordMacros = (rec: DayRecord): MacroSet => {
+  const rest = Math.max(0, rec.nutrition.calories - rec.nutrition.protein * 4);
+  return {
+    p: rec.nutrition.protein,
+    c: rec.nutrition.carbs ?? (rest * 0.55) / 4,
+    f: rec.nutrition.fat ?? (rest * 0.45) / 9,
+  };
+};
+
+export const scoreRecord = (rec: DayRecord, targets: MacroSet, hydrationTarget: number, params: ScoringParams) => computeScores({
+  sleepMinutes: rec.sleep.durationMinutes,
+  macros: recordMacros(rec),
+  macroTargets: targets,
+  hydration: rec.nutrition.hydration,
+  hydrationTarget,
+  steps: rec.physical.steps,
+  strengthVol: rec.physical.strengthVol,
+  screenTime: rec.mind.screenTime,
+  studyMinutes: rec.mind.studyMinutes,
+}, params);
+
+// Re-score days produced by an older (or no) scoring model; `all` forces
+// every day, e.g. after the parameters change
+export const backfillScores = (history: DayHistory, targets: MacroSet, hydrationTarget: number, params: ScoringParams, all = false) => {
+  const changed: DayHistory = {};
+  Object.keys(history).forEach(d => {
+    const rec = history[d];
+    if (!all && rec.scoringVersion === SCORING_VERSION) return;
+    const scores = scoreRecord(rec, targets, hydrationTarget, params);
+    changed[d] = { ...rec, score: scores.system, scores, scoringVersion: SCORING_VERSION };
+  });
+  return changed;
+};
@@ -0,0 +1,73 @@
+import { calculateStdDev } from './stats';
+
+/**
+ * ============================================================================
+ * SLEEP REGULARITY
+ * ============================================================================
+ */
+
+export interface Night {
+  date: string; // YYYY-MM-DD
+  duration: number; // minutes asleep
+  bedtime?: string; // HH:MM
+  waketime?: string; // HH:MM
+}
+
+// Clock time as minutes after noon, so an evening bedtime and an
+// after-midnight one stay on the same continuous axis
+const minutesFromNoon = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (((h * 60 + m) - 720) + 1440) % 1440;
+};
+
+const fromNoon = (min: number) => {
+  const total = Math.round(min + 720) % 1440;
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Net minutes short of the target over the last `days` nights; surplus
+// nights pay debt back but the total never goes negative
+export const sleepDebt = (nights: Night[], target: number, days: number) =>
+  Math.max(0, nights.slice(-days).reduce((acc, n) => acc + (target - n.duration), 0));
+
+export interface SleepConsistency {
+  nights: number;
+  bedtimeSd: number; // minutes
+  waketimeSd: number; // minutes
+  socialJetlag: number; // minutes between free-day and workday mid-sleep
+  meanBedtime: string;
+  meanWaketime: string;
+  score: number; // 100 = identical schedule every night
+}
+
+export const sleepConsistency = (nights: Night[], days = 14): SleepConsistency | null => {
+  const timed = nights.slice(-days).filter(n => n.bedtime && n.waketime);
+  if (timed.length < 3) return null;
+
+  const beds = timed.map(n => minutesFromNoon(n.bedtime!));
+  // Keep wake after bed on the noon axis (sleeping past noon)
+  const wakes = timed.map((n, i) => {
+    const w = minutesFromNoon(n.waketime!);
+    return w < beds[i] ? w + 1440 : w;
+  });
+  const mids = beds.map((b, i) => (b + wakes[i]) / 2);
+
+  // Weekend mornings (Sat/Sun wake dates) count as free days
+  const isFree = (date: string) => [0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+  const mean = (a: number[]) => a.reduce((x, y) => x + y, 0) / a.length;
+  const free = mids.filter((_, i) => isFree(timed[i].date));
+  const work = mids.filter((_, i) => !isFree(timed[i].date));
+
+  const bedtimeSd = calculateStdDev(beds);
+  const waketimeSd = calculateStdDev(wakes);
+  return {
+    nights: timed.length,
+    bedtimeSd,
+    waketimeSd,
+    socialJetlag: free.length && work.length ? Math.abs(mean(free) - mean(work)) : 0,
+    meanBedtime: fromNoon(mean(beds)),
+    meanWaketime: fromNoon(mean(wakes) % 1440),
+    // 0 once the average deviation reaches two hours
+    score: Math.max(0, 100 - ((bedtimeSd + waketimeSd) / 2) * (100 / 120)),
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCorrelation, calculateStdDev, mean, median, testCorrelation } from './stats';
+
+describe('calculateCorrelation', () => {
+  it('is ±1 for perfectly linear series', () => {
+    expect(calculateCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+    expect(calculateCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+  });
+
+  it('is 0 when either series is constant', () => {
+    expect(calculateCorrelation([5, 5, 5, 5], [1, 2, 3, 4])).toBe(0);
+    expect(calculateCorrelation([1, 2, 3, 4], [7, 7, 7, 7])).toBe(0);
+    expect(calculateCorrelation([0.1, 0.1, 0.1], [0.3, 0.1, 0.2])).toBe(0);
+  });
+
+  it('stays finite and bounded for large, nearly equal values', () => {
+    const x = [1e9 + 1, 1e9 + 2, 1e9 + 3, 1e9 + 4];
+    expect(calculateCorrelation(x, [1, 2, 3, 4])).toBeCloseTo(1);
+  });
+
+  it('needs at least two pairs and uses the shorter series', () => {
+    expect(calculateCorrelation([1], [2])).toBe(0);
+    expect(calculateCorrelation([1, 2, 3, 100], [1, 2, 3])).toBeCloseTo(1);
+  });
+
+  it('gives a p-value of 1 for a constant series', () => {
+    expect(testCorrelation([3, 3, 3, 3, 3], [1, 2, 3, 4, 5]).p).toBe(1);
+  });
+});
+
+describe('summary statistics', () => {
+  it('computes mean, median and population SD', () => {
+    expect(mean([1, 2, 3, 4])).toBe(2.5);
+    expect(median([4, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(calculateStdDev([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(mean([])).toBe(0);
+    expect(median([])).toBe(0);
+    expect(calculateStdDev([])).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * ============================================================================
+ * HELPER: STATISTICAL MODELS & MATH
+ * ============================================================================
+ */
+
+export const mean = (data: number[]) => data.length ? data.reduce((a, b) => a + b, 0) / data.length : 0;
+
+// Pearson Correlation Coefficient; 0 when either series is constant
+export const calculateCorrelation = (x: number[], y: number[]): number => {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return 0;
+  const xs = x.slice(0, n);
+  const ys = y.slice(0, n);
+  if (xs.every(v => v === xs[0]) || ys.every(v => v === ys[0])) return 0;
+
+  // Centred sums; the raw-moment form cancels badly for large, similar values
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  const r = sxy / Math.sqrt(sxx * syy);
+  return Number.isFinite(r) ? Math.max(-1, Math.min(1, r)) : 0;
+};
+
+// Standard Deviation
+export const calculateStdDev = (data: number[]): number => {
+  if (data.length === 0) return 0;
+  const mean = data.reduce((a, b) => a + b, 0) / data.length;
+  const variance = data.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / data.length;
+  return Math.sqrt(variance);
+};
+
+export const median = (data: number[]) => {
+  if (data.length === 0) return 0;
+  const sorted = [...data].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Lanczos approximation of ln Γ(z)
+const logGamma = (z: number): number => {
+  const g = 7;
+  const c = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  z -= 1;
+  let x = c[0];
+  for (let i = 1; i < g + 2; i++) x += c[i] / (z + i);
+  const t = z + g + 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+};
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d; h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c; if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta I_x(a, b)
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+// Two-sided p-value of Student's t with `df` degrees of freedom
+export const studentTPValue = (t: number, df: number) => incompleteBeta(df / (df + t * t), df / 2, 0.5);
+
+export interface CorrelationTest {
+  r: number;
+  n: number;
+  p: number; // two-sided, H0: r = 0
+  ci: [number, number]; // 95% via Fisher z-transform
+}
+
+export const testCorrelation = (x: number[], y: number[]): CorrelationTest => {
+  const n = Math.min(x.length, y.length);
+  const r = calculateCorrelation(x, y);
+  if (n < 4) return { r, n, p: 1, ci: [-1, 1] };
+  const rc = Math.max(-0.999999, Math.min(0.999999, r));
+  const t = rc * Math.sqrt((n - 2) / (1 - rc * rc));
+  const z = Math.atanh(rc);
+  const se = 1 / Math.sqrt(n - 3);
+  return { r, n, p: studentTPValue(t, n - 2), ci: [Math.tanh(z - 1.96 * se), Math.tanh(z + 1.96 * se)] };
+};
+
+// Ordinary least squares fit y = slope * x + intercept
+export const linearRegression = (x: number[], y: number[]) => {
+  const mx = mean(x);
+  const my = mean(y);
+  const sxx = x.reduce((acc, xi) => acc + (xi - mx) ** 2, 0);
+  const sxy = x.reduce((acc, xi, i) => acc + (xi - mx) * (y[i] - my), 0);
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return { slope, intercept: my - slope * mx };
+};
+
+// Welch's two-sample t-test for a difference in means (unequal variances)
+export const welchTTest = (a: number[], b: number[]) => {
+  if (a.length < 2 || b.length < 2) return { t: 0, df: 0, p: 1 };
+  const va = a.reduce((acc, v) => acc + (v - mean(a)) ** 2, 0) / (a.length - 1);
+  const vb = b.reduce((acc, v) => acc + (v - mean(b)) ** 2, 0) / (b.length - 1);
+  const se2 = va / a.length + vb / b.length;
+  if (se2 === 0) return { t: 0, df: 0, p: 1 };
+  const t = (mean(a) - mean(b)) / Math.sqrt(se2);
+  const df = se2 ** 2 / ((va / a.length) ** 2 / (a.length - 1) + (vb / b.length) ** 2 / (b.length - 1));
+  return { t, df, p: studentTPValue(t, df) };
+};
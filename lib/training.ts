@@ -0,0 +1,38 @@
+import { EXERCISE_DB } from '../constants';
+import { MuscleGroup, StrengthEntry } from '../types';
+
+// Epley estimate of the one-rep max from a submaximal set
+export const estimateOneRepMax = (weight: number, reps: number) => {
+  if (reps <= 0 || weight <= 0) return 0;
+  if (reps === 1) return weight;
+  return weight * (1 + reps / 30);
+};
+
+export const entryVolume = (e: { sets: number; reps: number; weight: number }) => e.sets * e.reps * e.weight;
+
+// Monday of the ISO week containing the given YYYY-MM-DD date
+export const weekStart = (dateStr: string) => {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  const day = (d.getUTCDay() + 6) % 7;
+  d.setUTCDate(d.getUTCDate() - day);
+  return d.toISOString().split('T')[0];
+};
+
+export const volumeByMuscle = (entries: StrengthEntry[]) => {
+  const totals: Partial<Record<MuscleGroup, number>> = {};
+  entries.forEach(e => {
+    const ex = EXERCISE_DB.find(x => x.id === e.exerciseId);
+    if (!ex) return;
+    totals[ex.muscle] = (totals[ex.muscle] || 0) + entryVolume(e);
+  });
+  return totals;
+};
+
+// Minutes per km rendered as m:ss
+export const formatPace = (duration: number, distance: number) => {
+  if (distance <= 0) return '--:--';
+  const pace = duration / distance;
+  const min = Math.floor(pace);
+  const sec = Math.round((pace - min) * 60);
+  return sec === 60 ? `${min + 1}:00` : `${min}:${sec.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,17 @@
+// MetrixOS service worker: shows reminder notifications and brings the app
+// forward when one is clicked. Scheduling happens in the page, see
+// lib/reminders.ts; nothing here is cached or synced.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const open = windows.find(w => new URL(w.url).origin === self.location.origin);
+    if (open) return open.focus();
+    return self.clients.openWindow('/');
+  })());
+});
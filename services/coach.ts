@@ -0,0 +1,122 @@
+import { CoachContext, DOMAINS, Domain, serializeContext } from '../lib/coach';
+import { GEMINI_MODEL, geminiKey, generateText } from './gemini';
+
+/**
+ * ============================================================================
+ * COACH: daily briefing & free-form questions
+ * ============================================================================
+ *
+ * Providers turn a CoachContext into text. Gemini is used when an API key is
+ * configured; otherwise the offline provider answers from the same context
+ * with fixed rules, so the feature never hard-fails without network or key.
+ */
+
+export type CoachRequest =
+  | { kind: 'briefing'; context: CoachContext }
+  | { kind: 'question'; context: CoachContext; question: string };
+
+export interface CoachProvider {
+  id: string;
+  label: string;
+  online: boolean;
+  complete: (req: CoachRequest) => Promise<string>;
+}
+
+const SYSTEM_PROMPT = [
+  'You are the coach inside MetrixOS, a personal health tracker.',
+  'Answer only from the JSON data provided; say so when the data cannot answer.',
+  'Scores are 0-100 per domain (sleep, nutrition, hydration, physical, mind) and a weighted system score.',
+  'Be direct and specific with numbers. Plain text, at most 120 words. No medical diagnoses.',
+].join(' ');
+
+const buildPrompt = (req: CoachRequest) => {
+  const data = `DATA: ${serializeContext(req.context)}`;
+  return req.kind === 'briefing'
+    ? `${data}\n\nWrite today's briefing: how today compares with the week, the main drag on the score, and one concrete action for the rest of the day.`
+    : `${data}\n\nQUESTION: ${req.question}`;
+};
+
+export const createGeminiProvider = (apiKey: string, model = GEMINI_MODEL): CoachProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  online: true,
+  complete: req => generateText(apiKey, buildPrompt(req), { system: SYSTEM_PROMPT, model }),
+});
+
+// --- Offline provider ---
+
+const DOMAIN_LABELS: Record<Domain, string> = { sleep: 'sleep', nutrition: 'nutrition', hydration: 'hydration', physical: 'activity', mind: 'screen/study balance' };
+
+const DOMAIN_KEYWORDS: Record<Domain, RegExp> = {
+  sleep: /sleep|tired|bed|rest/i,
+  nutrition: /eat|food|protein|calorie|macro|diet|nutrition/i,
+  hydration: /water|hydrat|drink/i,
+  physical: /step|train|workout|gym|run|exercise|activ/i,
+  mind: /screen|study|focus|phone|mind/i,
+};
+
+const DOMAIN_ACTIONS: Record<Domain, string> = {
+  sleep: 'Protect tonight: fixed bedtime, screens off an hour before.',
+  nutrition: 'Plan the next meal around a protein source to close the macro gap.',
+  hydration: 'Drink 500 ml now and keep a bottle in sight.',
+  physical: 'A 30-minute walk covers roughly 3-4k steps.',
+  mind: 'Swap one social/entertainment block for a focused study session.',
+};
+
+const rankDomains = (ctx: CoachContext) => [...DOMAINS].sort((a, b) => ctx.week.domainMeans[a] - ctx.week.domainMeans[b]);
+
+const weekTrend = (ctx: CoachContext) => {
+  const { meanScore, prevMeanScore } = ctx.week;
+  if (prevMeanScore === null) return `This week averages ${meanScore.toFixed(0)}.`;
+  const delta = meanScore - prevMeanScore;
+  return `This week averages ${meanScore.toFixed(0)} (${delta >= 0 ? '+' : ''}${delta.toFixed(0)} vs the week before).`;
+};
+
+const offlineBriefing = (ctx: CoachContext) => {
+  const { scores } = ctx.today;
+  const todayWeakest = DOMAINS.reduce((lo, d) => scores[d] < scores[lo] ? d : lo, DOMAINS[0]);
+  const lines = [
+    `System at ${scores.system.toFixed(0)} today. ${weekTrend(ctx)}`,
+    `Weakest today: ${DOMAIN_LABELS[todayWeakest]} (${scores[todayWeakest].toFixed(0)}). Energy balance ${ctx.today.balance >= 0 ? '+' : ''}${ctx.today.balance.toFixed(0)} kcal against ${ctx.today.tdee.toFixed(0)} TDEE.`,
+  ];
+  if (ctx.alerts.length) lines.push(`Open alerts: ${ctx.alerts.slice(0, 3).join('; ')}.`);
+  lines.push(DOMAIN_ACTIONS[todayWeakest]);
+  return lines.join('\n');
+};
+
+const offlineAnswer = (ctx: CoachContext, question: string) => {
+  const asked = DOMAINS.filter(d => DOMAIN_KEYWORDS[d].test(question));
+  const focus = asked.length ? asked : rankDomains(ctx).slice(0, 2);
+  const days = ctx.week.days;
+  const lowest = days.length ? days.reduce((lo, d) => d.score < lo.score ? d : lo, days[0]) : null;
+
+  const lines = [weekTrend(ctx)];
+  focus.forEach(d => lines.push(`${DOMAIN_LABELS[d][0].toUpperCase()}${DOMAIN_LABELS[d].slice(1)} averaged ${ctx.week.domainMeans[d].toFixed(0)}/100 over the last ${days.length} days.`));
+  if (lowest) lines.push(`Lowest day: ${lowest.date} at ${lowest.score.toFixed(0)}, dragged by ${DOMAIN_LABELS[lowest.weakest]}.`);
+  if (focus.includes('sleep') && days.length) lines.push(`Sleep ranged ${Math.min(...days.map(d => d.sleepHours))}-${Math.max(...days.map(d => d.sleepHours))} h.`);
+  lines.push(DOMAIN_ACTIONS[focus[0]]);
+  return lines.join('\n');
+};
+
+export const createOfflineProvider = (): CoachProvider => ({
+  id: 'offline',
+  label: 'Offline',
+  online: false,
+  complete: async req => req.kind === 'briefing' ? offlineBriefing(req.context) : offlineAnswer(req.context, req.question),
+});
+
+export const getCoachProvider = (): CoachProvider => {
+  const key = geminiKey();
+  return key ? createGeminiProvider(key) : createOfflineProvider();
+};
+
+// Online failures (network, quota, bad key) fall back to the offline answer
+export const askCoach = async (provider: CoachProvider, req: CoachRequest) => {
+  try {
+    return { text: await provider.complete(req), provider };
+  } catch (err) {
+    console.error('MetrixOS: coach request failed', err);
+    const offline = createOfflineProvider();
+    return { text: await offline.complete(req), provider: offline };
+  }
+};
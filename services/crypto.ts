@@ -0,0 +1,46 @@
+/**
+ * ============================================================================
+ * CRYPTO: passphrase-derived AES-GCM
+ * ============================================================================
+ *
+ * The key is derived with PBKDF2-SHA256 from the passphrase and a random
+ * per-vault salt, and never leaves memory. Every record is sealed with its
+ * own random 96-bit IV; GCM's tag makes tampering or a wrong key fail loudly.
+ */
+
+export const KDF_ITERATIONS = 600_000; // OWASP 2023 guidance for PBKDF2-SHA256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface Sealed {
+  iv: Uint8Array;
+  ct: ArrayBuffer;
+}
+
+export const isSealed = (v: unknown): v is Sealed =>
+  typeof v === 'object' && v !== null && (v as Sealed).iv instanceof Uint8Array && (v as Sealed).ct instanceof ArrayBuffer;
+
+export const randomSalt = () => crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations = KDF_ITERATIONS) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+export const seal = async (key: CryptoKey, value: unknown): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, ct };
+};
+
+// Rejects when the key is wrong or the record was altered
+export const open = async <T>(key: CryptoKey, sealed: Sealed): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.ct);
+  return JSON.parse(new TextDecoder().decode(plain));
+};
@@ -0,0 +1,43 @@
+import { DayHistory } from '../types';
+import { DemoSettings, generateDemoHistory, isLegacySeed } from '../lib/demo';
+import { todayStr } from '../lib/day';
+import { deleteDays, loadHistory, replaceDays, saveDays, setDayStore } from './storage';
+
+/**
+ * ============================================================================
+ * DEMO DATASET
+ * ============================================================================
+ *
+ * Switches the active day store between real and synthetic data. The demo
+ * store is generated on first use and kept until regenerated or cleared.
+ */
+
+// Days written by the old first-run seeder move to the demo store, tagged
+const migrateLegacySeed = async (days: DayHistory) => {
+  const seeded = Object.keys(days).filter(d => isLegacySeed(days[d]));
+  if (seeded.length === 0) return days;
+  const moved: DayHistory = {};
+  const real = { ...days };
+  seeded.forEach(d => {
+    moved[d] = { ...days[d], synthetic: true };
+    delete real[d];
+  });
+  await saveDays(moved, 'demo');
+  await deleteDays(seeded, 'days');
+  return real;
+};
+
+export const loadDataset = async (settings: DemoSettings): Promise<DayHistory> => {
+  if (!settings.enabled) {
+    setDayStore('days');
+    return migrateLegacySeed(await loadHistory());
+  }
+  setDayStore('demo');
+  const existing = await loadHistory();
+  if (Object.keys(existing).length > 0) return existing;
+  const generated = generateDemoHistory(settings.profile, settings.seed, settings.days, todayStr());
+  await saveDays(generated);
+  return generated;
+};
+
+export const clearDemo = () => replaceDays({}, 'demo');
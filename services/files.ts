@@ -0,0 +1,14 @@
+/**
+ * ============================================================================
+ * FILES: browser downloads
+ * ============================================================================
+ */
+
+export const downloadText = (filename: string, text: string, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
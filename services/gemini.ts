@@ -0,0 +1,29 @@
+/**
+ * ============================================================================
+ * GEMINI CLIENT
+ * ============================================================================
+ *
+ * Thin wrapper over @google/genai shared by the model-backed services. The
+ * SDK is loaded on first use so offline sessions never pull it in.
+ */
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Injected by vite.config.ts from GEMINI_API_KEY; undefined when not configured
+export const geminiKey = () => process.env.API_KEY || null;
+
+export const generateText = async (apiKey: string, prompt: string, opts: { system?: string; json?: boolean; model?: string } = {}) => {
+  const { GoogleGenAI } = await import('@google/genai');
+  const ai = new GoogleGenAI({ apiKey });
+  const res = await ai.models.generateContent({
+    model: opts.model || GEMINI_MODEL,
+    contents: prompt,
+    config: {
+      systemInstruction: opts.system,
+      responseMimeType: opts.json ? 'application/json' : undefined,
+    },
+  });
+  const text = res.text?.trim();
+  if (!text) throw new Error('Gemini: empty response');
+  return text;
+};
@@ -0,0 +1,51 @@
+import { FoodCandidate, MealParser, ParsedItem, parseMealText, ruleBasedParser } from '../lib/mealParser';
+import { createId } from '../lib/id';
+import { geminiKey, generateText } from './gemini';
+
+/**
+ * ============================================================================
+ * MEAL PARSERS
+ * ============================================================================
+ *
+ * The model-backed parser sees the candidate food list and must answer with
+ * ids from it; anything it returns that does not resolve is dropped. It falls
+ * back to the rule-based parser on any failure.
+ */
+
+const SYSTEM_PROMPT = [
+  'You convert a free-text meal description into food portions.',
+  'Only use food ids from the FOODS list. Convert every amount to grams using typical densities and portion weights.',
+  'Respond with a JSON array of {"text": source fragment, "id": food id or null, "grams": number, "confidence": 0-1}.',
+].join(' ');
+
+const buildPrompt = (text: string, foods: FoodCandidate[]) =>
+  `FOODS: ${JSON.stringify(foods.map(f => ({ id: f.id, name: f.name, gPerPiece: f.piece, gPerMl: f.density })))}\n\nMEAL: ${text}`;
+
+export const createLlmMealParser = (apiKey: string): MealParser => ({
+  id: 'gemini',
+  label: 'Gemini',
+  parse: async (text, foods) => {
+    try {
+      const raw = JSON.parse(await generateText(apiKey, buildPrompt(text, foods), { system: SYSTEM_PROMPT, json: true }));
+      if (!Array.isArray(raw)) throw new Error('Meal parser: expected an array');
+      const ids = new Set(foods.map(f => f.id));
+      return raw
+        .filter(r => r && typeof r.grams === 'number' && r.grams > 0)
+        .map((r): ParsedItem => ({
+          uid: createId(),
+          text: String(r.text ?? ''),
+          foodId: ids.has(r.id) ? r.id : null,
+          grams: Math.round(r.grams),
+          confidence: Math.max(0, Math.min(1, Number(r.confidence) || 0)),
+        }));
+    } catch (err) {
+      console.error('MetrixOS: meal parser request failed', err);
+      return parseMealText(text, foods);
+    }
+  },
+});
+
+export const getMealParser = (): MealParser => {
+  const key = geminiKey();
+  return key ? createLlmMealParser(key) : ruleBasedParser;
+};
@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * NOTIFICATIONS: system notifications through the service worker
+ * ============================================================================
+ *
+ * Reminders are scheduled by the open app (lib/reminders); this module only
+ * delivers them. Notifications go through the service worker in public/sw.js
+ * so clicking one focuses the app. Anything that cannot be shown as a system
+ * notification returns false, and the caller falls back to an in-app banner.
+ */
+
+export type NotificationStatus = NotificationPermission | 'unsupported';
+
+const SW_URL = '/sw.js';
+
+export const notificationStatus = (): NotificationStatus =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+const serviceWorker = () => {
+  if (!registration) {
+    registration = typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(SW_URL).catch(err => {
+          console.warn('MetrixOS: service worker unavailable', err);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+// Register the worker early so the first reminder does not wait for it
+export const initNotifications = () => {
+  if (notificationStatus() === 'granted') serviceWorker();
+};
+
+export const requestNotifications = async (): Promise<NotificationStatus> => {
+  if (notificationStatus() === 'unsupported') return 'unsupported';
+  const result = await Notification.requestPermission();
+  if (result === 'granted') serviceWorker();
+  return result;
+};
+
+export const showNotification = async (title: string, body: string, tag: string) => {
+  if (notificationStatus() !== 'granted') return false;
+  try {
+    const reg = await serviceWorker();
+    if (reg) {
+      await reg.showNotification(title, { body, tag });
+    } else {
+      new Notification(title, { body, tag });
+    }
+    return true;
+  } catch (err) {
+    console.warn('MetrixOS: notification failed', err);
+    return false;
+  }
+};
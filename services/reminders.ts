@@ -0,0 +1,33 @@
+import { ReminderContext, ReminderSettings, dueReminders, lockedSchedule, markFired, reminderSchedule } from '../lib/reminders';
+import { loadReminderSchedule, saveReminderSchedule } from './storage';
+import { showNotification } from './notifications';
+
+/**
+ * ============================================================================
+ * REMINDERS WHILE LOCKED
+ * ============================================================================
+ *
+ * The open app schedules reminders from the sealed settings. While the vault
+ * is locked, the lock screen checks the unencrypted copy instead: fixed and
+ * interval reminders only, shown without their titles. A reminder that
+ * cannot be shown is left unfired, so the app shows it as a banner if it is
+ * unlocked within the grace period.
+ */
+
+// Fixed and interval reminders do not look at the log
+const NO_CONTEXT: ReminderContext = { hydration: 0, hydrationTarget: 0, mealsLogged: 0, bedtime: '23:00' };
+
+const LOCKED_TITLE = 'MetrixOS reminder';
+
+export const loadSchedule = () => loadReminderSchedule<ReminderSettings>();
+
+export const saveSchedule = (settings: ReminderSettings) => saveReminderSchedule(lockedSchedule(settings));
+
+export const fireLockedReminders = async (now = new Date()) => {
+  const schedule = await loadSchedule();
+  if (!schedule) return;
+  const due = dueReminders(schedule, now, NO_CONTEXT);
+  const shown = await Promise.all(due.map(r => showNotification(LOCKED_TITLE, `${reminderSchedule(r)}. Unlock to see which.`, r.id)));
+  const fired = due.filter((_, i) => shown[i]).map(r => r.id);
+  if (fired.length) await saveReminderSchedule(markFired(schedule, fired, now));
+};
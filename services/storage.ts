@@ -0,0 +1,358 @@
+import { DayHistory, DayRecord } from '../types';
+
+/**
+ * ============================================================================
+ * STORAGE: IndexedDB-backed persistence
+ * ============================================================================
+ *
+ * `days` holds one DayRecord per YYYY-MM-DD key, `demo` the same for the
+ * synthetic dataset, `meta` holds singleton documents (profile, recipes,
+ * ...). Day reads and writes go to whichever day store is active. Day writes are queued and flushed in a
+ * single transaction so an edit only touches the days that changed.
+ *
+ * Every value passes through the active codec (see services/vault), which
+ * seals it with the vault key. Only the vault's own KDF parameters and the
+ * reminder schedule copy (see services/reminders) are stored in the clear.
+ */
+
+const DB_NAME = 'metrix';
+export const DB_VERSION = 3;
+
+const DAYS = 'days';
+const DEMO = 'demo';
+const META = 'meta';
+
+export type DayStore = typeof DAYS | typeof DEMO;
+
+export type MetaKey = 'profile' | 'recipes' | 'scoring' | 'alerts' | 'briefing' | 'foods' | 'demo' | 'goals' | 'reminders' | 'focusTimer';
+
+const VAULT_KEY = 'vault';
+const SCHEDULE_KEY = 'reminderSchedule';
+// Meta entries that bypass the codec
+const PLAIN_KEYS = [VAULT_KEY, SCHEDULE_KEY];
+
+const LEGACY_HISTORY_KEY = 'metrix_history';
+const LEGACY_RECIPES_KEY = 'metrix_recipes';
+
+// Each step upgrades the schema from (version - 1) to version
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: db => {
+    db.createObjectStore(DAYS);
+    db.createObjectStore(META);
+  },
+  // Import the pre-IndexedDB localStorage blobs
+  2: (_db, tx) => {
+    const legacyHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (legacyHistory) {
+      const parsed: DayHistory = JSON.parse(legacyHistory);
+      const days = tx.objectStore(DAYS);
+      Object.keys(parsed).forEach(d => days.put(parsed[d], d));
+    }
+    const legacyRecipes = localStorage.getItem(LEGACY_RECIPES_KEY);
+    if (legacyRecipes) tx.objectStore(META).put(JSON.parse(legacyRecipes), 'recipes');
+    tx.addEventListener('complete', () => {
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+      localStorage.removeItem(LEGACY_RECIPES_KEY);
+    });
+  },
+  3: db => {
+    db.createObjectStore(DEMO);
+  },
+};
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const done = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Transforms values on their way into and out of IndexedDB
+export interface Codec {
+  encode: (value: unknown) => Promise<unknown>;
+  decode: (stored: unknown) => Promise<unknown>;
+}
+
+export const PLAIN_CODEC: Codec = { encode: async v => v, decode: async v => v };
+
+// null while the vault is locked, so nothing is read or written in the clear
+let codec: Codec | null = null;
+
+export const setCodec = (next: Codec | null) => { codec = next; };
+
+const activeCodec = () => {
+  if (!codec) throw new Error('MetrixOS: vault is locked');
+  return codec;
+};
+
+let dayStore: DayStore = DAYS;
+
+export const setDayStore = (store: DayStore) => { dayStore = store; };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openStorage = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = e => {
+        const tx = req.transaction!;
+        for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const readAll = async (db: IDBDatabase, name: string) => {
+  const store = db.transaction(name, 'readonly').objectStore(name);
+  const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+  return keys.map((k, i) => [k as string, values[i]] as [string, unknown]);
+};
+
+// Encode everything before opening the transaction: IDB commits on an idle tick
+const encodeAll = (days: DayHistory) => {
+  const c = activeCodec();
+  return Promise.all(Object.keys(days).map(async d => [d, await c.encode(days[d])] as [string, unknown]));
+};
+
+// --- Status ---
+
+// Problems the UI should show: records that could not be read, and queued
+// day edits whose last write failed
+export interface StorageStatus {
+  unreadable: string[]; // dates skipped on the last history load
+  unsavedDays: string[];
+}
+
+let status: StorageStatus = { unreadable: [], unsavedDays: [] };
+const listeners = new Set<(status: StorageStatus) => void>();
+
+const setStatus = (patch: Partial<StorageStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(l => l(status));
+};
+
+export const subscribeStorage = (listener: (status: StorageStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+// --- Rekey gate ---
+
+// Writes that have started encoding, which a rekey must wait out
+const inFlight = new Set<Promise<unknown>>();
+let rekeying: Promise<void> | null = null;
+
+const rekeyDone = async () => {
+  while (rekeying) await rekeying;
+};
+
+// Run a write after any rekey in progress, so it encodes with the new key
+const tracked = <T>(write: () => Promise<T>): Promise<T> => {
+  const run = rekeyDone().then(write);
+  inFlight.add(run);
+  const settle = () => { inFlight.delete(run); };
+  run.then(settle, settle);
+  return run;
+};
+
+/**
+ * A record that cannot be decoded is skipped and left in place rather than
+ * failing the whole load; it stays there until the day is saved again.
+ */
+export const loadHistory = async (store = dayStore): Promise<DayHistory> => {
+  await rekeyDone();
+  const c = activeCodec();
+  const db = await openStorage();
+  const entries = await readAll(db, store);
+  const history: DayHistory = {};
+  const unreadable: string[] = [];
+  await Promise.all(entries.map(async ([k, v]) => {
+    try {
+      history[k] = await c.decode(v) as DayRecord;
+    } catch (err) {
+      console.error(`MetrixOS: skipped unreadable record ${store}/${k}`, err);
+      unreadable.push(k);
+    }
+  }));
+  setStatus({ unreadable: unreadable.sort() });
+  return history;
+};
+
+export const saveDays = (days: DayHistory, target = dayStore) => tracked(async () => {
+  const encoded = await encodeAll(days);
+  const db = await openStorage();
+  const tx = db.transaction(target, 'readwrite');
+  const store = tx.objectStore(target);
+  encoded.forEach(([d, v]) => store.put(v, d));
+  return done(tx);
+});
+
+export const deleteDays = (dates: string[], target = dayStore) => tracked(async () => {
+  const db = await openStorage();
+  const tx = db.transaction(target, 'readwrite');
+  const store = tx.objectStore(target);
+  dates.forEach(d => store.delete(d));
+  return done(tx);
+});
+
+// Swap the whole day store in one transaction (full restore); queued edits
+// for that store are discarded with the rest of its data
+export const replaceDays = (days: DayHistory, target = dayStore) => {
+  pending[target] = {};
+  return tracked(async () => {
+    const encoded = await encodeAll(days);
+    const db = await openStorage();
+    const tx = db.transaction(target, 'readwrite');
+    const store = tx.objectStore(target);
+    store.clear();
+    encoded.forEach(([d, v]) => store.put(v, d));
+    return done(tx);
+  });
+};
+
+export const loadMeta = async <T>(key: MetaKey): Promise<T | undefined> => {
+  await rekeyDone();
+  const c = activeCodec();
+  const db = await openStorage();
+  const stored = await promisify(db.transaction(META, 'readonly').objectStore(META).get(key));
+  return stored === undefined ? undefined : await c.decode(stored) as T;
+};
+
+export const saveMeta = (key: MetaKey, value: unknown) => tracked(async () => {
+  const encoded = await activeCodec().encode(value);
+  const db = await openStorage();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put(encoded, key);
+  return done(tx);
+});
+
+// --- Debounced day writer ---
+
+const WRITE_DELAY = 500;
+const RETRY_DELAY = 15_000;
+// Queued per store, so a dataset switch cannot redirect edits
+const pending: Record<DayStore, DayHistory> = { [DAYS]: {}, [DEMO]: {} };
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const schedule = (delay: number) => {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(flushDays, delay);
+};
+
+/**
+ * Never rejects. A failed batch goes back in the queue, behind any newer edit
+ * of the same day, is reported through the status and retried later.
+ */
+export const flushDays = async () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const failed = await Promise.all((Object.keys(pending) as DayStore[]).map(async store => {
+    const batch = pending[store];
+    pending[store] = {};
+    if (Object.keys(batch).length === 0) return false;
+    try {
+      await saveDays(batch, store);
+      return false;
+    } catch (err) {
+      console.error('MetrixOS: failed to persist days', err);
+      pending[store] = { ...batch, ...pending[store] };
+      return true;
+    }
+  }));
+  if (failed.some(Boolean)) {
+    setStatus({ unsavedDays: [...new Set([...Object.keys(pending[DAYS]), ...Object.keys(pending[DEMO])])].sort() });
+    if (!timer) schedule(RETRY_DELAY);
+  } else if (status.unsavedDays.length) {
+    setStatus({ unsavedDays: [] });
+  }
+};
+
+export const queueDay = (date: string, record: DayRecord) => {
+  pending[dayStore][date] = record;
+  schedule(WRITE_DELAY);
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => { flushDays(); });
+}
+
+// --- Vault ---
+
+export const loadVaultConfig = async <T>(): Promise<T | undefined> => {
+  const db = await openStorage();
+  return promisify(db.transaction(META, 'readonly').objectStore(META).get(VAULT_KEY));
+};
+
+export const saveVaultConfig = (config: unknown) => tracked(async () => {
+  const db = await openStorage();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put(config, VAULT_KEY);
+  return done(tx);
+});
+
+// --- Reminder schedule ---
+
+export const loadReminderSchedule = async <T>(): Promise<T | undefined> => {
+  const db = await openStorage();
+  return promisify(db.transaction(META, 'readonly').objectStore(META).get(SCHEDULE_KEY));
+};
+
+export const saveReminderSchedule = async (schedule: unknown) => {
+  const db = await openStorage();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put(schedule, SCHEDULE_KEY);
+  return done(tx);
+};
+
+/**
+ * Re-encode every stored value from one codec to another and store the new
+ * vault config, all in one transaction: either everything moves to the new
+ * key or nothing does. Queued days are flushed first; writes started later
+ * wait until the new codec is active, so none lands sealed with the old key.
+ */
+export const rekeyStorage = async (from: Codec, to: Codec, config: unknown) => {
+  await flushDays();
+  let release = () => {};
+  rekeying = new Promise(resolve => { release = resolve; });
+  try {
+    await Promise.all([...inFlight].map(w => w.catch(() => undefined)));
+    const db = await openStorage();
+    const stores = [DAYS, DEMO, META];
+    const recode = (entries: [string, unknown][]) => Promise.all(entries
+      .filter(([k]) => !PLAIN_KEYS.includes(k))
+      .map(async ([k, v]) => [k, await to.encode(await from.decode(v))] as [string, unknown]));
+    const recoded = await Promise.all(stores.map(async name => recode(await readAll(db, name))));
+
+    const tx = db.transaction(stores, 'readwrite');
+    stores.forEach((name, i) => recoded[i].forEach(([k, v]) => tx.objectStore(name).put(v, k)));
+    tx.objectStore(META).put(config, VAULT_KEY);
+    await done(tx);
+    codec = to;
+  } finally {
+    rekeying = null;
+    release();
+  }
+};
+
+// Irreversibly delete all days, settings and the vault config
+export const eraseStorage = async () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  pending[DAYS] = {};
+  pending[DEMO] = {};
+  setStatus({ unreadable: [], unsavedDays: [] });
+  const db = await openStorage();
+  const stores = [DAYS, DEMO, META];
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach(name => tx.objectStore(name).clear());
+  return done(tx);
+};
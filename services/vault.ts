@@ -0,0 +1,95 @@
+import { KDF_ITERATIONS, Sealed, deriveKey, isSealed, open, randomSalt, seal } from './crypto';
+import { Codec, PLAIN_CODEC, eraseStorage, flushDays, loadVaultConfig, rekeyStorage, saveVaultConfig, setCodec } from './storage';
+
+/**
+ * ============================================================================
+ * VAULT: passphrase, lock state & re-encryption
+ * ============================================================================
+ *
+ * Unlocking derives the key and installs a sealing codec in storage; locking
+ * drops it. The passphrase is checked against a sealed constant, so a wrong
+ * one is rejected before any record is touched. There is no recovery: a
+ * forgotten passphrase means erasing the vault and restoring a backup.
+ */
+
+export interface VaultConfig {
+  version: 1;
+  kdf: { name: 'PBKDF2-SHA256'; iterations: number; salt: Uint8Array };
+  check: Sealed; // CHECK_VALUE sealed with the vault key
+  autoLockMinutes: number; // 0 = never
+}
+
+export const MIN_PASSPHRASE = 8;
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30];
+const DEFAULT_AUTO_LOCK = 5;
+
+const CHECK_VALUE = 'metrix-vault';
+
+// setupVault seals every record, so an unsealed one was not written by the app
+const sealingCodec = (key: CryptoKey): Codec => ({
+  encode: value => seal(key, value),
+  decode: stored => isSealed(stored) ? open(key, stored) : Promise.reject(new Error('MetrixOS: unsealed record in vault')),
+});
+
+const newKey = async (passphrase: string) => {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  return { key, kdf: { name: 'PBKDF2-SHA256' as const, iterations: KDF_ITERATIONS, salt }, check: await seal(key, CHECK_VALUE) };
+};
+
+// The key for `passphrase`, or null when it is wrong
+const verify = async (config: VaultConfig, passphrase: string) => {
+  const key = await deriveKey(passphrase, config.kdf.salt, config.kdf.iterations);
+  try {
+    return await open<string>(key, config.check) === CHECK_VALUE ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadVault = () => loadVaultConfig<VaultConfig>();
+
+// First run, or data from before encryption: seal everything under a new key
+export const setupVault = async (passphrase: string): Promise<VaultConfig> => {
+  const { key, kdf, check } = await newKey(passphrase);
+  const config: VaultConfig = { version: 1, kdf, check, autoLockMinutes: DEFAULT_AUTO_LOCK };
+  const codec = sealingCodec(key);
+  await rekeyStorage(PLAIN_CODEC, codec, config);
+  setCodec(codec);
+  return config;
+};
+
+export const unlockVault = async (config: VaultConfig, passphrase: string) => {
+  const key = await verify(config, passphrase);
+  if (key) setCodec(sealingCodec(key));
+  return key !== null;
+};
+
+// Pending day writes are sealed before the key is dropped
+export const lockVault = async () => {
+  await flushDays();
+  setCodec(null);
+};
+
+// Returns the new config, or null when `current` is wrong
+export const changePassphrase = async (config: VaultConfig, current: string, next: string): Promise<VaultConfig | null> => {
+  const oldKey = await verify(config, current);
+  if (!oldKey) return null;
+  const { key, kdf, check } = await newKey(next);
+  const nextConfig: VaultConfig = { ...config, kdf, check };
+  // Also makes the new key the active codec
+  await rekeyStorage(sealingCodec(oldKey), sealingCodec(key), nextConfig);
+  return nextConfig;
+};
+
+export const setAutoLock = async (config: VaultConfig, minutes: number) => {
+  const next = { ...config, autoLockMinutes: minutes };
+  await saveVaultConfig(next);
+  return next;
+};
+
+// Irreversible: deletes every record along with the key parameters
+export const eraseVault = async () => {
+  setCodec(null);
+  await eraseStorage();
+};
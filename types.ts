@@ -0,0 +1,226 @@
+/**
+ * ============================================================================
+ * SHARED TYPES
+ * ============================================================================
+ */
+
+// Per-gram nutrient density. The extra nutrients are optional: absent
+// means unknown, not zero.
+export interface Macros {
+  cal: number;
+  p: number;
+  c: number;
+  f: number;
+  fiber?: number; // g
+  sugar?: number; // g
+  sodium?: number; // mg
+  potassium?: number; // mg
+  calcium?: number; // mg
+  iron?: number; // mg
+  vitaminC?: number; // mg
+}
+
+export type NutrientKey = 'fiber' | 'sugar' | 'sodium' | 'potassium' | 'calcium' | 'iron' | 'vitaminC';
+
+export interface Serving {
+  l: string; // "cup", "slice"
+  g: number;
+}
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  macros: Macros;
+  density?: number; // g per ml, for volume units
+  piece?: number; // g per piece / scoop
+  servings?: Serving[];
+  custom?: boolean; // user-created or imported
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'junk';
+
+// A logged portion. Composed dishes and custom foods carry a per-gram
+// snapshot of their macros, built-in ingredients are resolved against the DB.
+export interface MealItem {
+  uid: string;
+  id: string;
+  name: string;
+  amount: number; // grams
+  macros?: Macros;
+}
+
+export type IntakeKind = 'meal' | 'caffeine' | 'alcohol';
+
+// A timed intake. Meals only mark when eating happened; what was eaten is
+// logged in the meal slots.
+export interface IntakeEvent {
+  uid: string;
+  kind: IntakeKind;
+  time: string; // HH:MM on the day logged
+  amount: number; // mg caffeine or alcohol units, 0 for meals
+  label?: string;
+}
+
+export interface RecipeComponent {
+  id: string;
+  amount: number; // grams
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: RecipeComponent[];
+  totalGrams: number;
+  macros: Macros; // per gram of finished dish
+}
+
+export type MuscleGroup = 'legs' | 'back' | 'chest' | 'shoulders' | 'arms' | 'core';
+
+export interface Exercise {
+  id: string;
+  name: string;
+  type: 'strength';
+  muscle: MuscleGroup;
+  calPerRep: number;
+}
+
+// One logged exercise block; volume = sets * reps * weight
+export interface StrengthEntry {
+  uid: string;
+  exerciseId: string;
+  sets: number;
+  reps: number;
+  weight: number; // kg
+}
+
+export interface RunEntry {
+  uid: string;
+  distance: number; // km
+  duration: number; // minutes
+  start?: string; // ISO timestamp, on imported runs
+  source?: string; // import format, see lib/healthImport
+}
+
+export interface TrainingState {
+  cardio: { steps: number; runs: RunEntry[] };
+  strength: { sessions: StrengthEntry[] };
+}
+
+export type StudyCategory = 'reading' | 'lectures' | 'deepWork' | 'practice';
+export type ScreenCategory = 'social' | 'entertainment' | 'productivity' | 'communication' | 'other';
+
+export interface FocusSession {
+  uid: string;
+  category: StudyCategory;
+  start: string; // ISO timestamp
+  minutes: number;
+}
+
+export interface MindState {
+  screenTime: { total: number; byCategory: Record<ScreenCategory, number> };
+  study: Record<StudyCategory, number>; // minutes
+  sessions: FocusSession[];
+}
+
+export interface Nap {
+  uid: string;
+  start: string; // HH:MM
+  duration: number; // minutes
+}
+
+export interface SleepState {
+  bedtime: string; // HH:MM
+  waketime: string; // HH:MM
+  awakenings: number;
+  awakeDuration: number; // minutes
+  qualityRating: number; // 1-10, 0 when not rated
+  naps: Nap[];
+}
+
+// Optional daily weigh-in
+export interface BodyEntry {
+  weight?: number; // kg
+  waist?: number; // cm
+  bodyFat?: number; // %
+}
+
+/**
+ * ============================================================================
+ * PERSISTED MODELS
+ * ============================================================================
+ */
+
+export type BmrFormula = 'mifflin' | 'katch' | 'harris';
+
+export interface UserProfile {
+  name: string;
+  weight: number; // kg
+  height: number; // cm
+  age: number;
+  gender: 'male' | 'female';
+  bodyFat?: number; // %
+  activityFactor: number; // lifestyle multiplier applied to BMR
+  bmrFormula: BmrFormula;
+}
+
+// One stored day. Summary metrics are always present; detail fields are
+// absent on records that predate per-day editing.
+export interface DayRecord {
+  sleep: { durationMinutes: number; efficiency: number } & Partial<SleepState>;
+  nutrition: {
+    calories: number;
+    protein: number;
+    carbs?: number;
+    fat?: number;
+    hydration: number; // ml
+    nutrients?: Partial<Record<NutrientKey, number>>;
+    meals?: Record<MealSlot, MealItem[]>;
+    intake?: IntakeEvent[]; // absent on days logged before intake timing
+  };
+  physical: {
+    steps: number;
+    strengthVol: number;
+    sessions?: StrengthEntry[];
+    runs?: RunEntry[];
+  };
+  mind: {
+    screenTime: number; // minutes
+    studyMinutes: number;
+    study?: Record<StudyCategory, number>;
+    screenByCategory?: Record<ScreenCategory, number>;
+    sessions?: FocusSession[];
+  };
+  body?: BodyEntry;
+  energy?: { intake: number; tdee: number; balance: number }; // kcal, as modelled that day
+  score: number;
+  scores?: DayScores;
+  scoringVersion?: number; // model that produced `score`
+  synthetic?: boolean; // demo data, see lib/demo
+}
+
+// Keyed by YYYY-MM-DD
+export type DayHistory = Record<string, DayRecord>;
+
+// Per-domain subscores (0-100) and the weighted system score
+export interface DayScores {
+  sleep: number;
+  nutrition: number;
+  hydration: number;
+  physical: number;
+  mind: number;
+  system: number;
+}
+
+// Tunable parameters of the scoring engine; weights are normalised on use
+export interface ScoringParams {
+  sleep: { target: number; tolerance: number; weight: number }; // minutes, Gaussian sigma
+  nutrition: { tolerance: number; weight: number }; // % deviation from macro targets scoring 0
+  hydration: { tolerance: number; weight: number }; // % overshoot before decay
+  physical: { stepsTarget: number; volumeTarget: number; weight: number };
+  mind: { screenLimit: number; screenTolerance: number; studyTarget: number; weight: number }; // minutes
+}
+
+export interface ScoringSettings {
+  preset: string; // preset id, or 'custom' once edited
+  params: ScoringParams;
+}